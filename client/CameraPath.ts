@@ -0,0 +1,194 @@
+/**
+ * CameraPath - spline camera fly-throughs
+ *
+ * Builds a position curve (Catmull-Rom, cubic Bezier or polyline) and an
+ * optional separate look-at track from a plain JSON spec, and samples both by
+ * playback progress with a named easing. Without a look-at track the camera
+ * looks along the path.
+ *
+ * @example
+ * ```typescript
+ * const path = createCameraPath({
+ *     points: [[0, 2, 10], [8, 4, 0], [0, 6, -10]],
+ *     lookAt: [0, 0, 0],
+ *     easing: 'easeInOutSine',
+ * });
+ * const { position, lookAt } = sampleCameraPath(path, 0.5);
+ * ```
+ */
+
+import * as THREE from 'three';
+import type { EasingName } from '../src/protocol.js';
+
+export type { EasingName };
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+    linear: (t: number) => t,
+    easeIn: (t: number) => t * t,
+    easeOut: (t: number) => t * (2 - t),
+    easeInOut: (t: number) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
+    easeInCubic: (t: number) => t * t * t,
+    easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+    easeInOutCubic: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+    easeInOutSine: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+};
+
+/**
+ * `catmullrom` and `centripetal` pass through every point; `bezier` reads the
+ * points as cubic segments (start, control, control, end, control, control, end...);
+ * `linear` joins the points with straight lines.
+ */
+export type CameraCurveType = 'catmullrom' | 'centripetal' | 'bezier' | 'linear';
+
+export interface CameraPathSpec {
+    points: number[][];
+    /** Default: catmullrom */
+    curve?: CameraCurveType;
+    /** Catmull-Rom tension (default: 0.5) */
+    tension?: number;
+    closed?: boolean;
+    /** A fixed point to look at, or a track of points spread over the playback like the positions */
+    lookAt?: number[] | number[][];
+    /** Field of view keyframes, spread evenly over the playback */
+    fov?: number[];
+    /** Playback duration in ms (default: 5000) */
+    duration?: number;
+    /** Default: easeInOut */
+    easing?: EasingName;
+    /** Move at constant speed along the curve instead of spending equal time between points (default: true) */
+    constantSpeed?: boolean;
+}
+
+export interface CameraPath {
+    position: THREE.Curve<THREE.Vector3>;
+    lookAt: THREE.Curve<THREE.Vector3> | THREE.Vector3 | null;
+    fov: number[];
+    duration: number;
+    easing: (t: number) => number;
+    constantSpeed: boolean;
+}
+
+export interface CameraPathSample {
+    position: THREE.Vector3;
+    lookAt: THREE.Vector3;
+    fov?: number;
+}
+
+export function createCameraPath(spec: CameraPathSpec): CameraPath {
+    const points = toVectors(spec.points, 'points');
+    const curveType = spec.curve ?? 'catmullrom';
+
+    if (!(curveType in CURVE_BUILDERS)) {
+        throw new Error(`Unknown curve "${curveType}", use one of: ${Object.keys(CURVE_BUILDERS).join(', ')}`);
+    }
+    if (points.length < 2) {
+        throw new Error('A camera path needs at least 2 points');
+    }
+
+    const easingName = spec.easing ?? 'easeInOut';
+    const easing = EASINGS[easingName];
+    if (!easing) {
+        throw new Error(`Unknown easing "${easingName}", use one of: ${Object.keys(EASINGS).join(', ')}`);
+    }
+
+    let lookAt: CameraPath['lookAt'] = null;
+    if (Array.isArray(spec.lookAt) && spec.lookAt.length > 0) {
+        if (Array.isArray(spec.lookAt[0])) {
+            const track = toVectors(spec.lookAt as number[][], 'lookAt');
+            // A track that never moves has no length to sample by
+            lookAt = track.every((point) => point.equals(track[0]))
+                ? track[0]
+                : new THREE.CatmullRomCurve3(track, false, 'centripetal');
+        } else {
+            lookAt = toVectors([spec.lookAt as number[]], 'lookAt')[0];
+        }
+    }
+
+    const duration = spec.duration ?? 5000;
+    if (!Number.isFinite(duration) || duration < 0) {
+        throw new Error('Camera path duration must be a non-negative number of ms');
+    }
+
+    const position = CURVE_BUILDERS[curveType](points, spec);
+    if (position.getLength() === 0) {
+        throw new Error('Camera path points must not all be the same');
+    }
+
+    return {
+        position,
+        lookAt,
+        fov: (spec.fov ?? []).filter((value) => Number.isFinite(value)),
+        duration,
+        easing,
+        constantSpeed: spec.constantSpeed ?? true,
+    };
+}
+
+/**
+ * Camera state at `progress` (0-1 of playback time, before easing)
+ */
+export function sampleCameraPath(path: CameraPath, progress: number): CameraPathSample {
+    const t = THREE.MathUtils.clamp(path.easing(THREE.MathUtils.clamp(progress, 0, 1)), 0, 1);
+    const position = samplePoint(path.position, t, path.constantSpeed);
+
+    let lookAt: THREE.Vector3;
+    if (path.lookAt instanceof THREE.Vector3) {
+        lookAt = path.lookAt.clone();
+    } else if (path.lookAt) {
+        lookAt = samplePoint(path.lookAt, t, path.constantSpeed);
+    } else {
+        const tangent = path.constantSpeed ? path.position.getTangentAt(t) : path.position.getTangent(t);
+        lookAt = position.clone().add(tangent);
+    }
+
+    return { position, lookAt, fov: sampleKeyframes(path.fov, t) };
+}
+
+const CURVE_BUILDERS: Record<CameraCurveType, (points: THREE.Vector3[], spec: CameraPathSpec) => THREE.Curve<THREE.Vector3>> = {
+    catmullrom: (points, spec) => new THREE.CatmullRomCurve3(points, spec.closed ?? false, 'catmullrom', spec.tension ?? 0.5),
+    centripetal: (points, spec) => new THREE.CatmullRomCurve3(points, spec.closed ?? false, 'centripetal'),
+    bezier: (points, spec) => {
+        const anchors = spec.closed ? [...points, points[0]] : points;
+        if ((anchors.length - 1) % 3 !== 0) {
+            throw new Error(`A bezier path needs 3n + 1 points (start, then control, control, end per segment), got ${anchors.length}`);
+        }
+        const path = new THREE.CurvePath<THREE.Vector3>();
+        for (let i = 0; i + 3 < anchors.length; i += 3) {
+            path.add(new THREE.CubicBezierCurve3(anchors[i], anchors[i + 1], anchors[i + 2], anchors[i + 3]));
+        }
+        return path;
+    },
+    linear: (points, spec) => {
+        const corners = spec.closed ? [...points, points[0]] : points;
+        const path = new THREE.CurvePath<THREE.Vector3>();
+        for (let i = 0; i + 1 < corners.length; i++) {
+            path.add(new THREE.LineCurve3(corners[i], corners[i + 1]));
+        }
+        return path;
+    },
+};
+
+function samplePoint(curve: THREE.Curve<THREE.Vector3>, t: number, constantSpeed: boolean): THREE.Vector3 {
+    return constantSpeed ? curve.getPointAt(t) : curve.getPoint(t);
+}
+
+function sampleKeyframes(values: number[], t: number): number | undefined {
+    if (values.length === 0) return undefined;
+    if (values.length === 1) return values[0];
+
+    const scaled = t * (values.length - 1);
+    const index = Math.min(Math.floor(scaled), values.length - 2);
+    return THREE.MathUtils.lerp(values[index], values[index + 1], scaled - index);
+}
+
+function toVectors(points: unknown, field: string): THREE.Vector3[] {
+    if (!Array.isArray(points)) {
+        throw new Error(`Camera path ${field} must be an array of [x, y, z] points`);
+    }
+    return points.map((point, i) => {
+        if (!Array.isArray(point) || point.length !== 3 || !point.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+            throw new Error(`Camera path ${field}[${i}] must be [x, y, z]`);
+        }
+        return new THREE.Vector3(point[0], point[1], point[2]);
+    });
+}
@@ -0,0 +1,137 @@
+/**
+ * CommandHistory - Bounded undo/redo stack for MCPBridge mutations
+ *
+ * Each entry holds closures over the affected objects, so undo/redo keep
+ * working after renames and never go back through command dispatch.
+ */
+
+export interface HistoryEntry {
+    /** Bridge action that produced the entry */
+    action: string;
+    /** Human readable summary, e.g. `move "Player"` */
+    label: string;
+    timestamp: number;
+    undo: () => void;
+    redo: () => void;
+}
+
+export interface HistorySummary {
+    undo: Array<{ action: string; label: string; timestamp: number }>;
+    redo: Array<{ action: string; label: string; timestamp: number }>;
+    limit: number;
+}
+
+export class CommandHistory {
+    private undoStack: HistoryEntry[] = [];
+    private redoStack: HistoryEntry[] = [];
+    private group: HistoryEntry[] | null = null;
+    private limit: number;
+
+    constructor(limit = 100) {
+        this.limit = Math.max(1, limit);
+    }
+
+    /**
+     * Record a mutation that has already been applied
+     */
+    push(entry: Omit<HistoryEntry, 'timestamp'>): void {
+        if (this.group) {
+            this.group.push({ ...entry, timestamp: Date.now() });
+            return;
+        }
+
+        this.undoStack.push({ ...entry, timestamp: Date.now() });
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.splice(0, this.undoStack.length - this.limit);
+        }
+        this.redoStack = [];
+    }
+
+    undo(): HistoryEntry | null {
+        const entry = this.undoStack.pop();
+        if (!entry) return null;
+
+        entry.undo();
+        this.redoStack.push(entry);
+        return entry;
+    }
+
+    redo(): HistoryEntry | null {
+        const entry = this.redoStack.pop();
+        if (!entry) return null;
+
+        entry.redo();
+        this.undoStack.push(entry);
+        return entry;
+    }
+
+    /**
+     * Collect subsequent pushes into one entry until commitGroup/rollbackGroup
+     */
+    beginGroup(): void {
+        if (this.group) throw new Error('A history group is already open');
+        this.group = [];
+    }
+
+    /**
+     * Close the open group and record it as a single undoable entry
+     */
+    commitGroup(action: string, label: string): void {
+        const entries = this.group ?? [];
+        this.group = null;
+        if (entries.length === 0) return;
+
+        this.push({
+            action,
+            label,
+            undo: () => [...entries].reverse().forEach((entry) => entry.undo()),
+            redo: () => entries.forEach((entry) => entry.redo()),
+        });
+    }
+
+    /**
+     * Close the open group and revert everything recorded in it
+     */
+    rollbackGroup(): number {
+        const entries = this.group ?? [];
+        this.group = null;
+        [...entries].reverse().forEach((entry) => entry.undo());
+        return entries.length;
+    }
+
+    hasOpenGroup(): boolean {
+        return this.group !== null;
+    }
+
+    /**
+     * Entries recorded in the open group so far
+     */
+    groupSize(): number {
+        return this.group?.length ?? 0;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Entries, most recent first
+     */
+    summary(): HistorySummary {
+        const describe = ({ action, label, timestamp }: HistoryEntry) => ({ action, label, timestamp });
+        return {
+            undo: [...this.undoStack].reverse().map(describe),
+            redo: [...this.redoStack].reverse().map(describe),
+            limit: this.limit,
+        };
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
@@ -17,6 +17,47 @@
  */
 
 import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import type { ColliderType, PhysicsAdapter, RigidBodyOptions, RigidBodyType, Vec3Tuple } from './PhysicsAdapter.js';
+import { CommandHistory } from './CommandHistory.js';
+import { createCameraPath, sampleCameraPath, type CameraPath, type CameraPathSpec } from './CameraPath.js';
+import { queryObjects } from './ObjectQuery.js';
+import {
+    ACTION_NAMES,
+    BRIDGE_PROTOCOL_VERSION,
+    PACKAGE_VERSION,
+    formatIssues,
+    validateCommand,
+    validateServerMessage,
+    type ActionName,
+    type AffectedObject,
+    type BridgeCommand,
+    type ClientMessage,
+    type CommandOf,
+    type SceneEvent,
+    type SceneNodeChanges,
+    type SceneNodeData,
+    type SceneSnapshot,
+    type SceneSnapshotMaterial,
+    type SceneSnapshotObject,
+    type SelectorCandidate,
+    type ServerMessage,
+    type SourceObjectState,
+    type SpawnRecord,
+} from '../src/protocol.js';
+
+export type {
+    AffectedObject,
+    SceneEvent,
+    SceneNodeChanges,
+    SceneNodeData,
+    SceneSnapshot,
+    SceneSnapshotMaterial,
+    SceneSnapshotObject,
+    SelectorCandidate,
+    SourceObjectState,
+    SpawnRecord,
+};
 
 export interface MCPBridgeOptions {
     /** WebSocket URL (default: ws://127.0.0.1:8083) */
@@ -27,22 +68,318 @@ export interface MCPBridgeOptions {
     reconnectDelay?: number;
     /** Max tree depth for scene state (default: 10) */
     maxDepth?: number;
+    /** Physics backend for the physics commands (default: none) */
+    physics?: PhysicsAdapter;
+    /** Push batched scene change events to the server every frame (default: true) */
+    trackChanges?: boolean;
+    /** Renderer used for screenshots (default: none) */
+    renderer?: THREE.WebGLRenderer;
+    /** Max undo entries kept (default: 100) */
+    historyLimit?: number;
+    /** Frame times kept for performance stats (default: 300) */
+    frameSampleSize?: number;
+    /** Camera the user is looking through (default: first camera in the scene) */
+    camera?: () => THREE.Camera | null | undefined;
+    /** Orbit-style controls whose target is the camera's look-at point, e.g. OrbitControls */
+    controls?: () => CameraControls | null | undefined;
+    /** Make a camera the one the user looks through; needed to switch projections (default: none) */
+    setCamera?: (camera: THREE.Camera) => void;
+    /** Name the server lists this app under, for targeting it among several (default: document title) */
+    name?: string;
+    /** Id of the canvas element, reported to the server (default: the renderer canvas id) */
+    canvasId?: string;
 }
 
-interface MCPCommand {
+/** The part of OrbitControls (and similar) the bridge reads and moves */
+export interface CameraControls {
+    target: THREE.Vector3;
+    /** Camera the controls move, repointed when the projection is switched */
+    object?: THREE.Camera;
+    update?: () => unknown;
+}
+
+export type CameraProjection = 'perspective' | 'orthographic';
+
+type PerspectiveLensProperty = 'fov' | 'near' | 'far' | 'zoom';
+
+type OrthographicLensProperty = 'near' | 'far' | 'zoom' | 'left' | 'right' | 'top' | 'bottom';
+
+export type LensProperty = PerspectiveLensProperty | OrthographicLensProperty;
+
+export type LensValues = Partial<Record<LensProperty, number>>;
+
+const PERSPECTIVE_LENS: PerspectiveLensProperty[] = ['fov', 'near', 'far', 'zoom'];
+
+const ORTHOGRAPHIC_LENS: OrthographicLensProperty[] = ['near', 'far', 'zoom', 'left', 'right', 'top', 'bottom'];
+
+// Lens properties each projection has
+const LENS_PROPERTIES: Record<CameraProjection, LensProperty[]> = {
+    perspective: PERSPECTIVE_LENS,
+    orthographic: ORTHOGRAPHIC_LENS,
+};
+
+type BatchStepStatus = 'applied' | 'failed' | 'rolledBack' | 'skipped';
+
+/** Result of a command that changes objects, listing where it left them */
+interface ObjectsResult {
+    success: boolean;
+    objects?: AffectedObject[];
+    error?: string;
+}
+
+/** Result of a command that creates an object */
+interface CreatedResult extends ObjectsResult {
+    id?: string;
+    uuid?: string;
+}
+
+interface BatchStepResult {
+    index: number;
     action: string;
-    requestId?: string;
-    [key: string]: unknown;
+    status: BatchStepStatus;
+    result?: unknown;
+    error?: string;
+}
+
+// Actions that cannot run inside a batch: async, history-changing, nested, or
+// changes that record no history and so could not be rolled back
+const NON_BATCHABLE_ACTIONS = new Set<string>([
+    'batch',
+    'undo',
+    'redo',
+    'loadAsset',
+    'captureScreenshot',
+    'restoreSceneSnapshot',
+    'setCameraPosition',
+    'frameObjects',
+    'setCameraProjection',
+    'playCameraPath',
+    'stopCameraPath',
+    'startRotation',
+    'stopRotation',
+    'applyImpulse',
+    'setGravity',
+]);
+
+// Mutating actions that apply to every object matched by `command.selector`
+const MULTI_TARGET_ACTIONS = new Set<ActionName>([
+    'moveObject',
+    'moveSceneObject',
+    'setRotation',
+    'setScale',
+    'setVisibility',
+    'lookAt',
+    'setOpacity',
+    'removeObject',
+    'applyMaterial',
+    'makePhysical',
+    'removePhysics',
+    'applyImpulse',
+]);
+
+// Announced to the server so it can tell which tools this build supports;
+// executeCommand handles every action of the protocol
+const SUPPORTED_ACTIONS = ACTION_NAMES;
+
+/** What the server answered to this client's hello */
+export interface ServerInfo {
+    protocolVersion: number;
+    version: string;
+    /** Id the server lists this client under */
+    clientId: string;
+    compatible: boolean;
+}
+
+/**
+ * Identifies one object. uuid is stable; path is name-or-type segments as
+ * reported by scene queries; a bare string is a name, falling back to a path.
+ */
+export type ObjectSelector = string | ObjectSelectorFields;
+
+export interface ObjectSelectorFields {
+    uuid?: string;
+    path?: string;
+    name?: string;
+}
+
+/**
+ * Thrown when a name or path selector matches more than one object
+ */
+export class AmbiguousSelectorError extends Error {
+    readonly candidates: SelectorCandidate[];
+
+    constructor(selector: string, candidates: SelectorCandidate[]) {
+        const list = candidates.map((candidate) => `${candidate.path} (${candidate.uuid})`).join(', ');
+        super(`Ambiguous selector "${selector}" matches ${candidates.length} objects, use a uuid: ${list}`);
+        this.name = 'AmbiguousSelectorError';
+        this.candidates = candidates;
+    }
 }
 
 interface SceneObjectData {
     name: string;
+    uuid: string;
     path: string;
     type: string;
     position: string;
     children: number;
 }
 
+export interface SnapshotRestoreResult {
+    success: boolean;
+    restored: number;
+    /** Paths of spawned objects that were recreated */
+    created: string[];
+    /** Paths of spawned objects that did not exist in the snapshot */
+    removed: string[];
+    /** Paths that could not be found or recreated */
+    missing: string[];
+    error?: string;
+}
+
+// Material classes a snapshot can recreate
+const SNAPSHOT_MATERIAL_TYPES: Record<string, MaterialType> = {
+    MeshStandardMaterial: 'standard',
+    MeshPhysicalMaterial: 'physical',
+    MeshBasicMaterial: 'basic',
+    MeshToonMaterial: 'toon',
+};
+
+export interface PerformanceStats {
+    /** Frame times over the sampled window, null before two update() calls */
+    frames: { samples: number; avgMs: number; p95Ms: number; maxMs: number; fps: number } | null;
+    /** Last rendered frame, null without `renderer` in MCPBridgeOptions */
+    renderer: {
+        calls: number;
+        triangles: number;
+        points: number;
+        lines: number;
+        geometries: number;
+        textures: number;
+        programs: number;
+    } | null;
+    /** Chromium only */
+    memory: { usedJSHeapSize: number; totalJSHeapSize: number; jsHeapSizeLimit: number } | null;
+    scene: { objects: number; meshes: number; triangles: number };
+    heaviestMeshes: Array<{ name: string; path: string; uuid: string; type: string; triangles: number }>;
+}
+
+export interface ObjectInspection {
+    uuid: string;
+    name: string;
+    type: string;
+    path: string;
+    parent: string | null;
+    visible: boolean;
+    /** Layer bit mask */
+    layers: number;
+    renderOrder: number;
+    castShadow: boolean;
+    receiveShadow: boolean;
+    children: number;
+    local: TransformData;
+    world: TransformData;
+    bounds: {
+        box: { min: number[]; max: number[]; size: number[]; center: number[] } | null;
+        sphere: { center: number[]; radius: number } | null;
+    };
+    geometry?: GeometryInspection;
+    materials?: MaterialInspection[];
+    userData: unknown;
+}
+
+export interface SpatialObjectData {
+    name: string;
+    path: string;
+    uuid: string;
+    type: string;
+    /** World-space bounds of the object's own geometry (a point for objects without geometry) */
+    bounds: { min: number[]; max: number[] };
+    /** Distance to the query point, nearestObjects only */
+    distance?: number;
+}
+
+export interface RaycastHit {
+    name: string;
+    path: string;
+    uuid: string;
+    type: string;
+    distance: number;
+    point: number[];
+    /** World-space face normal, when the hit has a face */
+    normal?: number[];
+    faceIndex?: number;
+}
+
+interface TransformData {
+    position: number[];
+    rotation: number[];
+    quaternion: number[];
+    scale: number[];
+}
+
+interface GeometryInspection {
+    uuid: string;
+    type: string;
+    vertexCount: number;
+    indexed: boolean;
+    indexCount: number | null;
+    attributes: Array<{ name: string; itemSize: number; count: number; normalized: boolean }>;
+    morphTargets: { count: number; attributes: string[]; relative: boolean };
+    groups: number;
+}
+
+interface MaterialInspection {
+    uuid: string;
+    name: string;
+    type: string;
+    color?: string;
+    emissive?: string;
+    opacity: number;
+    transparent: boolean;
+    side: 'FrontSide' | 'BackSide' | 'DoubleSide';
+    visible: boolean;
+    wireframe?: boolean;
+    metalness?: number;
+    roughness?: number;
+    maps: Record<string, { uuid: string; name: string; width?: number; height?: number }>;
+}
+
+interface CameraPathPlayback {
+    id: string;
+    path: CameraPath;
+    startTime: number;
+    progress: number;
+    lastReport: number;
+}
+
+// Camera path progress is pushed to the server at most this often (ms)
+const CAMERA_PATH_PROGRESS_INTERVAL = 250;
+
+export interface FrameResult {
+    /** Number of selected objects */
+    objects: number;
+    center: number[];
+    radius: number;
+    position: number[];
+    distance: number;
+}
+
+// Directions the camera can frame from, pointing from the target towards the camera
+const FRAME_DIRECTIONS: Record<string, [number, number, number]> = {
+    front: [0, 0, 1],
+    back: [0, 0, -1],
+    left: [-1, 0, 0],
+    right: [1, 0, 0],
+    // Slightly off vertical so lookAt keeps a usable up vector
+    top: [0, 1, 0.001],
+    bottom: [0, -1, 0.001],
+    iso: [1, 1, 1],
+};
+
+// Points and flat objects are framed as if they were at least this big
+const MIN_FRAME_RADIUS = 0.5;
+
 interface CameraTween {
     startTime: number;
     duration: number;
@@ -50,23 +387,97 @@ interface CameraTween {
     to: THREE.Vector3;
     fromLookAt?: THREE.Vector3;
     toLookAt?: THREE.Vector3;
-    fromFov?: number;
-    toFov?: number;
-    fromNear?: number;
-    toNear?: number;
-    fromFar?: number;
-    toFar?: number;
+    fromLens?: LensValues;
+    toLens?: LensValues;
+}
+
+type MaterialType = 'standard' | 'physical' | 'basic' | 'toon';
+
+interface MaterialPreset {
+    type: MaterialType;
+    params: Record<string, unknown>;
+}
+
+const MATERIAL_PRESETS: Record<string, MaterialPreset> = {
+    cyberpunk: {
+        type: 'standard',
+        params: { color: '#ff2bd6', emissive: '#00f0ff', emissiveIntensity: 0.6, metalness: 0.8, roughness: 0.2 },
+    },
+    gold: {
+        type: 'physical',
+        params: { color: '#ffd700', metalness: 1, roughness: 0.25, clearcoat: 0.3 },
+    },
+    glass: {
+        type: 'physical',
+        params: { color: '#ffffff', metalness: 0, roughness: 0, transmission: 1, thickness: 0.5, ior: 1.5, transparent: true },
+    },
+    cartoon: {
+        type: 'toon',
+        params: { color: '#ff8c42' },
+    },
+};
+
+interface EnvironmentPreset {
+    background: string;
+    sky: string;
+    ground: string;
+    intensity: number;
 }
 
+const ENVIRONMENT_PRESETS: Record<string, EnvironmentPreset> = {
+    sunset: { background: '#f4a261', sky: '#ffb47a', ground: '#5a3b5c', intensity: 1.1 },
+    dawn: { background: '#f6d7c3', sky: '#ffe3cc', ground: '#6b7a99', intensity: 0.9 },
+    night: { background: '#0b1026', sky: '#27335c', ground: '#05060d', intensity: 0.35 },
+    warehouse: { background: '#3a3a3a', sky: '#d9d4c7', ground: '#4a4036', intensity: 1.0 },
+    forest: { background: '#7fa37a', sky: '#cfe8c0', ground: '#2f3d22', intensity: 0.9 },
+    apartment: { background: '#d8cfc4', sky: '#fff4e6', ground: '#8c7b6b', intensity: 1.0 },
+    studio: { background: '#e5e5e5', sky: '#ffffff', ground: '#9a9a9a', intensity: 1.2 },
+    city: { background: '#9fb4c7', sky: '#dfe8f0', ground: '#4d4d55', intensity: 1.0 },
+    park: { background: '#a8d8f0', sky: '#e6f6ff', ground: '#5b7d3a', intensity: 1.1 },
+    lobby: { background: '#c9b79c', sky: '#fff1dc', ground: '#6e5a44', intensity: 1.0 },
+};
+
+interface VibePreset {
+    background: string;
+    fog: { color: string; near: number; far: number } | null;
+    sky: string;
+    ground: string;
+    intensity: number;
+}
+
+const VIBE_PRESETS: Record<string, VibePreset> = {
+    cozy: { background: '#3b2a22', fog: { color: '#3b2a22', near: 10, far: 60 }, sky: '#ffcf99', ground: '#5c3a21', intensity: 0.9 },
+    spooky: { background: '#0d0f14', fog: { color: '#1a1f26', near: 2, far: 30 }, sky: '#5a6b7a', ground: '#0a0a0a', intensity: 0.4 },
+    neon: { background: '#07000f', fog: { color: '#1a0033', near: 10, far: 80 }, sky: '#ff00e6', ground: '#00e5ff', intensity: 1.2 },
+    retro: { background: '#2b1b3d', fog: { color: '#ff6f91', near: 20, far: 120 }, sky: '#ff9671', ground: '#845ec2', intensity: 1.0 },
+    minimal: { background: '#f5f5f5', fog: null, sky: '#ffffff', ground: '#d0d0d0', intensity: 1.0 },
+    chaos: { background: '#000000', fog: null, sky: '#ffffff', ground: '#000000', intensity: 1.0 },
+};
+
+const ENVIRONMENT_LIGHT_NAME = 'mcp_environment_light';
+
 export class MCPBridge {
     private ws: WebSocket | null = null;
     private scene: THREE.Scene;
     private reconnectTimeout: number | null = null;
-    private options: Required<MCPBridgeOptions>;
+    private options: Required<Omit<MCPBridgeOptions, 'physics' | 'renderer' | 'camera' | 'controls' | 'setCamera'>>;
+    private physics: PhysicsAdapter | null;
+    private renderer: THREE.WebGLRenderer | null;
+    private lastUpdateTime: number | null = null;
+    private frameTimes: number[] = [];
+    private trackedNodes: Map<string, SceneNodeData> | null = null;
+    private history: CommandHistory;
     private rotatingObjects: Map<string, { speed: number }> = new Map();
     private objects: Map<string, THREE.Object3D> = new Map();
     private cameraTween: CameraTween | null = null;
+    private cameraPlayback: CameraPathPlayback | null = null;
     private cameraLookAt: THREE.Vector3 | null = null;
+    private cameraSource: (() => THREE.Camera | null | undefined) | null;
+    private controlsSource: (() => CameraControls | null | undefined) | null;
+    private cameraSetter: ((camera: THREE.Camera) => void) | null;
+    private serverInfo: ServerInfo | null = null;
+    /** Cameras by projection, so switching back reuses the original camera */
+    private projectionCameras: Partial<Record<CameraProjection, THREE.Camera>> = {};
 
     constructor(scene: THREE.Scene, options: MCPBridgeOptions = {}) {
         this.scene = scene;
@@ -82,7 +493,18 @@ export class MCPBridge {
             autoConnect: options.autoConnect ?? (isDev || envEnabled || localStorageEnabled),
             reconnectDelay: options.reconnectDelay ?? 60000,
             maxDepth: options.maxDepth ?? 10,
+            trackChanges: options.trackChanges ?? true,
+            historyLimit: options.historyLimit ?? 100,
+            frameSampleSize: Math.max(1, options.frameSampleSize ?? 300),
+            name: options.name ?? (typeof document !== 'undefined' ? document.title : ''),
+            canvasId: options.canvasId ?? options.renderer?.domElement.id ?? '',
         };
+        this.history = new CommandHistory(this.options.historyLimit);
+        this.physics = options.physics ?? null;
+        this.renderer = options.renderer ?? null;
+        this.cameraSource = options.camera ?? null;
+        this.controlsSource = options.controls ?? null;
+        this.cameraSetter = options.setCamera ?? null;
 
         if (this.options.autoConnect) {
             console.log('[MCPBridge] 🔌 Auto-connecting to MCP server...');
@@ -104,13 +526,37 @@ export class MCPBridge {
 
             this.ws.onopen = () => {
                 console.log('[MCPBridge] ✅ Connected to MCP server');
-                this.sendSceneState();
+                this.sendEvent({
+                    type: 'hello',
+                    protocolVersion: BRIDGE_PROTOCOL_VERSION,
+                    version: PACKAGE_VERSION,
+                    name: this.options.name,
+                    url: typeof location !== 'undefined' ? location.href : undefined,
+                    canvasId: this.options.canvasId || undefined,
+                    actions: SUPPORTED_ACTIONS,
+                    modules: {
+                        physics: this.physics !== null,
+                        renderer: this.renderer !== null,
+                        environment: true,
+                    },
+                });
+                this.sendSceneSnapshot();
             };
 
             this.ws.onmessage = (event) => {
                 try {
-                    const command: MCPCommand = JSON.parse(event.data);
-                    this.handleCommand(command);
+                    const message = JSON.parse(event.data);
+                    // Commands may have a `type` of their own (e.g. addPrimitive), other server messages never an action
+                    if (typeof message === 'object' && message !== null && 'type' in message && !('action' in message)) {
+                        const checked = validateServerMessage(message);
+                        if (checked.ok) {
+                            this.handleWelcome(checked.value);
+                        } else {
+                            console.warn(`[MCPBridge] Ignoring invalid ${String(message.type)} message: ${formatIssues(checked.issues)}`);
+                        }
+                        return;
+                    }
+                    void this.handleCommand(message);
                 } catch (error) {
                     console.error('[MCPBridge] Failed to parse command:', error);
                 }
@@ -122,6 +568,8 @@ export class MCPBridge {
 
             this.ws.onclose = (event) => {
                 console.warn(`[MCPBridge] Disconnected (Code: ${event.code})`);
+                this.trackedNodes = null;
+                this.serverInfo = null;
                 this.scheduleReconnect();
             };
         } catch (error) {
@@ -147,6 +595,21 @@ export class MCPBridge {
      * Update loop - call this in your render/animation loop
      */
     update(): void {
+        const frameTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
+        const elapsed = this.lastUpdateTime === null ? null : frameTime - this.lastUpdateTime;
+        // Clamp the step so a backgrounded tab does not explode the simulation
+        const delta = elapsed === null ? 1 / 60 : Math.min(elapsed / 1000, 1 / 30);
+        this.lastUpdateTime = frameTime;
+
+        if (elapsed !== null) {
+            this.frameTimes.push(elapsed);
+            if (this.frameTimes.length > this.options.frameSampleSize) this.frameTimes.shift();
+        }
+
+        if (this.physics && delta > 0) {
+            this.physics.step(delta);
+        }
+
         // Handle rotating objects
         for (const [id, data] of this.rotatingObjects) {
             const obj = this.objects.get(id) || this.scene.getObjectByName(id);
@@ -155,53 +618,15 @@ export class MCPBridge {
             }
         }
 
-        if (this.cameraTween) {
-            const camera = this.getActiveCamera();
-            if (!camera) {
-                this.cameraTween = null;
-                return;
-            }
-
-            const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
-            const duration = Math.max(0, this.cameraTween.duration);
-            const t = duration === 0 ? 1 : Math.min(1, (now - this.cameraTween.startTime) / duration);
-
-            camera.position.lerpVectors(this.cameraTween.from, this.cameraTween.to, t);
-
-            if (this.cameraTween.toLookAt) {
-                const fromLookAt = this.cameraTween.fromLookAt ?? this.cameraTween.toLookAt;
-                const currentLookAt = new THREE.Vector3().lerpVectors(fromLookAt, this.cameraTween.toLookAt, t);
-                camera.lookAt(currentLookAt);
-                this.cameraLookAt = currentLookAt;
-            }
-
-            const isPerspective = (camera as THREE.PerspectiveCamera).isPerspectiveCamera;
-            if (isPerspective) {
-                const perspective = camera as THREE.PerspectiveCamera;
-                let lensChanged = false;
-
-                if (typeof this.cameraTween.fromFov === 'number' && typeof this.cameraTween.toFov === 'number') {
-                    perspective.fov = lerpNumber(this.cameraTween.fromFov, this.cameraTween.toFov, t);
-                    lensChanged = true;
-                }
-                if (typeof this.cameraTween.fromNear === 'number' && typeof this.cameraTween.toNear === 'number') {
-                    perspective.near = lerpNumber(this.cameraTween.fromNear, this.cameraTween.toNear, t);
-                    lensChanged = true;
-                }
-                if (typeof this.cameraTween.fromFar === 'number' && typeof this.cameraTween.toFar === 'number') {
-                    perspective.far = lerpNumber(this.cameraTween.fromFar, this.cameraTween.toFar, t);
-                    lensChanged = true;
-                }
-
-                if (lensChanged) {
-                    perspective.updateProjectionMatrix();
-                }
-            }
+        if (this.cameraPlayback) {
+            this.advanceCameraPath(frameTime);
+        }
 
-            if (t >= 1) {
-                this.cameraTween = null;
-            }
+        if (this.cameraTween) {
+            this.advanceCameraTween(this.cameraTween, frameTime);
         }
+
+        this.flushSceneEvents();
     }
 
     /**
@@ -211,10 +636,29 @@ export class MCPBridge {
         return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
     }
 
+    /**
+     * The server's answer to the handshake, null until it arrives
+     */
+    getServerInfo(): ServerInfo | null {
+        return this.serverInfo;
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // PRIVATE METHODS
     // ═══════════════════════════════════════════════════════════════════════════
 
+    private handleWelcome(welcome: ServerMessage): void {
+        const { type, ...info } = welcome;
+        this.serverInfo = info;
+
+        if (!this.serverInfo.compatible) {
+            console.warn(
+                `[MCPBridge] Server speaks bridge protocol ${this.serverInfo.protocolVersion} (threlte-mcp ${this.serverInfo.version}), ` +
+                `this client ${BRIDGE_PROTOCOL_VERSION} (${PACKAGE_VERSION}); update threlte-mcp on both sides`
+            );
+        }
+    }
+
     private scheduleReconnect(): void {
         if (this.reconnectTimeout !== null) {
             clearTimeout(this.reconnectTimeout);
@@ -224,11 +668,98 @@ export class MCPBridge {
         }, this.options.reconnectDelay);
     }
 
-    private sendSceneState(): void {
-        if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-            const state = this.getSceneState();
-            this.ws.send(JSON.stringify({ data: state }));
+    /**
+     * Start change tracking from the whole scene graph, which the server's mirror is built from
+     */
+    private sendSceneSnapshot(): void {
+        if (this.isConnected() && this.options.trackChanges) {
+            this.trackedNodes = this.collectSceneNodes();
+            this.sendEvent({ type: 'sceneSnapshot', objects: [...this.trackedNodes.values()] });
+        }
+    }
+
+    /**
+     * Push an unsolicited message (not a command response) to the server
+     */
+    private sendEvent(message: ClientMessage): void {
+        if (this.isConnected()) {
+            this.ws!.send(JSON.stringify(message));
+        }
+    }
+
+    /**
+     * Diff the scene against the last frame and push the changes as one batch
+     */
+    private flushSceneEvents(): void {
+        if (!this.options.trackChanges || !this.trackedNodes || !this.isConnected()) return;
+
+        const previous = this.trackedNodes;
+        const current = this.collectSceneNodes();
+        const events: SceneEvent[] = [];
+
+        // A re-parented object is only added again, the server moves its descendants along with it
+        for (const [uuid, node] of current) {
+            const before = previous.get(uuid);
+            if (!before || before.parent !== node.parent) {
+                const obj = this.scene.getObjectByProperty('uuid', uuid);
+                const index = obj?.parent ? obj.parent.children.indexOf(obj) : -1;
+                events.push({ type: 'objectAdded', object: node, index });
+                continue;
+            }
+
+            const changes = diffSceneNode(before, node);
+            if (changes) {
+                events.push({ type: 'objectUpdated', uuid, changes });
+            }
+        }
+
+        // Removals last, so objects moved out of a removed parent are already gone from it
+        for (const uuid of previous.keys()) {
+            if (!current.has(uuid)) {
+                events.push({ type: 'objectRemoved', uuid });
+            }
         }
+
+        this.trackedNodes = current;
+        if (events.length > 0) {
+            this.sendEvent({ type: 'sceneEvents', events });
+        }
+    }
+
+    private collectSceneNodes(): Map<string, SceneNodeData> {
+        const nodes = new Map<string, SceneNodeData>();
+
+        this.scene.traverse((obj) => {
+            if (obj === this.scene) return;
+            nodes.set(obj.uuid, {
+                uuid: obj.uuid,
+                name: obj.name,
+                type: obj.type,
+                parent: obj.parent && obj.parent !== this.scene ? obj.parent.uuid : null,
+                position: obj.position.toArray(),
+                rotation: [obj.rotation.x, obj.rotation.y, obj.rotation.z],
+                scale: obj.scale.toArray(),
+                visible: obj.visible,
+            });
+        });
+
+        return nodes;
+    }
+
+    /**
+     * Where a command left an object, for the `objects` of its response
+     */
+    private describeAffected(obj: THREE.Object3D): AffectedObject {
+        return {
+            uuid: obj.uuid,
+            name: obj.name,
+            type: obj.type,
+            path: this.getObjectPath(obj),
+            position: obj.position.toArray(),
+            rotation: [obj.rotation.x, obj.rotation.y, obj.rotation.z],
+            scale: obj.scale.toArray(),
+            visible: obj.visible,
+        };
     }
 
     private sendResponse(requestId: string | undefined, data: unknown): void {
@@ -238,96 +769,252 @@ export class MCPBridge {
         }
     }
 
-    private handleCommand(command: MCPCommand): void {
-        const { action, requestId } = command;
-        let result: unknown;
+    private async handleCommand(message: unknown): Promise<void> {
+        const requestId = typeof message === 'object' && message !== null && 'requestId' in message && typeof message.requestId === 'string'
+            ? message.requestId
+            : undefined;
+        const checked = validateCommand(message);
+        if (!checked.ok) {
+            const action = (message as { action?: unknown } | null)?.action;
+            this.sendResponse(requestId, {
+                success: false,
+                error: `Invalid ${typeof action === 'string' ? `${action} ` : ''}command: ${formatIssues(checked.issues)}`,
+                issues: checked.issues,
+            });
+            return;
+        }
 
+        let result: unknown;
         try {
-            switch (action) {
-                // Scene Inspection
-                case 'getFullSceneState':
-                    result = { success: true, data: this.getSceneState(command.maxDepth as number) };
-                    break;
-
-                case 'findObjects':
-                    result = { success: true, data: this.findObjects(command as any) };
-                    break;
-
-                // Object Manipulation
-                case 'moveObject':
-                case 'moveSceneObject':
-                    result = this.moveObject(command.name as string || command.path as string, command.position as number[]);
-                    break;
-
-                case 'setRotation':
-                    result = this.setTransform(command.name as string, 'rotation', command.rotation as number[]);
-                    break;
-
-                case 'setScale':
-                    result = this.setTransform(command.name as string, 'scale', command.scale as number[]);
-                    break;
-
-                case 'setVisibility':
-                    result = this.setVisibility(command.name as string, command.visible as boolean);
-                    break;
-
-                case 'lookAt':
-                    result = this.lookAt(command.name as string, command.target as number[]);
-                    break;
-
-                case 'setOpacity':
-                    result = this.setOpacity(command.name as string, command.opacity as number);
-                    break;
-
-                // Camera
-                case 'getCameraState':
-                    result = { success: true, data: this.getCameraState() };
-                    break;
-
-                case 'setCameraPosition':
-                    result = this.setCameraPosition(command);
-                    break;
-
-                // Object Lifecycle
-                case 'addObject':
-                case 'addPrimitive':
-                    result = this.addPrimitive(command as any);
-                    break;
-
-                case 'removeObject':
-                    result = this.removeObject(command.name as string || command.id as string);
-                    break;
-
-                case 'duplicateObject':
-                    result = this.duplicateObject(command.name as string, command.newName as string, command.offset as number[]);
-                    break;
-
-                // Animation
-                case 'startRotation':
-                    this.rotatingObjects.set(command.id as string, { speed: (command.speed as number) || 1 });
-                    result = { success: true };
-                    break;
-
-                case 'stopRotation':
-                    this.rotatingObjects.delete(command.id as string);
-                    result = { success: true };
-                    break;
-
-                // Lights
-                case 'addLight':
-                    result = this.addLight(command as any);
-                    break;
-
-                default:
-                    result = { success: false, error: `Unknown action: ${action}` };
-            }
+            result = await this.executeCommand(checked.value);
         } catch (error) {
-            result = { success: false, error: (error as Error).message };
+            result = errorResult(error);
         }
 
         this.sendResponse(requestId, result);
     }
 
+    private async executeCommand(command: BridgeCommand): Promise<unknown> {
+        let result: unknown;
+
+        if ('selector' in command && typeof command.selector === 'string' && MULTI_TARGET_ACTIONS.has(command.action)) {
+            return this.runForEach(command, command.selector);
+        }
+
+        switch (command.action) {
+            // Scene Inspection
+            case 'getFullSceneState':
+                result = { success: true, data: this.getSceneState(command.maxDepth) };
+                break;
+
+            case 'findObjects':
+                result = {
+                    success: true,
+                    data: this.findObjects({ name: command.name, selector: command.selector, ...command.filter }),
+                };
+                break;
+
+            case 'inspectObject':
+                result = this.inspectObject(selectorOf(command));
+                break;
+
+            case 'logPositions':
+                result = { success: true, data: this.logPositions(command.filter) };
+                break;
+
+            // Spatial Queries
+            case 'raycast':
+                result = this.raycast(command);
+                break;
+
+            case 'queryRegion':
+                result = this.queryRegion(command);
+                break;
+
+            case 'nearestObjects':
+                result = this.nearestObjects(command);
+                break;
+
+            // Object Manipulation
+            case 'moveObject':
+            case 'moveSceneObject':
+                result = this.moveObject(selectorOf(command), command.position);
+                break;
+
+            case 'setRotation':
+                result = this.setTransform(selectorOf(command), 'rotation', command.rotation);
+                break;
+
+            case 'setScale':
+                result = this.setTransform(selectorOf(command), 'scale', command.scale);
+                break;
+
+            case 'setVisibility':
+                result = this.setVisibility(selectorOf(command), command.visible);
+                break;
+
+            case 'lookAt':
+                result = this.lookAt(selectorOf(command), command.target);
+                break;
+
+            case 'setOpacity':
+                result = this.setOpacity(selectorOf(command), command.opacity);
+                break;
+
+            // Camera
+            case 'getCameraState':
+                result = { success: true, data: this.getCameraState() };
+                break;
+
+            case 'setCameraPosition':
+                result = this.setCameraPosition(command);
+                break;
+
+            case 'frameObjects':
+                result = this.frameObjects(command);
+                break;
+
+            case 'setCameraProjection':
+                result = this.setCameraProjection(command.projection);
+                break;
+
+            case 'playCameraPath':
+                // createCameraPath rejects unknown easings
+                result = this.playCameraPath(command.id, command.cameraPath as CameraPathSpec);
+                break;
+
+            case 'stopCameraPath':
+                result = this.stopCameraPath();
+                break;
+
+            case 'getCameraPathStatus':
+                result = {
+                    success: true,
+                    data: this.cameraPlayback
+                        ? { playing: true, id: this.cameraPlayback.id, progress: this.cameraPlayback.progress, duration: this.cameraPlayback.path.duration }
+                        : { playing: false },
+                };
+                break;
+
+            // Object Lifecycle
+            case 'addObject':
+            case 'addPrimitive':
+                result = this.addPrimitive(command);
+                break;
+
+            case 'removeObject':
+                result = this.removeObject(selectorOf({ ...command, name: command.name ?? command.id }));
+                break;
+
+            case 'duplicateObject':
+                result = this.duplicateObject(selectorOf(command), command.newName, command.offset);
+                break;
+
+            case 'renameObject':
+                result = this.renameObject(selectorOf(command), command.newName);
+                break;
+
+            case 'batch':
+                // Each step was validated as a command of its own
+                result = await this.runBatch(command.steps as BridgeCommand[]);
+                break;
+
+            // History
+            case 'undo':
+                result = this.undo(command.count);
+                break;
+
+            case 'redo':
+                result = this.redo(command.count);
+                break;
+
+            case 'getHistory':
+                result = { success: true, data: this.history.summary() };
+                break;
+
+            // Animation
+            case 'startRotation':
+                this.rotatingObjects.set(command.id, { speed: command.speed || 1 });
+                result = { success: true };
+                break;
+
+            case 'stopRotation':
+                this.rotatingObjects.delete(command.id);
+                result = { success: true };
+                break;
+
+            // Lights
+            case 'addLight':
+                result = this.addLight(command);
+                break;
+
+            // Materials & Assets
+            case 'loadAsset':
+                result = await this.loadAsset(command);
+                break;
+
+            case 'applyMaterial':
+                result = this.applyMaterial(command);
+                break;
+
+            case 'setEnvironment':
+                result = this.setEnvironment(command);
+                break;
+
+            case 'captureScreenshot':
+                result = this.captureScreenshot(command);
+                break;
+
+            // Atmosphere
+            case 'applyVibe':
+                result = this.applyVibe(command.vibe);
+                break;
+
+            // Physics
+            case 'makePhysical':
+                result = this.makePhysical(command);
+                break;
+
+            case 'removePhysics':
+                result = this.removePhysics(selectorOf(command));
+                break;
+
+            case 'applyImpulse':
+                result = this.applyImpulse(selectorOf(command), command.vector);
+                break;
+
+            case 'setGravity':
+                result = this.setGravity(command.vector);
+                break;
+
+            // Snapshots
+            case 'getSceneSnapshot':
+                result = { success: true, data: this.getSceneSnapshot() };
+                break;
+
+            case 'restoreSceneSnapshot':
+                result = this.restoreSceneSnapshot(command.snapshot);
+                break;
+
+            case 'getSourceState':
+                result = { success: true, data: this.getSourceState(command.selector) };
+                break;
+
+            // Performance
+            case 'getPerformanceStats':
+                result = { success: true, data: this.getPerformanceStats(command.frames, command.top) };
+                break;
+
+            default: {
+                // Unreachable once validated; fails to compile when an action is not handled
+                const unhandled: never = command;
+                result = { success: false, error: `Unknown action: ${(unhandled as { action: string }).action}` };
+            }
+        }
+
+        return result;
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // SCENE INSPECTION
     // ═══════════════════════════════════════════════════════════════════════════
@@ -342,19 +1029,20 @@ export class MCPBridge {
             const pos = obj.position;
             result.push({
                 name: obj.name || `[${obj.type}]`,
+                uuid: obj.uuid,
                 path: path,
                 type: obj.type,
                 position: `[${pos.x.toFixed(2)}, ${pos.y.toFixed(2)}, ${pos.z.toFixed(2)}]`,
                 children: obj.children.length,
             });
 
-            obj.children.forEach((child, i) => {
-                traverse(child, currentDepth + 1, `${path}/${child.name || i}`);
+            obj.children.forEach((child) => {
+                traverse(child, currentDepth + 1, `${path}/${child.name || child.type}`);
             });
         };
 
-        this.scene.children.forEach((child, i) => {
-            traverse(child, 0, child.name || String(i));
+        this.scene.children.forEach((child) => {
+            traverse(child, 0, child.name || child.type);
         });
 
         // Log to console as table
@@ -362,20 +1050,24 @@ export class MCPBridge {
         return result;
     }
 
-    findObjects(filter: { name?: string; nameContains?: string; type?: string }): SceneObjectData[] {
+    findObjects(filter: { name?: string; nameContains?: string; type?: string; hasUserData?: string; selector?: string }): SceneObjectData[] {
         const results: SceneObjectData[] = [];
+        if (!filter.name && !filter.nameContains && !filter.type && !filter.hasUserData && !filter.selector) return results;
 
-        this.scene.traverse((obj) => {
+        const candidates = filter.selector ? queryObjects(this.scene, filter.selector) : this.collectObjects();
+        candidates.forEach((obj) => {
             let match = true;
 
             if (filter.name && obj.name !== filter.name) match = false;
             if (filter.nameContains && !obj.name.includes(filter.nameContains)) match = false;
             if (filter.type && obj.type !== filter.type) match = false;
+            if (filter.hasUserData && !(filter.hasUserData in obj.userData)) match = false;
 
-            if (match && (filter.name || filter.nameContains || filter.type)) {
+            if (match) {
                 const pos = obj.position;
                 results.push({
                     name: obj.name || `[${obj.type}]`,
+                    uuid: obj.uuid,
                     path: this.getObjectPath(obj),
                     type: obj.type,
                     position: `[${pos.x.toFixed(2)}, ${pos.y.toFixed(2)}, ${pos.z.toFixed(2)}]`,
@@ -387,76 +1079,364 @@ export class MCPBridge {
         return results;
     }
 
-    private getObjectPath(obj: THREE.Object3D): string {
-        const parts: string[] = [];
-        let current: THREE.Object3D | null = obj;
-        while (current && current !== this.scene) {
-            parts.unshift(current.name || current.type);
-            current = current.parent;
+    inspectObject(target: ObjectSelector): { success: boolean; data?: ObjectInspection; error?: string } {
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
+
+        obj.updateWorldMatrix(true, false);
+        const worldPosition = new THREE.Vector3();
+        const worldQuaternion = new THREE.Quaternion();
+        const worldScale = new THREE.Vector3();
+        obj.matrixWorld.decompose(worldPosition, worldQuaternion, worldScale);
+        const worldRotation = new THREE.Euler().setFromQuaternion(worldQuaternion, obj.rotation.order);
+
+        const box = new THREE.Box3().setFromObject(obj);
+        const sphere = box.isEmpty() ? null : box.getBoundingSphere(new THREE.Sphere());
+
+        const data: ObjectInspection = {
+            uuid: obj.uuid,
+            name: obj.name,
+            type: obj.type,
+            path: this.getObjectPath(obj),
+            parent: obj.parent && obj.parent !== this.scene ? (obj.parent.name || obj.parent.uuid) : null,
+            visible: obj.visible,
+            layers: obj.layers.mask,
+            renderOrder: obj.renderOrder,
+            castShadow: obj.castShadow,
+            receiveShadow: obj.receiveShadow,
+            children: obj.children.length,
+            local: {
+                position: obj.position.toArray(),
+                rotation: [obj.rotation.x, obj.rotation.y, obj.rotation.z],
+                quaternion: obj.quaternion.toArray(),
+                scale: obj.scale.toArray(),
+            },
+            world: {
+                position: worldPosition.toArray(),
+                rotation: [worldRotation.x, worldRotation.y, worldRotation.z],
+                quaternion: worldQuaternion.toArray(),
+                scale: worldScale.toArray(),
+            },
+            bounds: {
+                box: box.isEmpty() ? null : {
+                    min: box.min.toArray(),
+                    max: box.max.toArray(),
+                    size: box.getSize(new THREE.Vector3()).toArray(),
+                    center: box.getCenter(new THREE.Vector3()).toArray(),
+                },
+                sphere: sphere ? { center: sphere.center.toArray(), radius: sphere.radius } : null,
+            },
+            userData: toSerializable(obj.userData),
+        };
+
+        const withGeometry = obj as THREE.Mesh;
+        if (withGeometry.geometry?.isBufferGeometry) {
+            data.geometry = inspectGeometry(withGeometry.geometry);
         }
-        return parts.join('/');
+        if (withGeometry.material) {
+            const materials = Array.isArray(withGeometry.material) ? withGeometry.material : [withGeometry.material];
+            data.materials = materials.map(inspectMaterial);
+        }
+
+        return { success: true, data };
     }
 
+    logPositions(filter: { nameContains?: string } = {}): Array<{ name: string; uuid: string; path: string; position: number[] }> {
+        const results: Array<{ name: string; uuid: string; path: string; position: number[] }> = [];
+
+        this.scene.traverse((obj) => {
+            if (obj === this.scene || !obj.name) return;
+            if (filter.nameContains && !obj.name.includes(filter.nameContains)) return;
+
+            results.push({
+                name: obj.name,
+                uuid: obj.uuid,
+                path: this.getObjectPath(obj),
+                position: [obj.position.x, obj.position.y, obj.position.z],
+            });
+        });
+
+        results.forEach((entry) => {
+            const [x, y, z] = entry.position.map((value) => Number(value.toFixed(3)));
+            console.log(`${entry.name}: position={[${x}, ${y}, ${z}]}`);
+        });
+        return results;
+    }
+
+    private collectObjects(): THREE.Object3D[] {
+        const objects: THREE.Object3D[] = [];
+        this.scene.traverse((obj) => {
+            if (obj !== this.scene) objects.push(obj);
+        });
+        return objects;
+    }
+
+    private getObjectPath(obj: THREE.Object3D): string {
+        const parts: string[] = [];
+        let current: THREE.Object3D | null = obj;
+        while (current && current !== this.scene) {
+            parts.unshift(current.name || current.type);
+            current = current.parent;
+        }
+        return parts.join('/');
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // SPATIAL QUERIES
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    private raycast(cmd: {
+        origin?: number[];
+        direction?: number[];
+        ndc?: number[];
+        far?: number;
+        limit?: number;
+        includeHidden?: boolean;
+    }): { success: boolean; data?: RaycastHit[]; error?: string } {
+        const raycaster = new THREE.Raycaster();
+        const camera = this.getActiveCamera();
+        this.scene.updateMatrixWorld();
+
+        if (cmd.ndc) {
+            if (!camera) return { success: false, error: 'No camera found in scene' };
+            raycaster.setFromCamera(new THREE.Vector2(cmd.ndc[0], cmd.ndc[1]), camera);
+        } else if (cmd.origin && cmd.direction) {
+            const direction = new THREE.Vector3().fromArray(cmd.direction);
+            if (direction.lengthSq() === 0) return { success: false, error: 'Ray direction must not be zero' };
+            raycaster.set(new THREE.Vector3().fromArray(cmd.origin), direction.normalize());
+            // Sprites need a camera to raycast against
+            if (camera) raycaster.camera = camera;
+        } else {
+            return { success: false, error: 'Provide either ndc or origin and direction' };
+        }
+        if (typeof cmd.far === 'number') raycaster.far = cmd.far;
+
+        const hits = raycaster.intersectObjects(this.scene.children, true)
+            .filter((hit) => cmd.includeHidden || isVisibleInScene(hit.object))
+            .slice(0, cmd.limit ?? 10);
+
+        return {
+            success: true,
+            data: hits.map((hit) => ({
+                name: hit.object.name || `[${hit.object.type}]`,
+                path: this.getObjectPath(hit.object),
+                uuid: hit.object.uuid,
+                type: hit.object.type,
+                distance: hit.distance,
+                point: hit.point.toArray(),
+                normal: hit.face ? hit.face.normal.clone().transformDirection(hit.object.matrixWorld).toArray() : undefined,
+                faceIndex: hit.faceIndex ?? undefined,
+            })),
+        };
+    }
+
+    private queryRegion(cmd: {
+        box?: { min: number[]; max: number[] };
+        sphere?: { center: number[]; radius: number };
+        mode?: 'intersects' | 'contains';
+        includeHidden?: boolean;
+    }): { success: boolean; data?: SpatialObjectData[]; error?: string } {
+        let test: (bounds: THREE.Box3) => boolean;
+        const contains = cmd.mode === 'contains';
+
+        if (cmd.box) {
+            const region = new THREE.Box3(new THREE.Vector3().fromArray(cmd.box.min), new THREE.Vector3().fromArray(cmd.box.max));
+            test = (bounds) => contains ? region.containsBox(bounds) : region.intersectsBox(bounds);
+        } else if (cmd.sphere) {
+            const region = new THREE.Sphere(new THREE.Vector3().fromArray(cmd.sphere.center), cmd.sphere.radius);
+            test = (bounds) => contains ? sphereContainsBox(region, bounds) : region.intersectsBox(bounds);
+        } else {
+            return { success: false, error: 'Provide either box or sphere' };
+        }
+
+        const results: SpatialObjectData[] = [];
+        this.forEachSpatialCandidate(cmd.includeHidden ?? false, (obj, bounds) => {
+            if (test(bounds)) results.push(this.describeSpatialObject(obj, bounds));
+        });
+        return { success: true, data: results };
+    }
+
+    private nearestObjects(cmd: {
+        point: number[];
+        count?: number;
+        maxDistance?: number;
+        type?: string;
+        includeHidden?: boolean;
+    }): { success: boolean; data?: SpatialObjectData[]; error?: string } {
+        if (!cmd.point) return { success: false, error: 'Point is required' };
+
+        const point = new THREE.Vector3().fromArray(cmd.point);
+        const maxDistance = cmd.maxDistance ?? Infinity;
+        const results: SpatialObjectData[] = [];
+
+        this.forEachSpatialCandidate(cmd.includeHidden ?? false, (obj, bounds) => {
+            if (cmd.type && obj.type !== cmd.type) return;
+            const distance = bounds.distanceToPoint(point);
+            if (distance > maxDistance) return;
+            results.push({ ...this.describeSpatialObject(obj, bounds), distance });
+        });
+
+        results.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0));
+        return { success: true, data: results.slice(0, cmd.count ?? 5) };
+    }
+
+    /**
+     * Visit every object below the scene with its own world-space bounds
+     */
+    private forEachSpatialCandidate(includeHidden: boolean, visit: (obj: THREE.Object3D, bounds: THREE.Box3) => void): void {
+        this.scene.updateMatrixWorld();
+        const walk = (obj: THREE.Object3D) => {
+            if (obj === this.scene) return;
+            visit(obj, getOwnWorldBounds(obj));
+        };
+
+        if (includeHidden) {
+            this.scene.traverse(walk);
+        } else {
+            this.scene.traverseVisible(walk);
+        }
+    }
+
+    private describeSpatialObject(obj: THREE.Object3D, bounds: THREE.Box3): SpatialObjectData {
+        return {
+            name: obj.name || `[${obj.type}]`,
+            path: this.getObjectPath(obj),
+            uuid: obj.uuid,
+            type: obj.type,
+            bounds: { min: bounds.min.toArray(), max: bounds.max.toArray() },
+        };
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // OBJECT MANIPULATION
     // ═══════════════════════════════════════════════════════════════════════════
-    // OBJECT MANIPULATION
-    // ═══════════════════════════════════════════════════════════════════════════
 
-    private findObject(nameOrPath: string): THREE.Object3D | null {
-        // Try direct name lookup first
-        const direct = this.objects.get(nameOrPath) ?? this.scene.getObjectByName(nameOrPath);
-        if (direct) return direct;
+    /**
+     * Resolve a selector to exactly one object. uuid wins over path, path over name;
+     * a bare string is a name, falling back to a path. Throws AmbiguousSelectorError
+     * when a name or path matches more than one object.
+     */
+    private findObject(target: ObjectSelector): THREE.Object3D | null {
+        const selector = typeof target === 'string' ? { name: target } : target;
+
+        if (selector.uuid) {
+            const obj = this.scene.getObjectByProperty('uuid', selector.uuid);
+            return obj && obj !== this.scene ? obj : null;
+        }
+
+        if (selector.path) {
+            return this.pickOne(selector.path, this.findByPath(selector.path));
+        }
+
+        if (selector.name) {
+            const matches: THREE.Object3D[] = [];
+            this.scene.traverse((obj) => {
+                if (obj !== this.scene && obj.name === selector.name) matches.push(obj);
+            });
+            if (matches.length > 0) return this.pickOne(selector.name, matches);
+
+            // Bare names may also be slash paths
+            return this.pickOne(selector.name, this.findByPath(selector.name));
+        }
+
+        return null;
+    }
+
+    /**
+     * All objects at a slash path, where each segment matches a name or a type
+     */
+    private findByPath(path: string): THREE.Object3D[] {
+        let current: THREE.Object3D[] = [this.scene];
+        for (const part of path.split('/')) {
+            current = current.flatMap((obj) => obj.children.filter((node) => node.name === part || node.type === part));
+            if (current.length === 0) break;
+        }
+        return current.filter((obj) => obj !== this.scene);
+    }
 
-        // Try path-based lookup
-        const parts = nameOrPath.split('/');
-        let current: THREE.Object3D = this.scene;
-        for (const part of parts) {
-            const child = current.children.find((node) => node.name === part || node.type === part);
-            if (!child) return null;
-            current = child;
+    private pickOne(selector: string, matches: THREE.Object3D[]): THREE.Object3D | null {
+        if (matches.length > 1) {
+            throw new AmbiguousSelectorError(selector, matches.map((obj) => ({
+                uuid: obj.uuid,
+                name: obj.name,
+                type: obj.type,
+                path: this.getObjectPath(obj),
+            })));
         }
-        return current === this.scene ? null : current;
+        return matches[0] ?? null;
     }
 
-    private moveObject(nameOrPath: string, position: number[]): { success: boolean; error?: string } {
-        const obj = this.findObject(nameOrPath);
-        if (!obj) return { success: false, error: `Object not found: ${nameOrPath}` };
+    private moveObject(target: ObjectSelector, position: number[]): ObjectsResult {
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
 
+        const undo = this.snapshotPose(obj);
         obj.position.set(position[0], position[1], position[2]);
-        return { success: true };
+        this.syncPhysics(obj);
+        this.record('moveObject', `move "${describeSelector(target)}"`, undo, this.snapshotPose(obj));
+        return { success: true, objects: [this.describeAffected(obj)] };
     }
 
-    private setTransform(name: string, prop: 'rotation' | 'scale', values: number[]): { success: boolean; error?: string } {
-        const obj = this.findObject(name);
-        if (!obj) return { success: false, error: `Object not found: ${name}` };
+    private setTransform(target: ObjectSelector, prop: 'rotation' | 'scale', values: number[]): ObjectsResult {
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
 
+        const undo = this.snapshotPose(obj);
         if (prop === 'rotation') {
             obj.rotation.set(values[0], values[1], values[2]);
         } else {
             obj.scale.set(values[0], values[1], values[2]);
         }
-        return { success: true };
+        this.syncPhysics(obj);
+        this.record(prop === 'rotation' ? 'setRotation' : 'setScale', `set ${prop} of "${describeSelector(target)}"`, undo, this.snapshotPose(obj));
+        return { success: true, objects: [this.describeAffected(obj)] };
+    }
+
+    /**
+     * Physics bodies of `obj` and its descendants follow a direct transform
+     * edit; otherwise the next step would put dynamic bodies' objects back
+     */
+    private syncPhysics(obj: THREE.Object3D): void {
+        const physics = this.physics;
+        if (!physics) return;
+        obj.traverse((child) => { physics.syncBody(child); });
+    }
+
+    /** snapshotTransform that also moves physics bodies when restoring */
+    private snapshotPose(obj: THREE.Object3D): () => void {
+        const restore = snapshotTransform(obj);
+        return () => {
+            restore();
+            this.syncPhysics(obj);
+        };
     }
 
-    private setVisibility(name: string, visible: boolean): { success: boolean; error?: string } {
-        const obj = this.findObject(name);
-        if (!obj) return { success: false, error: `Object not found: ${name}` };
+    private setVisibility(target: ObjectSelector, visible: boolean): ObjectsResult {
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
 
+        const wasVisible = obj.visible;
         obj.visible = visible;
-        return { success: true };
+        this.record('setVisibility', `${visible ? 'show' : 'hide'} "${describeSelector(target)}"`, () => { obj.visible = wasVisible; }, () => { obj.visible = visible; });
+        return { success: true, objects: [this.describeAffected(obj)] };
     }
 
-    private lookAt(name: string, target: number[]): { success: boolean; error?: string } {
-        const obj = this.findObject(name);
-        if (!obj) return { success: false, error: `Object not found: ${name}` };
+    private lookAt(target: ObjectSelector, point: number[]): ObjectsResult {
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
 
-        obj.lookAt(target[0], target[1], target[2]);
-        return { success: true };
+        const undo = this.snapshotPose(obj);
+        obj.lookAt(point[0], point[1], point[2]);
+        this.syncPhysics(obj);
+        this.record('lookAt', `point "${describeSelector(target)}" at [${point.join(', ')}]`, undo, this.snapshotPose(obj));
+        return { success: true, objects: [this.describeAffected(obj)] };
     }
 
-    private setOpacity(name: string, opacity: number): { success: boolean; error?: string } {
-        const obj = this.findObject(name);
-        if (!obj) return { success: false, error: `Object not found: ${name}` };
+    private setOpacity(target: ObjectSelector, opacity: number): ObjectsResult {
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
 
+        const undo = snapshotMaterials(obj);
         obj.traverse((child) => {
             if ((child as THREE.Mesh).material) {
                 const mat = (child as THREE.Mesh).material as THREE.Material;
@@ -464,7 +1444,8 @@ export class MCPBridge {
                 mat.opacity = opacity;
             }
         });
-        return { success: true };
+        this.record('setOpacity', `set opacity of "${describeSelector(target)}" to ${opacity}`, undo, snapshotMaterials(obj));
+        return { success: true, objects: [this.describeAffected(obj)] };
     }
 
     // ═══════════════════════════════════════════════════════════════════════════
@@ -472,12 +1453,17 @@ export class MCPBridge {
     // ═══════════════════════════════════════════════════════════════════════════
 
     private getActiveCamera(): THREE.Camera | null {
-        return this.scene.getObjectByProperty('isCamera', true) as THREE.Camera | null;
+        return this.cameraSource?.() ?? (this.scene.getObjectByProperty('isCamera', true) as THREE.Camera | undefined) ?? null;
+    }
+
+    private getControls(): CameraControls | null {
+        return this.controlsSource?.() ?? null;
     }
 
     private getCameraLookAt(camera: THREE.Camera): THREE.Vector3 {
-        if (this.cameraLookAt) {
-            return this.cameraLookAt.clone();
+        const controls = this.getControls();
+        if (controls) {
+            return controls.target.clone();
         }
 
         const direction = new THREE.Vector3(0, 0, -1);
@@ -485,33 +1471,61 @@ export class MCPBridge {
             camera.getWorldDirection(direction);
         }
 
+        // The last look-at point set by the bridge, unless the camera has since been turned by hand
+        if (this.cameraLookAt) {
+            const toLookAt = this.cameraLookAt.clone().sub(camera.position);
+            const distance = toLookAt.length();
+            if (distance > 0 && toLookAt.normalize().dot(direction) > 0.9999) {
+                return this.cameraLookAt.clone();
+            }
+            if (distance > 0) {
+                return camera.position.clone().addScaledVector(direction, distance);
+            }
+        }
+
         return camera.position.clone().add(direction);
     }
 
+    /**
+     * Move the controls' target along with the camera, or they would turn it straight back
+     */
+    private syncControlsTarget(lookAt: THREE.Vector3): void {
+        const controls = this.getControls();
+        if (!controls) return;
+        controls.target.copy(lookAt);
+        controls.update?.();
+    }
+
     private getCameraState(): object {
         const camera = this.getActiveCamera();
         if (!camera) return { error: 'No camera found' };
 
         const lookAt = this.getCameraLookAt(camera);
         const state: Record<string, unknown> = {
+            name: camera.name || camera.type,
             position: [camera.position.x, camera.position.y, camera.position.z],
             rotation: [camera.rotation.x, camera.rotation.y, camera.rotation.z],
             lookAt: [lookAt.x, lookAt.y, lookAt.z],
         };
 
-        if ((camera as THREE.PerspectiveCamera).isPerspectiveCamera) {
-            const perspective = camera as THREE.PerspectiveCamera;
-            state.fov = perspective.fov;
-            state.near = perspective.near;
-            state.far = perspective.far;
+        const controls = this.getControls();
+        if (controls) {
+            state.target = controls.target.toArray();
+        }
+
+        const projection = getProjection(camera);
+        if (projection) {
+            state.projection = projection;
+            Object.assign(state, readLens(camera));
         }
 
         return state;
     }
 
-    private setCameraPosition(command: MCPCommand): { success: boolean; error?: string } {
+    private setCameraPosition(command: CommandOf<'setCameraPosition'>): { success: boolean; error?: string } {
         const camera = this.getActiveCamera();
         if (!camera) return { success: false, error: 'No camera found' };
+        this.stopCameraPath();
 
         const position = command.position as number[] | undefined;
         if (!position || position.length !== 3) {
@@ -528,13 +1542,14 @@ export class MCPBridge {
             ? Math.max(0, command.duration)
             : 0;
 
-        const isPerspective = (camera as THREE.PerspectiveCamera).isPerspectiveCamera;
-        const perspective = camera as THREE.PerspectiveCamera;
-        const wantsLens = isPerspective && (
-            typeof command.fov === 'number' ||
-            typeof command.near === 'number' ||
-            typeof command.far === 'number'
-        );
+        // Lens values this camera has; the rest (e.g. fov on an orthographic camera) are ignored
+        const lens: LensValues = {};
+        const projection = getProjection(camera);
+        for (const key of projection ? LENS_PROPERTIES[projection] : []) {
+            const value = command[key];
+            if (typeof value === 'number' && Number.isFinite(value)) lens[key] = value;
+        }
+        const wantsLens = Object.keys(lens).length > 0;
 
         if (animate && duration > 0) {
             const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
@@ -551,12 +1566,8 @@ export class MCPBridge {
             }
 
             if (wantsLens) {
-                tween.fromFov = perspective.fov;
-                tween.fromNear = perspective.near;
-                tween.fromFar = perspective.far;
-                tween.toFov = typeof command.fov === 'number' ? command.fov : perspective.fov;
-                tween.toNear = typeof command.near === 'number' ? command.near : perspective.near;
-                tween.toFar = typeof command.far === 'number' ? command.far : perspective.far;
+                tween.fromLens = readLens(camera);
+                tween.toLens = lens;
             }
 
             this.cameraTween = tween;
@@ -569,29 +1580,377 @@ export class MCPBridge {
         if (targetLookAt) {
             camera.lookAt(targetLookAt);
             this.cameraLookAt = targetLookAt;
+            this.syncControlsTarget(targetLookAt);
         }
 
         if (wantsLens) {
-            if (typeof command.fov === 'number') {
-                perspective.fov = command.fov;
-            }
-            if (typeof command.near === 'number') {
-                perspective.near = command.near;
-            }
-            if (typeof command.far === 'number') {
-                perspective.far = command.far;
+            applyLens(camera, lens);
+        }
+
+        return { success: true };
+    }
+
+    /**
+     * Swap the active camera for one with the other projection, keeping the
+     * position, look-at point and the visible size at the look-at point
+     */
+    private setCameraProjection(projection: CameraProjection): { success: boolean; data?: object; error?: string } {
+        if (projection !== 'perspective' && projection !== 'orthographic') {
+            return { success: false, error: 'Projection must be "perspective" or "orthographic"' };
+        }
+
+        const camera = this.getActiveCamera();
+        if (!camera) return { success: false, error: 'No camera found' };
+
+        const current = getProjection(camera);
+        if (!current) return { success: false, error: `Unsupported camera type: ${camera.type}` };
+        if (current === projection) return { success: true, data: this.getCameraState() };
+        if (!this.cameraSetter) {
+            return { success: false, error: 'Switching cameras needs `setCamera` in MCPBridgeOptions (the MCPBridge component passes it)' };
+        }
+
+        this.stopCameraPath();
+        this.cameraTween = null;
+        this.projectionCameras[current] = camera;
+
+        const lookAt = this.getCameraLookAt(camera);
+        const offset = camera.position.clone().sub(lookAt);
+        const distance = Math.max(offset.length(), 1e-3);
+        let next: THREE.Camera;
+
+        if (projection === 'orthographic') {
+            const perspective = camera as THREE.PerspectiveCamera;
+            const ortho = (this.projectionCameras.orthographic as THREE.OrthographicCamera | undefined) ?? this.createOrthographicCamera(perspective);
+            const visibleHeight = 2 * distance * Math.tan(THREE.MathUtils.degToRad(perspective.fov) / 2) / perspective.zoom;
+
+            ortho.position.copy(camera.position);
+            ortho.zoom = (ortho.top - ortho.bottom) / visibleHeight;
+            ortho.near = perspective.near;
+            ortho.far = perspective.far;
+            next = ortho;
+        } else {
+            const ortho = camera as THREE.OrthographicCamera;
+            const perspective = (this.projectionCameras.perspective as THREE.PerspectiveCamera | undefined) ??
+                new THREE.PerspectiveCamera(50, (ortho.right - ortho.left) / (ortho.top - ortho.bottom), Math.max(ortho.near, 0.01), ortho.far);
+            const visibleHeight = (ortho.top - ortho.bottom) / ortho.zoom;
+            const fitDistance = visibleHeight * perspective.zoom / 2 / Math.tan(THREE.MathUtils.degToRad(perspective.fov) / 2);
+
+            // The same view needs the perspective camera at a specific distance
+            perspective.position.copy(lookAt).addScaledVector(offset.normalize(), fitDistance);
+            perspective.far = Math.max(perspective.far, fitDistance * 2);
+            next = perspective;
+        }
+
+        next.up.copy(camera.up);
+        next.lookAt(lookAt);
+        (next as THREE.PerspectiveCamera | THREE.OrthographicCamera).updateProjectionMatrix();
+        this.cameraLookAt = lookAt;
+
+        const controls = this.getControls();
+        if (controls?.object) controls.object = next;
+        this.syncControlsTarget(lookAt);
+        this.cameraSetter(next);
+
+        return { success: true, data: { ...this.getCameraState(), previous: current } };
+    }
+
+    /**
+     * Orthographic camera sized like Threlte sizes its own: frustum bounds in
+     * pixels of the canvas, zoom for the scale
+     */
+    private createOrthographicCamera(from: THREE.PerspectiveCamera): THREE.OrthographicCamera {
+        const size = this.renderer?.getSize(new THREE.Vector2()) ?? new THREE.Vector2(2 * from.aspect, 2);
+        const camera = new THREE.OrthographicCamera(-size.x / 2, size.x / 2, size.y / 2, -size.y / 2);
+        camera.name = from.name ? `${from.name}Orthographic` : 'OrthographicCamera';
+        return camera;
+    }
+
+    /**
+     * Move the camera so the selected objects (or the whole scene) fill the view,
+     * looking at their combined bounds from `command.direction`
+     */
+    private frameObjects(command: CommandOf<'frameObjects'>): { success: boolean; data?: FrameResult; error?: string } {
+        const camera = this.getActiveCamera();
+        if (!camera) return { success: false, error: 'No camera found' };
+
+        let targets: THREE.Object3D[];
+        const selector = command.selector;
+        const target = selectorOf(command);
+        if (selector) {
+            targets = queryObjects(this.scene, selector);
+            if (targets.length === 0) return { success: false, error: `No objects match selector: ${selector}` };
+        } else if (target.uuid || target.path || target.name) {
+            const obj = this.findObject(target);
+            if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
+            targets = [obj];
+        } else {
+            targets = [this.scene];
+        }
+
+        const padding = typeof command.padding === 'number' && Number.isFinite(command.padding)
+            ? Math.max(0, command.padding)
+            : 0.1;
+
+        this.scene.updateMatrixWorld();
+        const bounds = getFramingBounds(targets);
+        if (bounds.isEmpty()) return { success: false, error: 'Nothing visible to frame' };
+
+        const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+        const radius = Math.max(sphere.radius, MIN_FRAME_RADIUS) * (1 + padding);
+
+        const direction = this.getFrameDirection(camera, command.direction);
+        if (!direction) {
+            return { success: false, error: `Invalid direction, use [x, y, z] or one of: ${Object.keys(FRAME_DIRECTIONS).join(', ')}, current` };
+        }
+
+        // Fit the bounding sphere inside the narrower of the two fields of view;
+        // orthographic cameras keep their distance and zoom instead
+        const perspective = camera as THREE.PerspectiveCamera;
+        const ortho = camera as THREE.OrthographicCamera;
+        let distance = radius * 2;
+        let zoom: number | undefined;
+        if (perspective.isPerspectiveCamera) {
+            const vertical = THREE.MathUtils.degToRad(perspective.fov);
+            const horizontal = 2 * Math.atan(Math.tan(vertical / 2) * perspective.aspect);
+            distance = radius / Math.sin(Math.min(vertical, horizontal) / 2);
+        } else if (ortho.isOrthographicCamera) {
+            zoom = Math.min(ortho.right - ortho.left, ortho.top - ortho.bottom) / (2 * radius);
+        }
+        const far = distance + radius > perspective.far ? (distance + radius) * 1.1 : undefined;
+
+        const position = sphere.center.clone().addScaledVector(direction, distance);
+        const moved = this.setCameraPosition({
+            action: 'setCameraPosition',
+            position: position.toArray(),
+            lookAt: sphere.center.toArray(),
+            far,
+            zoom,
+            animate: command.animate,
+            duration: command.duration,
+        });
+        if (!moved.success) return moved;
+
+        return {
+            success: true,
+            data: {
+                objects: targets.length,
+                center: sphere.center.toArray(),
+                radius: sphere.radius,
+                position: position.toArray(),
+                distance,
+            },
+        };
+    }
+
+    /**
+     * Unit vector from the framed center towards the camera
+     */
+    private getFrameDirection(camera: THREE.Camera, direction: unknown): THREE.Vector3 | null {
+        if (direction === undefined || direction === 'current') {
+            const current = camera.position.clone().sub(this.getCameraLookAt(camera));
+            return current.lengthSq() > 0 ? current.normalize() : new THREE.Vector3(...FRAME_DIRECTIONS.front).normalize();
+        }
+        if (typeof direction === 'string') {
+            const preset = FRAME_DIRECTIONS[direction];
+            return preset ? new THREE.Vector3(...preset).normalize() : null;
+        }
+        if (Array.isArray(direction) && direction.length === 3 && direction.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+            const vector = new THREE.Vector3(direction[0], direction[1], direction[2]);
+            return vector.lengthSq() > 0 ? vector.normalize() : null;
+        }
+        return null;
+    }
+
+    /**
+     * Start flying the camera along a path; progress is pushed as cameraPathProgress events
+     */
+    private playCameraPath(id: string | undefined, spec: CameraPathSpec): { success: boolean; id?: string; duration?: number; length?: number; error?: string } {
+        if (!this.getActiveCamera()) return { success: false, error: 'No camera found' };
+
+        const path = createCameraPath(spec);
+        this.stopCameraPath();
+        this.cameraTween = null;
+
+        const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
+        const playbackId = id ?? `path_${Date.now()}`;
+        this.cameraPlayback = { id: playbackId, path, startTime: now, progress: 0, lastReport: now };
+        this.advanceCameraPath(now);
+
+        return { success: true, id: playbackId, duration: path.duration, length: path.position.getLength() };
+    }
+
+    private stopCameraPath(): { success: boolean; stopped?: string } {
+        const playback = this.cameraPlayback;
+        if (!playback) return { success: true };
+
+        this.finishCameraPath('stopped');
+        return { success: true, stopped: playback.id };
+    }
+
+    private advanceCameraTween(tween: CameraTween, now: number): void {
+        const camera = this.getActiveCamera();
+        if (!camera) {
+            this.cameraTween = null;
+            return;
+        }
+
+        const duration = Math.max(0, tween.duration);
+        const t = duration === 0 ? 1 : Math.min(1, (now - tween.startTime) / duration);
+
+        camera.position.lerpVectors(tween.from, tween.to, t);
+
+        if (tween.toLookAt) {
+            const fromLookAt = tween.fromLookAt ?? tween.toLookAt;
+            const currentLookAt = new THREE.Vector3().lerpVectors(fromLookAt, tween.toLookAt, t);
+            camera.lookAt(currentLookAt);
+            this.cameraLookAt = currentLookAt;
+            this.syncControlsTarget(currentLookAt);
+        }
+
+        const { fromLens, toLens } = tween;
+        if (fromLens && toLens) {
+            const lens: LensValues = {};
+            for (const key of Object.keys(toLens) as LensProperty[]) {
+                lens[key] = lerpNumber(fromLens[key] ?? toLens[key]!, toLens[key]!, t);
             }
+            applyLens(camera, lens);
+        }
+
+        if (t >= 1) {
+            this.cameraTween = null;
+        }
+    }
+
+    private advanceCameraPath(now: number): void {
+        const playback = this.cameraPlayback!;
+        const camera = this.getActiveCamera();
+        if (!camera) {
+            this.finishCameraPath('stopped');
+            return;
+        }
+
+        const { duration } = playback.path;
+        playback.progress = duration === 0 ? 1 : Math.min(1, (now - playback.startTime) / duration);
+        const sample = sampleCameraPath(playback.path, playback.progress);
+
+        camera.position.copy(sample.position);
+        camera.lookAt(sample.lookAt);
+        this.cameraLookAt = sample.lookAt;
+        this.syncControlsTarget(sample.lookAt);
+
+        const perspective = camera as THREE.PerspectiveCamera;
+        if (sample.fov !== undefined && perspective.isPerspectiveCamera) {
+            perspective.fov = sample.fov;
             perspective.updateProjectionMatrix();
         }
 
-        return { success: true };
+        if (playback.progress >= 1) {
+            this.finishCameraPath('completed');
+        } else if (now - playback.lastReport >= CAMERA_PATH_PROGRESS_INTERVAL) {
+            playback.lastReport = now;
+            this.sendEvent({ type: 'cameraPathProgress', id: playback.id, progress: playback.progress, state: 'playing' });
+        }
+    }
+
+    private finishCameraPath(state: 'completed' | 'stopped'): void {
+        const playback = this.cameraPlayback;
+        if (!playback) return;
+
+        this.cameraPlayback = null;
+        this.sendEvent({ type: 'cameraPathProgress', id: playback.id, progress: playback.progress, state });
+    }
+
+    private captureScreenshot(cmd: {
+        format?: string;
+        quality?: number;
+        width?: number;
+        height?: number;
+        camera?: { position: number[]; lookAt?: number[] } & LensValues;
+        highlight?: string[];
+        highlightColor?: string;
+    }): { success: boolean; dataUrl?: string; width?: number; height?: number; mimeType?: string; error?: string } {
+        const renderer = this.renderer;
+        if (!renderer) return { success: false, error: 'No renderer configured. Pass `renderer` in MCPBridgeOptions.' };
+
+        const camera = this.getActiveCamera();
+        if (!camera) return { success: false, error: 'No camera found' };
+
+        const highlightTargets: THREE.Object3D[] = [];
+        for (const name of cmd.highlight ?? []) {
+            const obj = this.findObject(name);
+            if (!obj) return { success: false, error: `Object not found: ${name}` };
+            highlightTargets.push(obj);
+        }
+
+        const mimeType = cmd.format === 'jpeg' ? 'image/jpeg' : 'image/png';
+        const perspective = camera as THREE.PerspectiveCamera;
+        const isPerspective = perspective.isPerspectiveCamera === true;
+        const ortho = camera as THREE.OrthographicCamera;
+
+        // Everything below is temporary and restored after the frame is read back
+        const originalSize = renderer.getSize(new THREE.Vector2());
+        const originalPixelRatio = renderer.getPixelRatio();
+        const originalPosition = camera.position.clone();
+        const originalQuaternion = camera.quaternion.clone();
+        const originalLens = readLens(camera);
+        const originalAspect = perspective.aspect;
+        const helpers = highlightTargets.map((obj) => {
+            const helper = new THREE.BoxHelper(obj, cmd.highlightColor || '#ffcc00');
+            this.scene.add(helper);
+            return helper;
+        });
+
+        try {
+            const width = Math.round(cmd.width ?? originalSize.x * originalPixelRatio);
+            const height = Math.round(cmd.height ?? originalSize.y * originalPixelRatio);
+            const resized = width !== originalSize.x * originalPixelRatio || height !== originalSize.y * originalPixelRatio;
+            if (resized) {
+                renderer.setPixelRatio(1);
+                renderer.setSize(width, height, false);
+            }
+
+            if (cmd.camera) {
+                const { position, lookAt, ...lens } = cmd.camera;
+                camera.position.set(position[0], position[1], position[2]);
+                if (lookAt) camera.lookAt(lookAt[0], lookAt[1], lookAt[2]);
+                applyLens(camera, lens);
+            }
+            if (isPerspective) {
+                perspective.aspect = width / height;
+                perspective.updateProjectionMatrix();
+            } else if (ortho.isOrthographicCamera) {
+                // Keep the vertical extent and widen or narrow to the capture's aspect
+                const centerX = (ortho.left + ortho.right) / 2;
+                const halfWidth = (ortho.top - ortho.bottom) * width / height / 2;
+                applyLens(camera, { left: centerX - halfWidth, right: centerX + halfWidth });
+            }
+
+            renderer.render(this.scene, camera);
+            const dataUrl = renderer.domElement.toDataURL(mimeType, cmd.quality);
+
+            return { success: true, dataUrl, width, height, mimeType };
+        } finally {
+            helpers.forEach((helper) => {
+                helper.removeFromParent();
+                helper.dispose();
+            });
+            camera.position.copy(originalPosition);
+            camera.quaternion.copy(originalQuaternion);
+            if (isPerspective) perspective.aspect = originalAspect;
+            applyLens(camera, originalLens);
+            renderer.setPixelRatio(originalPixelRatio);
+            renderer.setSize(originalSize.x, originalSize.y, false);
+        }
     }
 
     // ═══════════════════════════════════════════════════════════════════════════
     // OBJECT CREATION
     // ═══════════════════════════════════════════════════════════════════════════
 
-    private addPrimitive(cmd: { type: string; name?: string; position?: number[]; color?: string; size?: number[] }): { success: boolean; id?: string; error?: string } {
+    private addPrimitive(cmd: { type: string; name?: string; position?: number[]; color?: string; size?: number[]; parent?: string }): CreatedResult {
+        const parent = cmd.parent ? this.findObject(cmd.parent) : this.scene;
+        if (!parent) return { success: false, error: `Parent not found: ${cmd.parent}` };
+
         let geometry: THREE.BufferGeometry;
         const size = cmd.size || [1, 1, 1];
 
@@ -619,31 +1978,38 @@ export class MCPBridge {
 
         const mesh = new THREE.Mesh(geometry, material);
         mesh.name = cmd.name || `mcp_${cmd.type}_${Date.now()}`;
+        mesh.userData.mcpSpawn = { action: 'addPrimitive', type: cmd.type.toLowerCase(), size: cmd.size, color: cmd.color } satisfies SpawnRecord;
 
         if (cmd.position) {
             mesh.position.set(cmd.position[0], cmd.position[1], cmd.position[2]);
         }
 
-        this.scene.add(mesh);
+        const undo = this.snapshotAttachment(mesh);
+        parent.add(mesh);
         this.objects.set(mesh.name, mesh);
+        this.record('addPrimitive', `add ${cmd.type} "${mesh.name}"`, undo, this.snapshotAttachment(mesh));
 
-        return { success: true, id: mesh.name };
+        return { success: true, id: mesh.name, uuid: mesh.uuid, objects: [this.describeAffected(mesh)] };
     }
 
-    private removeObject(name: string): { success: boolean; error?: string } {
-        const obj = this.findObject(name);
-        if (!obj) return { success: false, error: `Object not found: ${name}` };
+    private removeObject(target: ObjectSelector): ObjectsResult {
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
 
+        const removed = this.describeAffected(obj);
+        const undo = this.snapshotAttachment(obj);
+        this.removeBodies(obj);
         obj.removeFromParent();
-        this.objects.delete(name);
-        this.rotatingObjects.delete(name);
+        if (this.objects.get(obj.name) === obj) this.objects.delete(obj.name);
+        this.rotatingObjects.delete(obj.name);
+        this.record('removeObject', `remove "${describeSelector(target)}"`, undo, this.snapshotAttachment(obj));
 
-        return { success: true };
+        return { success: true, objects: [removed] };
     }
 
-    private duplicateObject(sourceName: string, newName: string, offset?: number[]): { success: boolean; id?: string; error?: string } {
-        const source = this.findObject(sourceName);
-        if (!source) return { success: false, error: `Source object not found: ${sourceName}` };
+    private duplicateObject(target: ObjectSelector, newName: string, offset?: number[]): CreatedResult {
+        const source = this.findObject(target);
+        if (!source) return { success: false, error: `Source object not found: ${describeSelector(target)}` };
 
         const clone = source.clone();
         clone.name = newName;
@@ -654,56 +2020,1066 @@ export class MCPBridge {
             clone.position.z += offset[2];
         }
 
+        const undo = this.snapshotAttachment(clone);
         (source.parent || this.scene).add(clone);
         this.objects.set(newName, clone);
+        this.record('duplicateObject', `duplicate "${describeSelector(target)}" as "${newName}"`, undo, this.snapshotAttachment(clone));
 
-        return { success: true, id: newName };
+        return { success: true, id: newName, uuid: clone.uuid, objects: [this.describeAffected(clone)] };
     }
 
-    // ═══════════════════════════════════════════════════════════════════════════
-    // LIGHTS
-    // ═══════════════════════════════════════════════════════════════════════════
+    private renameObject(target: ObjectSelector, newName: string): CreatedResult {
+        if (!newName) return { success: false, error: 'New name is required' };
 
-    private addLight(cmd: { type: string; name?: string; position?: number[]; color?: string; intensity?: number }): { success: boolean; id?: string; error?: string } {
-        let light: THREE.Light;
-        const color = cmd.color || '#ffffff';
-        const intensity = cmd.intensity ?? 1;
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
 
-        switch (cmd.type?.toLowerCase()) {
-            case 'point':
-                light = new THREE.PointLight(color, intensity);
-                break;
-            case 'directional':
-                light = new THREE.DirectionalLight(color, intensity);
-                break;
-            case 'spot':
-                light = new THREE.SpotLight(color, intensity);
-                break;
-            case 'ambient':
-                light = new THREE.AmbientLight(color, intensity);
-                break;
-            default:
-                return { success: false, error: `Unknown light type: ${cmd.type}` };
+        const oldName = obj.name;
+        this.setObjectName(obj, oldName, newName);
+        this.record('renameObject', `rename "${oldName}" to "${newName}"`,
+            () => this.setObjectName(obj, newName, oldName),
+            () => this.setObjectName(obj, oldName, newName));
+        return { success: true, id: newName, uuid: obj.uuid, objects: [this.describeAffected(obj)] };
+    }
+
+    private setObjectName(obj: THREE.Object3D, from: string, to: string): void {
+        if (this.objects.get(from) === obj) {
+            this.objects.delete(from);
+            this.objects.set(to, obj);
+        }
+        const rotation = this.rotatingObjects.get(from);
+        if (rotation) {
+            this.rotatingObjects.delete(from);
+            this.rotatingObjects.set(to, rotation);
         }
 
-        light.name = cmd.name || `mcp_${cmd.type}Light_${Date.now()}`;
+        obj.name = to;
+    }
 
-        if (cmd.position && 'position' in light) {
-            (light as THREE.PointLight).position.set(cmd.position[0], cmd.position[1], cmd.position[2]);
+    // ═══════════════════════════════════════════════════════════════════════════
+    // BATCH
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    /**
+     * Run a command once per object matching its selector, as one undo entry.
+     * Inside a batch the enclosing batch owns the history group and the rollback.
+     */
+    private async runForEach(command: BridgeCommand, selector: string): Promise<ObjectsResult & { matched: SelectorCandidate[] }> {
+        const targets = queryObjects(this.scene, selector);
+        const matched = targets.map((obj) => ({ uuid: obj.uuid, name: obj.name, type: obj.type, path: this.getObjectPath(obj) }));
+        if (targets.length === 0) {
+            return { success: false, matched, error: `Selector matched no objects: ${selector}` };
         }
 
-        this.scene.add(light);
-        this.objects.set(light.name, light);
+        const nested = this.history.hasOpenGroup();
+        if (!nested) this.history.beginGroup();
 
-        return { success: true, id: light.name };
-    }
-}
+        const objects: AffectedObject[] = [];
+        for (const [index, obj] of targets.entries()) {
+            let result: unknown;
+            try {
+                result = await this.executeCommand({ ...command, selector: undefined, uuid: obj.uuid, path: undefined, name: undefined, id: undefined } as BridgeCommand);
+            } catch (error) {
+                result = errorResult(error);
+            }
+
+            if (typeof result === 'object' && result !== null && (result as { success?: boolean }).success === false) {
+                if (!nested) this.history.rollbackGroup();
+                const error = (result as { error?: string }).error ?? 'failed';
+                return { success: false, matched, error: `${matched[index].path}: ${error}` };
+            }
+            objects.push(...((result as ObjectsResult).objects ?? []));
+        }
+
+        if (!nested) this.history.commitGroup(command.action, `${command.action} ${targets.length} objects matching "${selector}"`);
+        return { success: true, matched, objects };
+    }
+
+    /**
+     * Apply steps in order within the current frame; if one fails, revert the ones before it.
+     * Every batchable change records history, so only queries stay `applied`.
+     */
+    private async runBatch(steps: BridgeCommand[]): Promise<{ success: boolean; steps: BatchStepResult[]; error?: string }> {
+        if (!Array.isArray(steps) || steps.length === 0) {
+            return { success: false, steps: [], error: 'Batch requires at least one step' };
+        }
+
+        const invalid = steps.findIndex((step) => !step || typeof step.action !== 'string' || NON_BATCHABLE_ACTIONS.has(step.action));
+        if (invalid >= 0) {
+            const action = steps[invalid]?.action;
+            return {
+                success: false,
+                steps: [],
+                error: `Step ${invalid} (${action ?? 'missing action'}) cannot be used in a batch`,
+            };
+        }
+
+        const results: BatchStepResult[] = steps.map((step, index) => ({ index, action: step.action, status: 'skipped' }));
+        const recorded: boolean[] = [];
+        this.history.beginGroup();
+
+        for (const [index, step] of steps.entries()) {
+            const entries = this.history.groupSize();
+            let result: unknown;
+            try {
+                result = await this.executeCommand(step);
+            } catch (error) {
+                result = errorResult(error);
+            }
+
+            const failed = typeof result === 'object' && result !== null && (result as { success?: boolean }).success === false;
+            if (failed) {
+                this.history.rollbackGroup();
+                for (let i = 0; i < index; i += 1) {
+                    if (recorded[i]) results[i].status = 'rolledBack';
+                }
+                results[index] = { index, action: step.action, status: 'failed', error: (result as { error?: string }).error };
+                return { success: false, steps: results, error: `Step ${index} (${step.action}) failed: ${results[index].error}` };
+            }
+
+            results[index] = { index, action: step.action, status: 'applied', result };
+            recorded[index] = this.history.groupSize() > entries;
+        }
+
+        this.history.commitGroup('batch', `batch of ${steps.length} step(s)`);
+        return { success: true, steps: results };
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // HISTORY
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    private undo(steps = 1): { success: boolean; data?: string[]; error?: string } {
+        if (!this.history.canUndo()) return { success: false, error: 'Nothing to undo' };
+
+        const undone: string[] = [];
+        for (let i = 0; i < Math.max(1, steps); i += 1) {
+            const entry = this.history.undo();
+            if (!entry) break;
+            undone.push(entry.label);
+        }
+        return { success: true, data: undone };
+    }
+
+    private redo(steps = 1): { success: boolean; data?: string[]; error?: string } {
+        if (!this.history.canRedo()) return { success: false, error: 'Nothing to redo' };
+
+        const redone: string[] = [];
+        for (let i = 0; i < Math.max(1, steps); i += 1) {
+            const entry = this.history.redo();
+            if (!entry) break;
+            redone.push(entry.label);
+        }
+        return { success: true, data: redone };
+    }
+
+    private record(action: string, label: string, undo: () => void, redo: () => void): void {
+        this.history.push({ action, label, undo, redo });
+    }
+
+    /**
+     * Capture where an object sits in the graph and the physics bodies on it and its
+     * descendants; the returned function puts it back (or detaches it)
+     */
+    private snapshotAttachment(obj: THREE.Object3D): () => void {
+        const parent = obj.parent;
+        const index = parent ? parent.children.indexOf(obj) : -1;
+        const tracked = this.objects.get(obj.name) === obj;
+        const bodies = this.snapshotBodies(obj);
+
+        return () => {
+            if (!parent) {
+                this.removeBodies(obj);
+                obj.removeFromParent();
+                if (this.objects.get(obj.name) === obj) this.objects.delete(obj.name);
+                return;
+            }
+
+            if (obj.parent !== parent) {
+                parent.add(obj);
+            }
+            const current = parent.children.indexOf(obj);
+            if (index >= 0 && current !== index) {
+                parent.children.splice(current, 1);
+                parent.children.splice(Math.min(index, parent.children.length), 0, obj);
+            }
+            if (tracked) this.objects.set(obj.name, obj);
+            for (const [child, options] of bodies) {
+                if (!this.physics?.hasBody(child)) this.physics?.createBody(child, options);
+            }
+        };
+    }
+
+    private snapshotBodies(obj: THREE.Object3D): Array<[THREE.Object3D, RigidBodyOptions]> {
+        const bodies: Array<[THREE.Object3D, RigidBodyOptions]> = [];
+        const physics = this.physics;
+        if (!physics) return bodies;
+
+        obj.traverse((child) => {
+            const options = physics.getBodyOptions(child);
+            if (options) bodies.push([child, options]);
+        });
+        return bodies;
+    }
+
+    private removeBodies(obj: THREE.Object3D): void {
+        const physics = this.physics;
+        if (!physics) return;
+        obj.traverse((child) => { physics.removeBody(child); });
+    }
+
+    private snapshotAtmosphere(): () => void {
+        const background = this.scene.background;
+        const fog = this.scene.fog;
+        const blurriness = this.scene.backgroundBlurriness;
+        const light = this.scene.getObjectByName(ENVIRONMENT_LIGHT_NAME) as THREE.HemisphereLight | undefined;
+        const lightState = light
+            ? { sky: light.color.clone(), ground: light.groundColor.clone(), intensity: light.intensity }
+            : null;
+
+        return () => {
+            this.scene.background = background;
+            this.scene.fog = fog;
+            this.scene.backgroundBlurriness = blurriness;
+
+            const current = this.scene.getObjectByName(ENVIRONMENT_LIGHT_NAME) as THREE.HemisphereLight | undefined;
+            if (!lightState) {
+                current?.removeFromParent();
+                return;
+            }
+            this.setEnvironmentLight(`#${lightState.sky.getHexString()}`, `#${lightState.ground.getHexString()}`, lightState.intensity);
+        };
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // LIGHTS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    private addLight(cmd: { type: string; name?: string; position?: number[]; color?: string; intensity?: number }): CreatedResult {
+        let light: THREE.Light;
+        const color = cmd.color || '#ffffff';
+        const intensity = cmd.intensity ?? 1;
+
+        switch (cmd.type?.toLowerCase()) {
+            case 'point':
+                light = new THREE.PointLight(color, intensity);
+                break;
+            case 'directional':
+                light = new THREE.DirectionalLight(color, intensity);
+                break;
+            case 'spot':
+                light = new THREE.SpotLight(color, intensity);
+                break;
+            case 'ambient':
+                light = new THREE.AmbientLight(color, intensity);
+                break;
+            default:
+                return { success: false, error: `Unknown light type: ${cmd.type}` };
+        }
+
+        light.name = cmd.name || `mcp_${cmd.type}Light_${Date.now()}`;
+        light.userData.mcpSpawn = { action: 'addLight', type: cmd.type.toLowerCase(), color: cmd.color, intensity: cmd.intensity } satisfies SpawnRecord;
+
+        if (cmd.position && 'position' in light) {
+            (light as THREE.PointLight).position.set(cmd.position[0], cmd.position[1], cmd.position[2]);
+        }
+
+        const undo = this.snapshotAttachment(light);
+        this.scene.add(light);
+        this.objects.set(light.name, light);
+        this.record('addLight', `add ${cmd.type} light "${light.name}"`, undo, this.snapshotAttachment(light));
+
+        return { success: true, id: light.name, uuid: light.uuid, objects: [this.describeAffected(light)] };
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // MATERIALS & ASSETS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    private async loadAsset(cmd: { url: string; name?: string; position?: number[]; scale?: number[] }): Promise<CreatedResult> {
+        if (!cmd.url) return { success: false, error: 'Asset url is required' };
+
+        const gltf = await new GLTFLoader().loadAsync(cmd.url);
+        const model = gltf.scene;
+        model.name = cmd.name || `mcp_asset_${Date.now()}`;
+
+        if (cmd.position) {
+            model.position.set(cmd.position[0], cmd.position[1], cmd.position[2]);
+        }
+        if (cmd.scale) {
+            model.scale.set(cmd.scale[0], cmd.scale[1], cmd.scale[2]);
+        }
+
+        const undo = this.snapshotAttachment(model);
+        this.scene.add(model);
+        this.objects.set(model.name, model);
+        this.record('loadAsset', `load "${model.name}"`, undo, this.snapshotAttachment(model));
+
+        return { success: true, id: model.name, uuid: model.uuid, objects: [this.describeAffected(model)] };
+    }
+
+    private applyMaterial(cmd: ObjectSelectorFields & { type?: string; color?: string; preset?: string }): ObjectsResult {
+        const target = selectorOf(cmd);
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
+
+        let preset: MaterialPreset | undefined;
+        if (cmd.preset) {
+            preset = MATERIAL_PRESETS[cmd.preset.toLowerCase()];
+            if (!preset) return { success: false, error: `Unknown material preset: ${cmd.preset}` };
+        }
+
+        const type = (cmd.type?.toLowerCase() ?? preset?.type ?? 'standard') as MaterialType;
+        const params: Record<string, unknown> = { ...preset?.params };
+        if (cmd.color) params.color = cmd.color;
+
+        const undo = snapshotMaterials(obj);
+        let applied = 0;
+        let error: string | null = null;
+        obj.traverse((child) => {
+            const mesh = child as THREE.Mesh;
+            if (!mesh.isMesh || error) return;
+
+            const material = createMaterial(type, params);
+            if (!material) {
+                error = `Unknown material type: ${cmd.type}`;
+                return;
+            }
+            // Previous materials may be shared with other meshes, so they are not disposed here
+            mesh.material = material;
+            applied += 1;
+        });
+
+        if (error) {
+            undo();
+            return { success: false, error };
+        }
+        if (applied === 0) return { success: false, error: `Object has no meshes: ${describeSelector(target)}` };
+        this.record('applyMaterial', `apply ${cmd.preset ?? type} material to "${describeSelector(target)}"`, undo, snapshotMaterials(obj));
+        return { success: true, objects: [this.describeAffected(obj)] };
+    }
+
+    private setEnvironment(cmd: { preset: string; blur?: number; background?: boolean }): { success: boolean; error?: string } {
+        const preset = ENVIRONMENT_PRESETS[cmd.preset?.toLowerCase()];
+        if (!preset) return { success: false, error: `Unknown environment preset: ${cmd.preset}` };
+
+        const undo = this.snapshotAtmosphere();
+        this.scene.background = cmd.background === false ? null : new THREE.Color(preset.background);
+        if (typeof cmd.blur === 'number') {
+            this.scene.backgroundBlurriness = Math.min(1, Math.max(0, cmd.blur));
+        }
+        this.setEnvironmentLight(preset.sky, preset.ground, preset.intensity);
+        this.record('setEnvironment', `set environment "${cmd.preset}"`, undo, this.snapshotAtmosphere());
+
+        return { success: true };
+    }
+
+    private applyVibe(vibe: string): { success: boolean; error?: string } {
+        const key = vibe?.toLowerCase();
+        const preset = VIBE_PRESETS[key];
+        if (!preset) return { success: false, error: `Unknown vibe: ${vibe}` };
+
+        const undo = this.snapshotAtmosphere();
+        if (key === 'chaos') {
+            const random = () => new THREE.Color().setHSL(Math.random(), 0.9, 0.5);
+            this.scene.background = random();
+            this.scene.fog = null;
+            this.setEnvironmentLight(`#${random().getHexString()}`, `#${random().getHexString()}`, 0.5 + Math.random());
+        } else {
+            this.scene.background = new THREE.Color(preset.background);
+            this.scene.fog = preset.fog ? new THREE.Fog(preset.fog.color, preset.fog.near, preset.fog.far) : null;
+            this.setEnvironmentLight(preset.sky, preset.ground, preset.intensity);
+        }
+        this.record('applyVibe', `apply vibe "${key}"`, undo, this.snapshotAtmosphere());
+
+        return { success: true };
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // SNAPSHOTS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    getSceneSnapshot(): SceneSnapshot {
+        const objects: SceneSnapshotObject[] = this.collectObjects().map((obj) => {
+            const entry: SceneSnapshotObject = {
+                uuid: obj.uuid,
+                name: obj.name,
+                type: obj.type,
+                path: this.getObjectPath(obj),
+                parent: obj.parent && obj.parent !== this.scene ? obj.parent.uuid : null,
+                position: obj.position.toArray(),
+                quaternion: obj.quaternion.toArray(),
+                scale: obj.scale.toArray(),
+                visible: obj.visible,
+            };
+
+            const material = (obj as THREE.Mesh).material;
+            if (material) {
+                entry.materials = (Array.isArray(material) ? material : [material]).map(serializeMaterial);
+            }
+            if (obj.userData.mcpSpawn) {
+                entry.spawn = obj.userData.mcpSpawn as SpawnRecord;
+            }
+            return entry;
+        });
+
+        const camera = this.getActiveCamera();
+        let cameraState: SceneSnapshot['camera'] = null;
+        if (camera) {
+            cameraState = {
+                position: camera.position.toArray(),
+                lookAt: this.getCameraLookAt(camera).toArray(),
+                projection: getProjection(camera) ?? undefined,
+                ...readLens(camera),
+            };
+        }
+
+        return { version: 1, objects, camera: cameraState };
+    }
+
+    /**
+     * Re-apply a snapshot as one undo entry. Objects are matched by uuid, then by
+     * path (in order, for duplicate paths); spawned primitives and lights that are
+     * missing are recreated and ones spawned since the snapshot are removed.
+     * Camera changes are not part of the undo entry.
+     */
+    private restoreSceneSnapshot(snapshot: SceneSnapshot): SnapshotRestoreResult {
+        const result: SnapshotRestoreResult = { success: true, restored: 0, created: [], removed: [], missing: [] };
+        if (!snapshot || snapshot.version !== 1 || !Array.isArray(snapshot.objects)) {
+            return { ...result, success: false, error: 'Invalid scene snapshot' };
+        }
+
+        const saved = new Set(snapshot.objects.map((entry) => entry.uuid));
+        const resolved = new Map<string, THREE.Object3D>();
+        const used = new Set<THREE.Object3D>();
+        const byPath = new Map<string, THREE.Object3D[]>();
+
+        this.history.beginGroup();
+        try {
+            for (const obj of this.collectObjects()) {
+                if (!obj.userData.mcpSpawn || saved.has(obj.uuid)) continue;
+                // Children of an already removed object go with it
+                const path = this.getObjectPath(obj);
+                if (this.removeObject({ uuid: obj.uuid }).success) result.removed.push(path);
+            }
+
+            for (const entry of snapshot.objects) {
+                let obj = this.scene.getObjectByProperty('uuid', entry.uuid) ?? null;
+                if (!obj) {
+                    if (!byPath.has(entry.path)) byPath.set(entry.path, this.findByPath(entry.path));
+                    obj = byPath.get(entry.path)!.find((candidate) => !used.has(candidate)) ?? null;
+                }
+                if (!obj && entry.spawn) {
+                    obj = this.respawn(entry, entry.parent ? resolved.get(entry.parent) ?? null : this.scene);
+                    if (obj) result.created.push(entry.path);
+                }
+                if (!obj || obj === this.scene) {
+                    result.missing.push(entry.path);
+                    continue;
+                }
+
+                used.add(obj);
+                resolved.set(entry.uuid, obj);
+                this.applySnapshotObject(obj, entry);
+                result.restored += 1;
+            }
+        } catch (error) {
+            this.history.rollbackGroup();
+            throw error;
+        }
+        this.history.commitGroup('restoreSceneSnapshot', 'restore scene snapshot');
+
+        if (snapshot.camera) {
+            const { projection, ...view } = snapshot.camera;
+            if (projection && this.cameraSetter) this.setCameraProjection(projection);
+            this.setCameraPosition({ action: 'setCameraPosition', ...view });
+        }
+        return result;
+    }
+
+    private respawn(entry: SceneSnapshotObject, parent: THREE.Object3D | null): THREE.Object3D | null {
+        if (!parent || !entry.spawn) return null;
+
+        const spawned = entry.spawn.action === 'addPrimitive'
+            ? this.addPrimitive({ ...entry.spawn, name: entry.name })
+            : this.addLight({ ...entry.spawn, name: entry.name });
+        const obj = spawned.uuid ? this.scene.getObjectByProperty('uuid', spawned.uuid) : undefined;
+        if (!obj) return null;
+
+        // Keep the saved identity so later snapshots and selectors still match
+        obj.uuid = entry.uuid;
+        if (parent !== this.scene) {
+            const undo = this.snapshotAttachment(obj);
+            parent.add(obj);
+            this.record('restoreSceneSnapshot', `reparent "${entry.name}"`, undo, this.snapshotAttachment(obj));
+        }
+        return obj;
+    }
+
+    private applySnapshotObject(obj: THREE.Object3D, entry: SceneSnapshotObject): void {
+        const undoTransform = this.snapshotPose(obj);
+        obj.position.fromArray(entry.position);
+        obj.quaternion.fromArray(entry.quaternion);
+        obj.scale.fromArray(entry.scale);
+        this.syncPhysics(obj);
+        this.record('restoreSceneSnapshot', `restore transform of "${entry.path}"`, undoTransform, this.snapshotPose(obj));
+
+        if (obj.visible !== entry.visible) {
+            const wasVisible = obj.visible;
+            obj.visible = entry.visible;
+            this.record('restoreSceneSnapshot', `restore visibility of "${entry.path}"`,
+                () => { obj.visible = wasVisible; }, () => { obj.visible = entry.visible; });
+        }
+
+        const mesh = obj as THREE.Mesh;
+        if (!entry.materials || !mesh.material) return;
+
+        const current = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+        if (current.length !== entry.materials.length) return;
+
+        const undoMaterials = snapshotMaterials(mesh);
+        let changed = false;
+        const next = current.map((material, i) => {
+            const saved = entry.materials![i];
+            const type = SNAPSHOT_MATERIAL_TYPES[saved.type];
+            if (saved.textured || !type || JSON.stringify(serializeMaterial(material)) === JSON.stringify(saved)) {
+                return material;
+            }
+
+            const { color, emissive, metalness, roughness, opacity, transparent } = saved;
+            const params = Object.fromEntries(
+                Object.entries({ color, emissive, metalness, roughness, opacity, transparent }).filter(([, value]) => value !== undefined)
+            );
+            const replacement = createMaterial(type, params);
+            if (!replacement) return material;
+            changed = true;
+            return replacement;
+        });
+
+        if (changed) {
+            mesh.material = Array.isArray(mesh.material) ? next : next[0];
+            this.record('restoreSceneSnapshot', `restore materials of "${entry.path}"`, undoMaterials, snapshotMaterials(mesh));
+        }
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // SOURCE SYNC
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    /**
+     * State of every object that can be traced back to source, by name or by
+     * injected source location, optionally narrowed with an object query
+     */
+    getSourceState(selector?: string): SourceObjectState[] {
+        const candidates = selector ? queryObjects(this.scene, selector) : this.collectObjects();
+
+        return candidates
+            .filter((obj) => obj.name || typeof obj.userData.mcpSource === 'string')
+            .map((obj) => {
+                const state: SourceObjectState = {
+                    uuid: obj.uuid,
+                    name: obj.name,
+                    path: this.getObjectPath(obj),
+                    source: typeof obj.userData.mcpSource === 'string' ? obj.userData.mcpSource : undefined,
+                    position: obj.position.toArray(),
+                    rotation: [obj.rotation.x, obj.rotation.y, obj.rotation.z],
+                    scale: obj.scale.toArray(),
+                    visible: obj.visible,
+                };
+
+                // Multi-material meshes have no single element to write to
+                const material = (obj as THREE.Mesh).material;
+                if (material && !Array.isArray(material)) {
+                    const { type, textured, ...props } = serializeMaterial(material);
+                    state.material = props;
+                }
+                return state;
+            });
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // PERFORMANCE
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    getPerformanceStats(frames?: number, top = 10): PerformanceStats {
+        const samples = this.frameTimes.slice(-Math.max(1, frames ?? this.frameTimes.length));
+        let frameStats: PerformanceStats['frames'] = null;
+        if (samples.length > 0) {
+            const sorted = [...samples].sort((a, b) => a - b);
+            const avgMs = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+            frameStats = {
+                samples: samples.length,
+                avgMs,
+                p95Ms: sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * 0.95) - 1)],
+                maxMs: sorted[sorted.length - 1],
+                fps: avgMs > 0 ? 1000 / avgMs : 0,
+            };
+        }
+
+        const info = this.renderer?.info;
+        const heap = (typeof performance !== 'undefined'
+            ? (performance as Performance & { memory?: PerformanceStats['memory'] }).memory
+            : undefined) ?? null;
+
+        const meshes: PerformanceStats['heaviestMeshes'] = [];
+        let objects = 0;
+        let triangles = 0;
+        this.scene.traverseVisible((obj) => {
+            if (obj === this.scene) return;
+            objects += 1;
+
+            const mesh = obj as THREE.Mesh;
+            if (!mesh.isMesh || !mesh.geometry) return;
+            const count = countTriangles(mesh);
+            triangles += count;
+            meshes.push({ name: mesh.name || `[${mesh.type}]`, path: this.getObjectPath(mesh), uuid: mesh.uuid, type: mesh.type, triangles: count });
+        });
+        meshes.sort((a, b) => b.triangles - a.triangles);
+
+        return {
+            frames: frameStats,
+            renderer: info ? {
+                calls: info.render.calls,
+                triangles: info.render.triangles,
+                points: info.render.points,
+                lines: info.render.lines,
+                geometries: info.memory.geometries,
+                textures: info.memory.textures,
+                programs: info.programs?.length ?? 0,
+            } : null,
+            memory: heap ? {
+                usedJSHeapSize: heap.usedJSHeapSize,
+                totalJSHeapSize: heap.totalJSHeapSize,
+                jsHeapSizeLimit: heap.jsHeapSizeLimit,
+            } : null,
+            scene: { objects, meshes: meshes.length, triangles },
+            heaviestMeshes: meshes.slice(0, Math.max(0, top)),
+        };
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════════
+    // PHYSICS
+    // ═══════════════════════════════════════════════════════════════════════════
+
+    private makePhysical(cmd: ObjectSelectorFields & {
+        type?: string;
+        colliders?: string;
+        mass?: number;
+        friction?: number;
+        restitution?: number;
+        gravityScale?: number;
+    }): ObjectsResult {
+        if (!this.physics) return { success: false, error: 'No physics adapter configured' };
+
+        const target = selectorOf(cmd);
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
+
+        const type = (cmd.type?.toLowerCase() ?? 'dynamic') as RigidBodyType;
+        if (!['dynamic', 'kinematic', 'static'].includes(type)) {
+            return { success: false, error: `Unknown body type: ${cmd.type}` };
+        }
+        const colliders = (cmd.colliders?.toLowerCase() ?? 'auto') as ColliderType;
+        if (!['cuboid', 'ball', 'hull', 'trimesh', 'auto'].includes(colliders)) {
+            return { success: false, error: `Unknown collider type: ${cmd.colliders}` };
+        }
+
+        const physics = this.physics;
+        const previous = physics.getBodyOptions(obj);
+        const options: RigidBodyOptions = {
+            type,
+            colliders,
+            mass: cmd.mass,
+            friction: cmd.friction,
+            restitution: cmd.restitution,
+            gravityScale: cmd.gravityScale,
+        };
+        physics.createBody(obj, options);
+        this.record('makePhysical', `add ${type} physics body to "${describeSelector(target)}"`,
+            () => { if (previous) physics.createBody(obj, previous); else physics.removeBody(obj); },
+            () => physics.createBody(obj, options));
+        return { success: true, objects: [this.describeAffected(obj)] };
+    }
+
+    private removePhysics(target: ObjectSelector): ObjectsResult {
+        if (!this.physics) return { success: false, error: 'No physics adapter configured' };
+
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
+
+        const physics = this.physics;
+        const options = physics.getBodyOptions(obj);
+        if (!options || !physics.removeBody(obj)) {
+            return { success: false, error: `Object has no physics body: ${describeSelector(target)}` };
+        }
+        this.record('removePhysics', `remove physics body from "${describeSelector(target)}"`,
+            () => physics.createBody(obj, options),
+            () => { physics.removeBody(obj); });
+        return { success: true, objects: [this.describeAffected(obj)] };
+    }
+
+    private applyImpulse(target: ObjectSelector, vector: number[]): ObjectsResult & { velocity?: Vec3Tuple } {
+        if (!this.physics) return { success: false, error: 'No physics adapter configured' };
+
+        const obj = this.findObject(target);
+        if (!obj) return { success: false, error: `Object not found: ${describeSelector(target)}` };
+
+        if (!this.physics.applyImpulse(obj, [vector[0], vector[1], vector[2]])) {
+            return { success: false, error: `Object has no physics body: ${describeSelector(target)}` };
+        }
+        return { success: true, velocity: this.physics.getVelocity(obj)?.linear, objects: [this.describeAffected(obj)] };
+    }
+
+    private setGravity(vector: number[]): { success: boolean; error?: string } {
+        if (!this.physics) return { success: false, error: 'No physics adapter configured' };
+
+        this.physics.setGravity([vector[0], vector[1], vector[2]]);
+        return { success: true };
+    }
+
+    private setEnvironmentLight(sky: string, ground: string, intensity: number): void {
+        let light = this.scene.getObjectByName(ENVIRONMENT_LIGHT_NAME) as THREE.HemisphereLight | undefined;
+        if (!light) {
+            light = new THREE.HemisphereLight();
+            light.name = ENVIRONMENT_LIGHT_NAME;
+            this.scene.add(light);
+        }
+
+        light.color.set(sky);
+        light.groundColor.set(ground);
+        light.intensity = intensity;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+function selectorOf(command: object): ObjectSelectorFields {
+    const { uuid, path, name } = command as Record<string, unknown>;
+    const field = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+    return { uuid: field(uuid), path: field(path), name: field(name) };
+}
+
+function describeSelector(target: ObjectSelector): string {
+    if (typeof target === 'string') return target;
+    return target.uuid ?? target.path ?? target.name ?? '(no selector)';
+}
+
+function errorResult(error: unknown): { success: false; error: string; candidates?: SelectorCandidate[] } {
+    if (error instanceof AmbiguousSelectorError) {
+        return { success: false, error: error.message, candidates: error.candidates };
+    }
+    return { success: false, error: (error as Error).message };
+}
+
+function getProjection(camera: THREE.Camera): CameraProjection | null {
+    if ((camera as THREE.PerspectiveCamera).isPerspectiveCamera) return 'perspective';
+    if ((camera as THREE.OrthographicCamera).isOrthographicCamera) return 'orthographic';
+    return null;
+}
+
+function readLens(camera: THREE.Camera): LensValues {
+    const perspective = camera as THREE.PerspectiveCamera;
+    const ortho = camera as THREE.OrthographicCamera;
+    if (perspective.isPerspectiveCamera) return readLensProperties(perspective, PERSPECTIVE_LENS);
+    if (ortho.isOrthographicCamera) return readLensProperties(ortho, ORTHOGRAPHIC_LENS);
+    return {};
+}
+
+function readLensProperties<K extends LensProperty>(camera: Record<K, number>, keys: K[]): LensValues {
+    const lens: LensValues = {};
+    for (const key of keys) lens[key] = camera[key];
+    return lens;
+}
+
+/**
+ * Set the lens values the camera has and update its projection; returns whether anything changed
+ */
+function applyLens(camera: THREE.Camera, lens: LensValues): boolean {
+    const perspective = camera as THREE.PerspectiveCamera;
+    const ortho = camera as THREE.OrthographicCamera;
+    let changed = false;
+    if (perspective.isPerspectiveCamera) {
+        changed = applyLensProperties(perspective, PERSPECTIVE_LENS, lens);
+        if (changed) perspective.updateProjectionMatrix();
+    } else if (ortho.isOrthographicCamera) {
+        changed = applyLensProperties(ortho, ORTHOGRAPHIC_LENS, lens);
+        if (changed) ortho.updateProjectionMatrix();
+    }
+    return changed;
+}
+
+function applyLensProperties<K extends LensProperty>(camera: Record<K, number>, keys: K[], lens: LensValues): boolean {
+    let changed = false;
+    for (const key of keys) {
+        const value = lens[key];
+        if (typeof value === 'number' && Number.isFinite(value)) {
+            camera[key] = value;
+            changed = true;
+        }
+    }
+    return changed;
+}
 
-// ═══════════════════════════════════════════════════════════════════════════
 function lerpNumber(from: number, to: number, t: number): number {
     return from + (to - from) * t;
 }
 
+/**
+ * Triangles drawn for a mesh, counting every instance and the draw range
+ */
+function countTriangles(mesh: THREE.Mesh): number {
+    const geometry = mesh.geometry;
+    const vertices = geometry.index ? geometry.index.count : geometry.getAttribute('position')?.count ?? 0;
+    const drawn = Math.min(vertices, geometry.drawRange.count);
+    const instances = (mesh as THREE.InstancedMesh).isInstancedMesh ? (mesh as THREE.InstancedMesh).count : 1;
+    return Math.floor(drawn / 3) * instances;
+}
+
+function isVisibleInScene(obj: THREE.Object3D): boolean {
+    let current: THREE.Object3D | null = obj;
+    while (current) {
+        if (!current.visible) return false;
+        current = current.parent;
+    }
+    return true;
+}
+
+/**
+ * World bounds of an object's own geometry, excluding children; a point at the
+ * world position for objects without geometry (groups, lights, cameras)
+ */
+function getOwnWorldBounds(obj: THREE.Object3D): THREE.Box3 {
+    const geometry = (obj as THREE.Mesh).geometry;
+    if (geometry?.isBufferGeometry && geometry.getAttribute('position')) {
+        if (!geometry.boundingBox) geometry.computeBoundingBox();
+        return geometry.boundingBox!.clone().applyMatrix4(obj.matrixWorld);
+    }
+
+    const position = new THREE.Vector3().setFromMatrixPosition(obj.matrixWorld);
+    return new THREE.Box3(position, position.clone());
+}
+
+/**
+ * Combined world bounds of the visible geometry under the targets; object
+ * positions when none of them has geometry (lights, empty groups)
+ */
+function getFramingBounds(targets: THREE.Object3D[]): THREE.Box3 {
+    const geometryBounds = new THREE.Box3();
+    const pointBounds = new THREE.Box3();
+
+    for (const target of targets) {
+        if (!isVisibleInScene(target)) continue;
+        target.traverseVisible((obj) => {
+            if ((obj as THREE.Camera).isCamera || (obj as THREE.Scene).isScene) return;
+
+            const mesh = obj as THREE.InstancedMesh;
+            if (mesh.isInstancedMesh) {
+                mesh.computeBoundingBox();
+                geometryBounds.union(mesh.boundingBox!.clone().applyMatrix4(mesh.matrixWorld));
+            } else if (mesh.geometry?.isBufferGeometry) {
+                geometryBounds.union(getOwnWorldBounds(obj));
+            } else {
+                pointBounds.union(getOwnWorldBounds(obj));
+            }
+        });
+    }
+
+    return geometryBounds.isEmpty() ? pointBounds : geometryBounds;
+}
+
+function sphereContainsBox(sphere: THREE.Sphere, box: THREE.Box3): boolean {
+    // The farthest corner from the center decides containment
+    const corner = new THREE.Vector3(
+        Math.max(Math.abs(box.min.x - sphere.center.x), Math.abs(box.max.x - sphere.center.x)),
+        Math.max(Math.abs(box.min.y - sphere.center.y), Math.abs(box.max.y - sphere.center.y)),
+        Math.max(Math.abs(box.min.z - sphere.center.z), Math.abs(box.max.z - sphere.center.z))
+    );
+    return corner.length() <= sphere.radius;
+}
+
+function inspectGeometry(geometry: THREE.BufferGeometry): GeometryInspection {
+    const position = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const morphNames = Object.keys(geometry.morphAttributes);
+
+    return {
+        uuid: geometry.uuid,
+        type: geometry.type,
+        vertexCount: position?.count ?? 0,
+        indexed: index !== null,
+        indexCount: index ? index.count : null,
+        attributes: Object.entries(geometry.attributes).map(([name, attribute]) => ({
+            name,
+            itemSize: attribute.itemSize,
+            count: attribute.count,
+            normalized: attribute.normalized,
+        })),
+        morphTargets: {
+            count: morphNames.length > 0 ? geometry.morphAttributes[morphNames[0]].length : 0,
+            attributes: morphNames,
+            relative: geometry.morphTargetsRelative,
+        },
+        groups: geometry.groups.length,
+    };
+}
+
+const SIDE_NAMES = ['FrontSide', 'BackSide', 'DoubleSide'] as const;
+
+function inspectMaterial(material: THREE.Material): MaterialInspection {
+    const props = material as THREE.Material & Record<string, unknown>;
+    const data: MaterialInspection = {
+        uuid: material.uuid,
+        name: material.name,
+        type: material.type,
+        opacity: material.opacity,
+        transparent: material.transparent,
+        side: SIDE_NAMES[material.side] ?? 'FrontSide',
+        visible: material.visible,
+        maps: {},
+    };
+
+    if ((props.color as THREE.Color | undefined)?.isColor) data.color = `#${(props.color as THREE.Color).getHexString()}`;
+    if ((props.emissive as THREE.Color | undefined)?.isColor) data.emissive = `#${(props.emissive as THREE.Color).getHexString()}`;
+    if (typeof props.wireframe === 'boolean') data.wireframe = props.wireframe;
+    if (typeof props.metalness === 'number') data.metalness = props.metalness;
+    if (typeof props.roughness === 'number') data.roughness = props.roughness;
+
+    for (const [key, value] of Object.entries(props)) {
+        const texture = value as THREE.Texture | null;
+        if (!/map$/i.test(key) || !texture?.isTexture) continue;
+        const image = texture.image as { width?: number; height?: number } | undefined;
+        data.maps[key] = { uuid: texture.uuid, name: texture.name, width: image?.width, height: image?.height };
+    }
+
+    return data;
+}
+
+/**
+ * JSON-safe copy of arbitrary userData: drops functions, breaks cycles, stubs Three.js objects
+ */
+function toSerializable(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+    if (typeof value === 'bigint') return value.toString();
+    if (typeof value !== 'object') return undefined;
+
+    if (seen.has(value)) return '[Circular]';
+    seen.add(value);
+
+    const three = value as { isObject3D?: boolean; isVector3?: boolean; isColor?: boolean; uuid?: string; type?: string };
+    if (three.isObject3D) return `[${three.type} ${three.uuid}]`;
+    if (three.isVector3) return (value as THREE.Vector3).toArray();
+    if (three.isColor) return `#${(value as THREE.Color).getHexString()}`;
+
+    if (Array.isArray(value)) return value.map((item) => toSerializable(item, seen) ?? null);
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        const serialized = toSerializable(item, seen);
+        if (serialized !== undefined) result[key] = serialized;
+    }
+    return result;
+}
+
+function serializeMaterial(material: THREE.Material): SceneSnapshotMaterial {
+    const props = material as THREE.Material & Record<string, unknown>;
+    const color = props.color as THREE.Color | undefined;
+    const emissive = props.emissive as THREE.Color | undefined;
+
+    return {
+        type: material.type,
+        color: color?.isColor ? `#${color.getHexString()}` : undefined,
+        emissive: emissive?.isColor ? `#${emissive.getHexString()}` : undefined,
+        metalness: typeof props.metalness === 'number' ? props.metalness : undefined,
+        roughness: typeof props.roughness === 'number' ? props.roughness : undefined,
+        opacity: material.opacity,
+        transparent: material.transparent,
+        textured: Object.entries(props).some(([key, value]) => /map$/i.test(key) && (value as THREE.Texture | null)?.isTexture === true),
+    };
+}
+
+function snapshotTransform(obj: THREE.Object3D): () => void {
+    const position = obj.position.clone();
+    const quaternion = obj.quaternion.clone();
+    const scale = obj.scale.clone();
+
+    return () => {
+        obj.position.copy(position);
+        obj.quaternion.copy(quaternion);
+        obj.scale.copy(scale);
+    };
+}
+
+function snapshotMaterials(obj: THREE.Object3D): () => void {
+    const meshes: Array<{ mesh: THREE.Mesh; material: THREE.Material | THREE.Material[] }> = [];
+    const states: Array<{ material: THREE.Material; opacity: number; transparent: boolean }> = [];
+    const seen = new Set<THREE.Material>();
+
+    obj.traverse((child) => {
+        const mesh = child as THREE.Mesh;
+        if (!mesh.material) return;
+
+        meshes.push({ mesh, material: mesh.material });
+        for (const material of Array.isArray(mesh.material) ? mesh.material : [mesh.material]) {
+            if (seen.has(material)) continue;
+            seen.add(material);
+            states.push({ material, opacity: material.opacity, transparent: material.transparent });
+        }
+    });
+
+    return () => {
+        meshes.forEach(({ mesh, material }) => { mesh.material = material; });
+        states.forEach(({ material, opacity, transparent }) => {
+            material.opacity = opacity;
+            material.transparent = transparent;
+        });
+    };
+}
+
+function diffSceneNode(before: SceneNodeData, after: SceneNodeData): SceneNodeChanges | null {
+    const changes: SceneNodeChanges = {};
+    let changed = false;
+
+    if (before.name !== after.name) {
+        changes.name = after.name;
+        changed = true;
+    }
+    if (before.visible !== after.visible) {
+        changes.visible = after.visible;
+        changed = true;
+    }
+    for (const key of ['position', 'rotation', 'scale'] as const) {
+        if (!vectorsEqual(before[key], after[key])) {
+            changes[key] = after[key];
+            changed = true;
+        }
+    }
+
+    return changed ? changes : null;
+}
+
+function vectorsEqual(a: number[], b: number[], epsilon = 1e-6): boolean {
+    return a.length === b.length && a.every((value, i) => Math.abs(value - b[i]) <= epsilon);
+}
+
+function createMaterial(type: MaterialType, params: Record<string, unknown>): THREE.Material | null {
+    switch (type) {
+        case 'standard':
+            return new THREE.MeshStandardMaterial(params as THREE.MeshStandardMaterialParameters);
+        case 'physical':
+            return new THREE.MeshPhysicalMaterial(params as THREE.MeshPhysicalMaterialParameters);
+        case 'basic':
+            return new THREE.MeshBasicMaterial(filterParams(params, ['color', 'transparent', 'opacity']));
+        case 'toon':
+            return new THREE.MeshToonMaterial(filterParams(params, ['color', 'emissive', 'emissiveIntensity', 'transparent', 'opacity']));
+        default:
+            return null;
+    }
+}
+
+function filterParams(params: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(params).filter(([key]) => keys.includes(key)));
+}
+
 // SINGLETON HELPER
 // ═══════════════════════════════════════════════════════════════════════════
 
@@ -712,10 +3088,10 @@ let globalBridge: MCPBridge | null = null;
 /**
  * Get or create the global MCPBridge instance
  */
-export function getMCPBridge(scene?: THREE.Scene): MCPBridge | null {
+export function getMCPBridge(scene?: THREE.Scene, options?: MCPBridgeOptions): MCPBridge | null {
     if (globalBridge) return globalBridge;
     if (scene) {
-        globalBridge = new MCPBridge(scene);
+        globalBridge = new MCPBridge(scene, options);
         return globalBridge;
     }
     return null;
@@ -0,0 +1,349 @@
+/**
+ * ObjectQuery - CSS-like selectors for scene objects
+ *
+ *   Mesh                       type, or any `is<Type>` flag (`Light` matches every light)
+ *   *                          any object
+ *   #<uuid>                    object by uuid
+ *   [name=Tree*]               exact match, `*` and `?` glob
+ *   [name^=Tree] [name$=_lod0] [name*=wall] [name!=Ground]
+ *   [userData.team=red]        any property path, compared as a string
+ *   [userData.interactive]     property is defined
+ *   :visible :hidden           effective visibility (every ancestor visible)
+ *   :layer(2)                  enabled on layer 2
+ *   A > B    A B    A, B       child, descendant, either
+ *
+ * @example
+ * ```typescript
+ * queryObjects(scene, 'Mesh[name^=Tree][userData.team=red] > PointLight');
+ * ```
+ */
+
+import type * as THREE from 'three';
+
+type AttributeOperator = '=' | '!=' | '^=' | '$=' | '*=';
+
+interface AttributeTest {
+    path: string[];
+    /** Omitted for existence tests */
+    operator?: AttributeOperator;
+    value?: string;
+}
+
+type PseudoTest =
+    | { kind: 'visible' }
+    | { kind: 'hidden' }
+    | { kind: 'layer'; layer: number };
+
+interface CompoundSelector {
+    type?: string;
+    uuid?: string;
+    attributes: AttributeTest[];
+    pseudos: PseudoTest[];
+}
+
+interface ComplexSelector {
+    compounds: CompoundSelector[];
+    /** combinators[i] joins compounds[i] and compounds[i + 1] */
+    combinators: Array<'>' | ' '>;
+}
+
+export interface ObjectQuery {
+    source: string;
+    alternatives: ComplexSelector[];
+}
+
+export class QuerySyntaxError extends Error {
+    readonly position: number;
+
+    constructor(message: string, source: string, position: number) {
+        super(`${message} at position ${position} in "${source}"`);
+        this.name = 'QuerySyntaxError';
+        this.position = position;
+    }
+}
+
+const IDENT_CHAR = /[A-Za-z0-9_-]/;
+const OPERATORS: AttributeOperator[] = ['!=', '^=', '$=', '*=', '='];
+
+export function parseQuery(source: string): ObjectQuery {
+    return new QueryParser(source).parse();
+}
+
+/**
+ * Objects below `root` (not `root` itself) matching the query, in traversal order
+ */
+export function queryObjects(root: THREE.Object3D, query: string | ObjectQuery): THREE.Object3D[] {
+    const parsed = typeof query === 'string' ? parseQuery(query) : query;
+    const results: THREE.Object3D[] = [];
+
+    root.traverse((obj) => {
+        if (obj !== root && matchesQuery(obj, parsed, root)) results.push(obj);
+    });
+    return results;
+}
+
+export function matchesQuery(obj: THREE.Object3D, query: ObjectQuery, root: THREE.Object3D): boolean {
+    return query.alternatives.some((selector) => matchesComplex(obj, selector, selector.compounds.length - 1, root));
+}
+
+class QueryParser {
+    private pos = 0;
+
+    constructor(private source: string) {}
+
+    parse(): ObjectQuery {
+        const alternatives: ComplexSelector[] = [];
+        this.skipSpaces();
+        alternatives.push(this.parseComplex());
+
+        while (this.peek() === ',') {
+            this.pos += 1;
+            this.skipSpaces();
+            alternatives.push(this.parseComplex());
+        }
+
+        if (this.pos < this.source.length) {
+            throw this.error(`Unexpected "${this.peek()}"`);
+        }
+        return { source: this.source, alternatives };
+    }
+
+    private parseComplex(): ComplexSelector {
+        const selector: ComplexSelector = { compounds: [this.parseCompound()], combinators: [] };
+
+        for (;;) {
+            const hadSpace = this.skipSpaces();
+            const next = this.peek();
+            if (next === undefined || next === ',') break;
+
+            if (next === '>') {
+                this.pos += 1;
+                this.skipSpaces();
+                selector.combinators.push('>');
+            } else if (hadSpace) {
+                selector.combinators.push(' ');
+            } else {
+                throw this.error(`Unexpected "${next}"`);
+            }
+            selector.compounds.push(this.parseCompound());
+        }
+
+        return selector;
+    }
+
+    private parseCompound(): CompoundSelector {
+        const start = this.pos;
+        const compound: CompoundSelector = { attributes: [], pseudos: [] };
+
+        if (this.peek() === '*') {
+            this.pos += 1;
+        } else if (this.isIdentChar(this.peek())) {
+            compound.type = this.readIdent();
+        }
+
+        for (;;) {
+            const next = this.peek();
+            if (next === '#') {
+                this.pos += 1;
+                compound.uuid = this.readIdent();
+            } else if (next === '[') {
+                compound.attributes.push(this.parseAttribute());
+            } else if (next === ':') {
+                compound.pseudos.push(this.parsePseudo());
+            } else {
+                break;
+            }
+        }
+
+        if (this.pos === start) {
+            throw this.error('Expected a selector');
+        }
+        return compound;
+    }
+
+    private parseAttribute(): AttributeTest {
+        this.pos += 1;
+        this.skipSpaces();
+
+        const pathStart = this.pos;
+        while (this.isIdentChar(this.peek()) || this.peek() === '.') this.pos += 1;
+        const path = this.source.slice(pathStart, this.pos).split('.');
+        if (path.some((part) => part === '')) {
+            this.pos = pathStart;
+            throw this.error('Expected a property path');
+        }
+
+        this.skipSpaces();
+        if (this.peek() === ']') {
+            this.pos += 1;
+            return { path };
+        }
+
+        const operator = OPERATORS.find((op) => this.source.startsWith(op, this.pos));
+        if (!operator) throw this.error('Expected an operator (=, !=, ^=, $=, *=) or "]"');
+        this.pos += operator.length;
+        this.skipSpaces();
+
+        const value = this.readValue();
+        this.skipSpaces();
+        this.expect(']');
+        return { path, operator, value };
+    }
+
+    private parsePseudo(): PseudoTest {
+        this.pos += 1;
+        const name = this.readIdent();
+
+        switch (name) {
+            case 'visible':
+            case 'hidden':
+                return { kind: name };
+            case 'layer': {
+                this.expect('(');
+                const start = this.pos;
+                while (/[0-9]/.test(this.peek() ?? '')) this.pos += 1;
+                const layer = Number(this.source.slice(start, this.pos));
+                if (start === this.pos || layer > 31) {
+                    this.pos = start;
+                    throw this.error('Expected a layer number (0-31)');
+                }
+                this.expect(')');
+                return { kind: 'layer', layer };
+            }
+            default:
+                throw this.error(`Unknown pseudo-class ":${name}"`);
+        }
+    }
+
+    private readValue(): string {
+        const quote = this.peek();
+        if (quote === '"' || quote === "'") {
+            const end = this.source.indexOf(quote, this.pos + 1);
+            if (end < 0) throw this.error('Unterminated string');
+            const value = this.source.slice(this.pos + 1, end);
+            this.pos = end + 1;
+            return value;
+        }
+
+        const end = this.source.indexOf(']', this.pos);
+        if (end < 0) throw this.error('Expected "]"');
+        const value = this.source.slice(this.pos, end).trimEnd();
+        this.pos += value.length;
+        return value;
+    }
+
+    private readIdent(): string {
+        const start = this.pos;
+        while (this.isIdentChar(this.peek())) this.pos += 1;
+        if (start === this.pos) throw this.error('Expected an identifier');
+        return this.source.slice(start, this.pos);
+    }
+
+    private expect(char: string): void {
+        if (this.peek() !== char) throw this.error(`Expected "${char}"`);
+        this.pos += 1;
+    }
+
+    private skipSpaces(): boolean {
+        const start = this.pos;
+        while (/\s/.test(this.peek() ?? '')) this.pos += 1;
+        return this.pos > start;
+    }
+
+    private peek(): string | undefined {
+        return this.source[this.pos];
+    }
+
+    private isIdentChar(char: string | undefined): boolean {
+        return char !== undefined && IDENT_CHAR.test(char);
+    }
+
+    private error(message: string): QuerySyntaxError {
+        return new QuerySyntaxError(message, this.source, this.pos);
+    }
+}
+
+function matchesComplex(obj: THREE.Object3D, selector: ComplexSelector, index: number, root: THREE.Object3D): boolean {
+    if (!matchesCompound(obj, selector.compounds[index], root)) return false;
+    if (index === 0) return true;
+
+    let ancestor = obj.parent;
+    if (selector.combinators[index - 1] === '>') {
+        return ancestor !== null && ancestor !== root && matchesComplex(ancestor, selector, index - 1, root);
+    }
+
+    while (ancestor && ancestor !== root) {
+        if (matchesComplex(ancestor, selector, index - 1, root)) return true;
+        ancestor = ancestor.parent;
+    }
+    return false;
+}
+
+function matchesCompound(obj: THREE.Object3D, compound: CompoundSelector, root: THREE.Object3D): boolean {
+    if (compound.type && obj.type !== compound.type && (obj as unknown as Record<string, unknown>)[`is${compound.type}`] !== true) {
+        return false;
+    }
+    if (compound.uuid && obj.uuid !== compound.uuid) return false;
+    if (!compound.attributes.every((test) => matchesAttribute(obj, test))) return false;
+
+    return compound.pseudos.every((pseudo) => {
+        switch (pseudo.kind) {
+            case 'visible':
+                return isVisibleWithin(obj, root);
+            case 'hidden':
+                return !isVisibleWithin(obj, root);
+            case 'layer':
+                return obj.layers.isEnabled(pseudo.layer);
+        }
+    });
+}
+
+function matchesAttribute(obj: THREE.Object3D, test: AttributeTest): boolean {
+    let value: unknown = obj;
+    for (const key of test.path) {
+        if (value === null || typeof value !== 'object') {
+            value = undefined;
+            break;
+        }
+        value = (value as Record<string, unknown>)[key];
+    }
+
+    if (!test.operator) return value !== undefined;
+    if (value === undefined || value === null || typeof value === 'object' || typeof value === 'function') {
+        return test.operator === '!=';
+    }
+
+    const actual = String(value);
+    const expected = test.value ?? '';
+    switch (test.operator) {
+        case '=':
+            return matchesGlob(actual, expected);
+        case '!=':
+            return !matchesGlob(actual, expected);
+        case '^=':
+            return actual.startsWith(expected);
+        case '$=':
+            return actual.endsWith(expected);
+        case '*=':
+            return actual.includes(expected);
+    }
+}
+
+function matchesGlob(value: string, pattern: string): boolean {
+    if (!/[*?]/.test(pattern)) return value === pattern;
+
+    const source = pattern
+        .split('')
+        .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+        .join('');
+    return new RegExp(`^${source}$`).test(value);
+}
+
+function isVisibleWithin(obj: THREE.Object3D, root: THREE.Object3D): boolean {
+    let current: THREE.Object3D | null = obj;
+    while (current && current !== root) {
+        if (!current.visible) return false;
+        current = current.parent;
+    }
+    return true;
+}
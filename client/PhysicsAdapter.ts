@@ -0,0 +1,63 @@
+/**
+ * PhysicsAdapter - Pluggable physics backend for MCPBridge
+ *
+ * MCPBridge does not own a physics engine. Pass an adapter through
+ * `MCPBridgeOptions.physics` to enable the physics commands
+ * (makePhysical, removePhysics, applyImpulse, setGravity).
+ *
+ * @example
+ * ```typescript
+ * import RAPIER from '@dimforge/rapier3d-compat';
+ * import { MCPBridge, RapierPhysicsAdapter } from 'threlte-mcp/client';
+ *
+ * await RAPIER.init();
+ * const bridge = new MCPBridge(scene, { physics: new RapierPhysicsAdapter(RAPIER) });
+ * ```
+ */
+
+import type * as THREE from 'three';
+
+export type Vec3Tuple = [number, number, number];
+
+export type RigidBodyType = 'dynamic' | 'kinematic' | 'static';
+
+export type ColliderType = 'cuboid' | 'ball' | 'hull' | 'trimesh' | 'auto';
+
+export interface RigidBodyOptions {
+    /** Body type (default: dynamic) */
+    type?: RigidBodyType;
+    /** Collider shape (default: auto) */
+    colliders?: ColliderType;
+    mass?: number;
+    friction?: number;
+    restitution?: number;
+    gravityScale?: number;
+}
+
+export interface RigidBodyVelocity {
+    linear: Vec3Tuple;
+    angular: Vec3Tuple;
+}
+
+export interface PhysicsAdapter {
+    /** Create a rigid body (replacing any existing one) for an object; throws and keeps the existing body if it cannot */
+    createBody(object: THREE.Object3D, options: RigidBodyOptions): void;
+    /** Remove the rigid body attached to an object, returns false if it had none */
+    removeBody(object: THREE.Object3D): boolean;
+    hasBody(object: THREE.Object3D): boolean;
+    /** Options the object's body was created with, or null if it has none */
+    getBodyOptions(object: THREE.Object3D): RigidBodyOptions | null;
+    /**
+     * Move an object's body to where the object now is and stop it, after the
+     * object was moved, rotated or scaled directly; returns false if it has none
+     */
+    syncBody(object: THREE.Object3D): boolean;
+    /** Apply an impulse to an object's body, returns false if it has none */
+    applyImpulse(object: THREE.Object3D, impulse: Vec3Tuple): boolean;
+    setGravity(gravity: Vec3Tuple): void;
+    getGravity(): Vec3Tuple;
+    getVelocity(object: THREE.Object3D): RigidBodyVelocity | null;
+    /** Advance the simulation by `delta` seconds and sync body transforms to objects */
+    step(delta: number): void;
+    dispose?(): void;
+}
@@ -0,0 +1,263 @@
+/**
+ * RapierPhysicsAdapter - PhysicsAdapter backed by @dimforge/rapier3d-compat
+ *
+ * The Rapier module is passed in rather than imported, so apps that do not
+ * use physics never pull in the WASM bundle. Call `RAPIER.init()` first.
+ */
+
+import * as THREE from 'three';
+import type RAPIER from '@dimforge/rapier3d-compat';
+import type {
+    ColliderType,
+    PhysicsAdapter,
+    RigidBodyOptions,
+    RigidBodyType,
+    RigidBodyVelocity,
+    Vec3Tuple,
+} from './PhysicsAdapter.js';
+
+type RapierModule = typeof RAPIER;
+
+interface BodyEntry {
+    body: RAPIER.RigidBody;
+    type: RigidBodyType;
+    options: RigidBodyOptions;
+    /** World scale the collider was built for */
+    scale: THREE.Vector3;
+}
+
+const DEFAULT_GRAVITY: Vec3Tuple = [0, -9.81, 0];
+
+export class RapierPhysicsAdapter implements PhysicsAdapter {
+    readonly world: RAPIER.World;
+    private rapier: RapierModule;
+    private bodies: Map<THREE.Object3D, BodyEntry> = new Map();
+
+    constructor(rapier: RapierModule, gravity: Vec3Tuple = DEFAULT_GRAVITY) {
+        this.rapier = rapier;
+        this.world = new rapier.World({ x: gravity[0], y: gravity[1], z: gravity[2] });
+    }
+
+    createBody(object: THREE.Object3D, options: RigidBodyOptions): void {
+        const type = options.type ?? 'dynamic';
+        object.updateWorldMatrix(true, true);
+        const position = new THREE.Vector3();
+        const quaternion = new THREE.Quaternion();
+        const scale = new THREE.Vector3();
+        object.matrixWorld.decompose(position, quaternion, scale);
+
+        const bodyDesc = createBodyDesc(this.rapier, type)
+            .setTranslation(position.x, position.y, position.z)
+            .setRotation({ x: quaternion.x, y: quaternion.y, z: quaternion.z, w: quaternion.w });
+        if (typeof options.gravityScale === 'number') {
+            bodyDesc.setGravityScale(options.gravityScale);
+        }
+
+        const colliderDesc = this.createColliderDesc(object, options.colliders ?? 'auto', position, quaternion, scale);
+        if (typeof options.mass === 'number') colliderDesc.setMass(options.mass);
+        if (typeof options.friction === 'number') colliderDesc.setFriction(options.friction);
+        if (typeof options.restitution === 'number') colliderDesc.setRestitution(options.restitution);
+
+        // Only replace the existing body once the new collider could be built
+        this.removeBody(object);
+        const body = this.world.createRigidBody(bodyDesc);
+        this.world.createCollider(colliderDesc, body);
+        this.bodies.set(object, { body, type, options: { ...options }, scale });
+    }
+
+    removeBody(object: THREE.Object3D): boolean {
+        const entry = this.bodies.get(object);
+        if (!entry) return false;
+
+        this.world.removeRigidBody(entry.body);
+        this.bodies.delete(object);
+        return true;
+    }
+
+    hasBody(object: THREE.Object3D): boolean {
+        return this.bodies.has(object);
+    }
+
+    getBodyOptions(object: THREE.Object3D): RigidBodyOptions | null {
+        const entry = this.bodies.get(object);
+        return entry ? { ...entry.options } : null;
+    }
+
+    syncBody(object: THREE.Object3D): boolean {
+        const entry = this.bodies.get(object);
+        if (!entry) return false;
+
+        object.updateWorldMatrix(true, false);
+        const position = new THREE.Vector3();
+        const quaternion = new THREE.Quaternion();
+        const scale = new THREE.Vector3();
+        object.matrixWorld.decompose(position, quaternion, scale);
+
+        // Colliders are sized at creation, so a new scale needs a new body
+        if (scale.distanceTo(entry.scale) > 1e-6) {
+            this.createBody(object, entry.options);
+            return true;
+        }
+
+        entry.body.setTranslation(position, true);
+        entry.body.setRotation(quaternion, true);
+        entry.body.setLinvel({ x: 0, y: 0, z: 0 }, true);
+        entry.body.setAngvel({ x: 0, y: 0, z: 0 }, true);
+        return true;
+    }
+
+    applyImpulse(object: THREE.Object3D, impulse: Vec3Tuple): boolean {
+        const entry = this.bodies.get(object);
+        if (!entry) return false;
+
+        entry.body.applyImpulse({ x: impulse[0], y: impulse[1], z: impulse[2] }, true);
+        return true;
+    }
+
+    setGravity(gravity: Vec3Tuple): void {
+        this.world.gravity = { x: gravity[0], y: gravity[1], z: gravity[2] };
+        for (const { body } of this.bodies.values()) {
+            body.wakeUp();
+        }
+    }
+
+    getGravity(): Vec3Tuple {
+        const { x, y, z } = this.world.gravity;
+        return [x, y, z];
+    }
+
+    getVelocity(object: THREE.Object3D): RigidBodyVelocity | null {
+        const entry = this.bodies.get(object);
+        if (!entry) return null;
+
+        const linear = entry.body.linvel();
+        const angular = entry.body.angvel();
+        return {
+            linear: [linear.x, linear.y, linear.z],
+            angular: [angular.x, angular.y, angular.z],
+        };
+    }
+
+    step(delta: number): void {
+        // Kinematic bodies follow their objects, so scene edits drive them
+        for (const [object, entry] of this.bodies) {
+            if (entry.type !== 'kinematic') continue;
+            object.updateWorldMatrix(true, false);
+            const position = new THREE.Vector3();
+            const quaternion = new THREE.Quaternion();
+            object.matrixWorld.decompose(position, quaternion, new THREE.Vector3());
+            entry.body.setNextKinematicTranslation(position);
+            entry.body.setNextKinematicRotation(quaternion);
+        }
+
+        this.world.timestep = delta;
+        this.world.step();
+
+        for (const [object, entry] of this.bodies) {
+            if (entry.type !== 'dynamic') continue;
+            const t = entry.body.translation();
+            const r = entry.body.rotation();
+            applyWorldTransform(object, new THREE.Vector3(t.x, t.y, t.z), new THREE.Quaternion(r.x, r.y, r.z, r.w));
+        }
+    }
+
+    dispose(): void {
+        this.bodies.clear();
+        this.world.free();
+    }
+
+    private createColliderDesc(
+        object: THREE.Object3D,
+        colliders: ColliderType,
+        position: THREE.Vector3,
+        quaternion: THREE.Quaternion,
+        scale: THREE.Vector3
+    ): RAPIER.ColliderDesc {
+        // Geometry in the body's frame: world space minus the body's translation/rotation, scale kept
+        const toBody = new THREE.Matrix4().compose(position, quaternion, new THREE.Vector3(1, 1, 1)).invert();
+
+        if (colliders === 'hull' || colliders === 'trimesh') {
+            const { vertices, indices } = collectGeometry(object, toBody);
+            if (vertices.length === 0) {
+                throw new Error(`Object has no mesh geometry for a ${colliders} collider: ${object.name}`);
+            }
+
+            if (colliders === 'trimesh') {
+                return this.rapier.ColliderDesc.trimesh(vertices, indices);
+            }
+            const hull = this.rapier.ColliderDesc.convexHull(vertices);
+            if (!hull) throw new Error(`Could not build a convex hull for: ${object.name}`);
+            return hull;
+        }
+
+        const box = new THREE.Box3();
+        const { vertices } = collectGeometry(object, toBody);
+        for (let i = 0; i < vertices.length; i += 3) {
+            box.expandByPoint(new THREE.Vector3(vertices[i], vertices[i + 1], vertices[i + 2]));
+        }
+        if (box.isEmpty()) {
+            // Non-mesh objects get a unit box at the object's scale
+            box.setFromCenterAndSize(new THREE.Vector3(), scale.clone());
+        }
+
+        const center = box.getCenter(new THREE.Vector3());
+        const size = box.getSize(new THREE.Vector3());
+
+        const desc = colliders === 'ball'
+            ? this.rapier.ColliderDesc.ball(Math.max(size.x, size.y, size.z) / 2)
+            : this.rapier.ColliderDesc.cuboid(size.x / 2, size.y / 2, size.z / 2);
+        return desc.setTranslation(center.x, center.y, center.z);
+    }
+}
+
+function createBodyDesc(rapier: RapierModule, type: RigidBodyType): RAPIER.RigidBodyDesc {
+    switch (type) {
+        case 'kinematic':
+            return rapier.RigidBodyDesc.kinematicPositionBased();
+        case 'static':
+            return rapier.RigidBodyDesc.fixed();
+        default:
+            return rapier.RigidBodyDesc.dynamic();
+    }
+}
+
+function collectGeometry(object: THREE.Object3D, toBody: THREE.Matrix4): { vertices: Float32Array; indices: Uint32Array } {
+    const vertices: number[] = [];
+    const indices: number[] = [];
+    const vertex = new THREE.Vector3();
+    const matrix = new THREE.Matrix4();
+
+    object.traverse((child) => {
+        const mesh = child as THREE.Mesh;
+        const positionAttr = mesh.isMesh ? mesh.geometry?.getAttribute('position') : undefined;
+        if (!positionAttr) return;
+
+        matrix.multiplyMatrices(toBody, mesh.matrixWorld);
+        const offset = vertices.length / 3;
+        for (let i = 0; i < positionAttr.count; i += 1) {
+            vertex.fromBufferAttribute(positionAttr, i).applyMatrix4(matrix);
+            vertices.push(vertex.x, vertex.y, vertex.z);
+        }
+
+        const index = mesh.geometry.getIndex();
+        if (index) {
+            for (let i = 0; i < index.count; i += 1) indices.push(offset + index.getX(i));
+        } else {
+            for (let i = 0; i < positionAttr.count; i += 1) indices.push(offset + i);
+        }
+    });
+
+    return { vertices: new Float32Array(vertices), indices: new Uint32Array(indices) };
+}
+
+function applyWorldTransform(object: THREE.Object3D, position: THREE.Vector3, quaternion: THREE.Quaternion): void {
+    if (object.parent) {
+        object.parent.updateWorldMatrix(true, false);
+        object.position.copy(object.parent.worldToLocal(position));
+        const parentQuaternion = object.parent.getWorldQuaternion(new THREE.Quaternion());
+        object.quaternion.copy(parentQuaternion.invert().multiply(quaternion));
+    } else {
+        object.position.copy(position);
+        object.quaternion.copy(quaternion);
+    }
+}
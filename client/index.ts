@@ -14,5 +14,66 @@
  * ```
  */
 
-export { MCPBridge, getMCPBridge, type MCPBridgeOptions } from './MCPBridge.js';
+export {
+    AmbiguousSelectorError,
+    MCPBridge,
+    getMCPBridge,
+    type AffectedObject,
+    type CameraControls,
+    type CameraProjection,
+    type FrameResult,
+    type LensProperty,
+    type LensValues,
+    type MCPBridgeOptions,
+    type ObjectInspection,
+    type ObjectSelector,
+    type ObjectSelectorFields,
+    type PerformanceStats,
+    type RaycastHit,
+    type SpatialObjectData,
+    type SceneEvent,
+    type SceneNodeChanges,
+    type SceneNodeData,
+    type SceneSnapshot,
+    type SceneSnapshotMaterial,
+    type SceneSnapshotObject,
+    type SelectorCandidate,
+    type ServerInfo,
+    type SnapshotRestoreResult,
+    type SourceObjectState,
+    type SpawnRecord,
+} from './MCPBridge.js';
+export {
+    BRIDGE_PROTOCOL_VERSION,
+    PACKAGE_VERSION,
+    formatIssues,
+    validateCommand,
+    validateResponse,
+    type ActionName,
+    type BridgeCommand,
+    type BridgeFailure,
+    type CommandOf,
+    type ResponseOf,
+    type ValidationIssue,
+} from '../src/protocol.js';
+export {
+    EASINGS,
+    createCameraPath,
+    sampleCameraPath,
+    type CameraCurveType,
+    type CameraPath,
+    type CameraPathSample,
+    type CameraPathSpec,
+    type EasingName,
+} from './CameraPath.js';
+export { parseQuery, queryObjects, QuerySyntaxError, type ObjectQuery } from './ObjectQuery.js';
+export { RapierPhysicsAdapter } from './RapierPhysicsAdapter.js';
+export type {
+    ColliderType,
+    PhysicsAdapter,
+    RigidBodyOptions,
+    RigidBodyType,
+    RigidBodyVelocity,
+    Vec3Tuple,
+} from './PhysicsAdapter.js';
 export { default as MCPBridgeComponent } from './MCPBridge.svelte';
@@ -0,0 +1,20 @@
+import { readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+// The client build compiles src/protocol.ts next to itself (dist/src); point the
+// client at the server build's dist/protocol.js instead, so one copy ships
+const root = process.cwd();
+const clientDir = join(root, 'dist', 'client');
+
+const entries = await readdir(clientDir, { withFileTypes: true });
+const rewriteTasks = entries
+    .filter((entry) => entry.isFile() && (entry.name.endsWith('.js') || entry.name.endsWith('.d.ts')))
+    .map(async (entry) => {
+        const file = join(clientDir, entry.name);
+        const text = await readFile(file, 'utf8');
+        const linked = text.replaceAll("'../src/protocol.js'", "'../protocol.js'");
+        if (linked !== text) await writeFile(file, linked);
+    });
+
+await Promise.all(rewriteTasks);
+await rm(join(root, 'dist', 'src'), { recursive: true, force: true });
@@ -6,99 +6,116 @@
  */
 
 import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import {
+    BRIDGE_PROTOCOL_VERSION,
+    ProtocolError,
+    formatIssues,
+    validateClientMessage,
+    validateCommand,
+    validateResponse,
+    type ActionName,
+    type BridgeCommand,
+    type FailureOf,
+    type ClientMessage,
+    type ClientMessageOf,
+    type ClientModule,
+    type CommandOf,
+    type ResponseOf,
+    type ServerMessage,
+} from './protocol.js';
+import { SceneMirror, type SceneChangeListener, type SceneEvent } from './scene-mirror.js';
 
-export interface MCPCommand {
-    action: string;
-    requestId?: string;
-    maxDepth?: number;
-    name?: string;
+/**
+ * Message the client pushes on its own, other than the handshake and scene sync (e.g. cameraPathProgress)
+ */
+export type ClientEvent = Exclude<ClientMessage, { type: 'hello' | 'sceneSnapshot' | 'sceneEvents' }>;
+
+/**
+ * Selects one object for a command. uuid is stable; path and name fail with
+ * an ambiguity error listing candidates when they match several objects.
+ * `selector` is a query (e.g. `Mesh[name^=Tree]`) that mutating commands
+ * apply to every match.
+ */
+export interface ObjectSelector {
+    uuid?: string;
     path?: string;
-    position?: number[];
-    rotation?: number[];
-    scale?: number[];
-    lookAt?: number[];
-    fov?: number;
-    near?: number;
-    far?: number;
-    filter?: {
-        nameContains?: string;
-        type?: string;
-        hasUserData?: string;
-    };
-    id?: string;
-    type?: string;
-    material?: { color?: string; metalness?: number; roughness?: number };
-    parent?: string;
-    visible?: boolean;
-    newName?: string;
-    offset?: number[];
-    colliders?: string;
-    mass?: number;
-    friction?: number;
-    restitution?: number;
-    gravityScale?: number;
-    vector?: number[];
-    url?: string;
-    preset?: string;
-    prop?: string;
-    value?: string | number | boolean;
-    background?: string;
-    color?: string;
-    sheet?: string;
-    sequence?: string;
-    rate?: number;
-    range?: [number, number];
-    reverse?: boolean;
-    time?: number;
-    object?: string;
-    key?: string;
-    event?: string;
-    payload?: object;
-    questId?: string;
-    status?: string;
-    progress?: number;
-    category?: string;
-    vibe?: string;
-    targets?: string;
-    properties?: string[];
-    intensity?: number;
-    animate?: boolean;
-    duration?: number;
+    name?: string;
+    selector?: string;
 }
 
 interface PendingRequest {
+    clientId: string;
     resolve: (value: unknown) => void;
     reject: (reason: Error) => void;
     timeout: NodeJS.Timeout;
 }
 
+/**
+ * A connected app, as announced in its hello message
+ */
+export interface ClientInfo {
+    id: string;
+    /** Defaults to the id until the client says hello */
+    name: string;
+    url?: string;
+    canvasId?: string;
+    connectedAt: number;
+    /** Missing for clients that predate the handshake */
+    protocolVersion?: number;
+    /** threlte-mcp version of the client build */
+    version?: string;
+    /** Actions the client handles; unknown (assume all) for clients that predate the handshake */
+    actions?: string[];
+    modules?: Partial<Record<ClientModule, boolean>>;
+}
+
+interface BridgeClient {
+    info: ClientInfo;
+    ws: WebSocket;
+    mirror: SceneMirror;
+}
+
 export interface BridgeServerOptions {
     port?: number;
     commandTimeout?: number;
+    /** Max incoming message size in bytes, screenshots arrive as dataURLs (default: 64 MiB) */
+    maxPayload?: number;
+    /** threlte-mcp version sent to clients in the handshake */
+    version?: string;
 }
 
 export class BridgeServer {
     private wss: WebSocketServer | null = null;
-    private client: WebSocket | null = null;
+    /** In connection order, so the last one is the default target */
+    private clients: Map<string, BridgeClient> = new Map();
+    private clientCount = 0;
     private pendingRequests: Map<string, PendingRequest> = new Map();
     private requestId = 0;
-    private lastSceneState: unknown = null;
+    /** Stands in for a mirror while no client is connected */
+    private emptyMirror = new SceneMirror();
+    private sceneListeners: Set<SceneChangeListener> = new Set();
+    private eventListeners: Set<(event: ClientEvent, client: ClientInfo) => void> = new Set();
+    private clientListeners: Set<() => void> = new Set();
     private listening = false;
     private lastError: string | null = null;
     private startupError: string | null = null;
     private port: number;
     private commandTimeout: number;
+    private maxPayload: number;
+    private version: string;
 
     constructor(options: BridgeServerOptions = {}) {
         this.port = options.port ?? 8083;
         this.commandTimeout = options.commandTimeout ?? 5000;
+        this.maxPayload = options.maxPayload ?? 64 * 1024 * 1024;
+        this.version = options.version ?? 'unknown';
         this.startServer();
     }
 
     private startServer() {
         try {
             console.error(`[BridgeServer] Starting WebSocket server on port ${this.port}...`);
-            this.wss = new WebSocketServer({ port: this.port });
+            this.wss = new WebSocketServer({ port: this.port, maxPayload: this.maxPayload });
 
             this.wss.on('listening', () => {
                 console.error(`[BridgeServer] WebSocket server listening on port ${this.port}`);
@@ -107,21 +124,21 @@ export class BridgeServer {
             });
 
             this.wss.on('connection', (ws: WebSocket) => {
-                console.error('[BridgeServer] Game client connected');
-                this.client = ws;
+                const client = this.addClient(ws);
+                console.error(`[BridgeServer] Game client connected (${client.info.id})`);
 
                 ws.on('message', (data: RawData) => {
                     try {
                         const message = JSON.parse(data.toString());
-                        this.handleMessage(message);
+                        this.handleMessage(client, message);
                     } catch (error) {
                         console.error('[BridgeServer] Failed to parse message:', error);
                     }
                 });
 
                 ws.on('close', () => {
-                    console.error('[BridgeServer] Game client disconnected');
-                    this.client = null;
+                    console.error(`[BridgeServer] Game client disconnected (${client.info.id})`);
+                    this.removeClient(client);
                 });
 
                 ws.on('error', (error) => {
@@ -142,19 +159,103 @@ export class BridgeServer {
         }
     }
 
+    private addClient(ws: WebSocket): BridgeClient {
+        const id = `client_${++this.clientCount}`;
+        const client: BridgeClient = {
+            info: { id, name: id, connectedAt: Date.now() },
+            ws,
+            mirror: new SceneMirror(),
+        };
+
+        client.mirror.onChange((events) => {
+            if (this.getDefaultClient() === client) this.emitSceneChange(events);
+        });
+        this.clients.set(id, client);
+        // The new client is the default now, replacing whatever scene was mirrored
+        this.emitSceneChange(null);
+        this.emitClientsChange();
+        return client;
+    }
+
+    private removeClient(client: BridgeClient) {
+        if (this.clients.get(client.info.id) !== client) return;
+
+        const wasDefault = this.getDefaultClient() === client;
+        this.clients.delete(client.info.id);
+
+        // Its replies will never come
+        for (const [requestId, pending] of this.pendingRequests) {
+            if (pending.clientId !== client.info.id) continue;
+            clearTimeout(pending.timeout);
+            this.pendingRequests.delete(requestId);
+            pending.reject(new Error(`Client "${client.info.name}" disconnected`));
+        }
+
+        if (wasDefault) this.emitSceneChange(null);
+        this.emitClientsChange();
+    }
+
+    private getDefaultClient(): BridgeClient | undefined {
+        let last: BridgeClient | undefined;
+        for (const client of this.clients.values()) last = client;
+        return last;
+    }
+
+    /**
+     * Client by id or name (the most recent of that name), or the default client
+     */
+    private resolveClient(target?: string): BridgeClient | undefined {
+        if (!target) return this.getDefaultClient();
+
+        const byId = this.clients.get(target);
+        if (byId) return byId;
+
+        let match: BridgeClient | undefined;
+        for (const client of this.clients.values()) {
+            if (client.info.name === target) match = client;
+        }
+        return match;
+    }
+
+    private isOpen(client: BridgeClient | undefined): client is BridgeClient {
+        return client !== undefined && client.ws.readyState === WebSocket.OPEN;
+    }
+
     getStatus() {
+        const client = this.getDefaultClient();
         return {
             listening: this.listening,
             port: this.port,
-            connected: this.client !== null && this.client.readyState === WebSocket.OPEN,
+            connected: this.isOpen(client),
+            clients: this.clients.size,
+            defaultClient: client?.info.id ?? null,
+            mirroredObjects: client?.mirror.hasData() ? client.mirror.size : null,
             startupError: this.startupError,
             lastError: this.lastError,
             pendingRequests: this.pendingRequests.size
         };
     }
 
-    isConnected(): boolean {
-        return this.client !== null && this.client.readyState === WebSocket.OPEN;
+    /**
+     * Connected clients, oldest first; the last one is the default target
+     */
+    listClients(): ClientInfo[] {
+        return [...this.clients.values()].map((client) => cloneInfo(client.info));
+    }
+
+    /**
+     * The client a target (id or name) resolves to; the default client without one
+     */
+    getClientInfo(target?: string): ClientInfo | null {
+        const client = this.resolveClient(target);
+        return client ? cloneInfo(client.info) : null;
+    }
+
+    /**
+     * Whether the given client (id or name), or any client, is connected
+     */
+    isConnected(target?: string): boolean {
+        return this.isOpen(this.resolveClient(target));
     }
 
     async waitForConnection(timeoutMs = 10000): Promise<void> {
@@ -179,9 +280,70 @@ export class BridgeServer {
         return this.waitForConnection();
     }
 
-    private handleMessage(message: unknown) {
-        if (typeof message === 'object' && message !== null && 'data' in message) {
-            this.lastSceneState = message;
+    /**
+     * Live copy of a client scene (default: the default client's), kept current
+     * by pushed change events
+     */
+    getSceneMirror(target?: string): SceneMirror {
+        return this.resolveClient(target)?.mirror ?? this.emptyMirror;
+    }
+
+    /**
+     * Called with the default client's scene changes, and with null when the
+     * default client changes; returns an unsubscribe function
+     */
+    onSceneChange(listener: SceneChangeListener): () => void {
+        this.sceneListeners.add(listener);
+        return () => this.sceneListeners.delete(listener);
+    }
+
+    /**
+     * Called for every client event; returns an unsubscribe function
+     */
+    onClientEvent(listener: (event: ClientEvent, client: ClientInfo) => void): () => void {
+        this.eventListeners.add(listener);
+        return () => this.eventListeners.delete(listener);
+    }
+
+    /**
+     * Called when a client connects, says hello or disconnects; returns an unsubscribe function
+     */
+    onClientsChange(listener: () => void): () => void {
+        this.clientListeners.add(listener);
+        return () => this.clientListeners.delete(listener);
+    }
+
+    private emitClientsChange() {
+        this.clientListeners.forEach((listener) => listener());
+    }
+
+    private emitSceneChange(events: SceneEvent[] | null) {
+        this.sceneListeners.forEach((listener) => listener(events));
+    }
+
+    private handleMessage(client: BridgeClient, message: unknown) {
+        if (typeof message === 'object' && message !== null && 'type' in message && !('requestId' in message)) {
+            const checked = validateClientMessage(message);
+            if (!checked.ok) {
+                console.error(`[BridgeServer] Ignoring invalid ${String(message.type)} message from ${client.info.id}: ${formatIssues(checked.issues)}`);
+                return;
+            }
+
+            const typed = checked.value;
+            switch (typed.type) {
+                case 'hello':
+                    this.applyHello(client, typed);
+                    break;
+                case 'sceneSnapshot':
+                    client.mirror.applySnapshot(typed.objects);
+                    break;
+                case 'sceneEvents':
+                    client.mirror.applyEvents(typed.events);
+                    break;
+                default:
+                    this.eventListeners.forEach((listener) => listener(typed, client.info));
+            }
+            return;
         }
 
         if (
@@ -191,7 +353,7 @@ export class BridgeServer {
         ) {
             const { requestId, ...data } = message as { requestId: string } & Record<string, unknown>;
             const pending = this.pendingRequests.get(requestId);
-            if (pending) {
+            if (pending && pending.clientId === client.info.id) {
                 clearTimeout(pending.timeout);
                 this.pendingRequests.delete(requestId);
                 pending.resolve(data);
@@ -199,9 +361,60 @@ export class BridgeServer {
         }
     }
 
-    async sendCommand(command: MCPCommand): Promise<unknown> {
-        if (!this.isConnected()) {
-            throw new Error('No game client connected');
+    private applyHello(client: BridgeClient, hello: ClientMessageOf<'hello'>) {
+        const info = client.info;
+        info.name = hello.name || info.id;
+        info.url = hello.url || undefined;
+        info.canvasId = hello.canvasId || undefined;
+        info.protocolVersion = hello.protocolVersion;
+        info.version = hello.version || undefined;
+        info.actions = hello.actions;
+        info.modules = hello.modules;
+
+        const compatible = info.protocolVersion === BRIDGE_PROTOCOL_VERSION;
+        console.error(
+            `[BridgeServer] ${info.id} is "${info.name}"${info.url ? ` at ${info.url}` : ''}` +
+            ` (threlte-mcp ${info.version ?? 'unknown'}, protocol ${info.protocolVersion ?? 'none'})`
+        );
+        if (!compatible) {
+            console.error(`[BridgeServer] ${info.id} does not speak bridge protocol ${BRIDGE_PROTOCOL_VERSION}; update threlte-mcp in the app`);
+        }
+
+        const welcome: ServerMessage = {
+            type: 'welcome',
+            protocolVersion: BRIDGE_PROTOCOL_VERSION,
+            version: this.version,
+            clientId: info.id,
+            compatible,
+        };
+        client.ws.send(JSON.stringify(welcome));
+        this.emitClientsChange();
+    }
+
+    /**
+     * Send a command to a client (id or name; default: the most recently connected).
+     * Throws a ProtocolError when the command or the client's response does not
+     * match the protocol.
+     */
+    async sendCommand<A extends ActionName>(
+        command: CommandOf<A>,
+        timeoutMs = this.commandTimeout,
+        target?: string
+    ): Promise<ResponseOf<A> | FailureOf<A>> {
+        const checked = validateCommand(command);
+        if (!checked.ok) {
+            throw new ProtocolError(`Invalid ${command.action} command`, checked.issues);
+        }
+        const sent = checked.value;
+
+        const client = this.resolveClient(target);
+        if (!this.isOpen(client)) {
+            throw new Error(target ? `No connected client "${target}", see list_clients` : 'No game client connected');
+        }
+        if (client.info.actions && !client.info.actions.includes(command.action)) {
+            throw new Error(
+                `Client "${client.info.name}" (threlte-mcp ${client.info.version ?? 'unknown'}) does not support ${command.action}; update threlte-mcp in the app`
+            );
         }
 
         const requestId = `req_${++this.requestId}`;
@@ -209,22 +422,27 @@ export class BridgeServer {
         return new Promise((resolve, reject) => {
             const timeout = setTimeout(() => {
                 this.pendingRequests.delete(requestId);
-                if (command.action === 'getFullSceneState' || command.action === 'findObjects') {
-                    resolve(this.lastSceneState);
+                // The mirror answers scene queries while it has data
+                const mirrored = this.answerFromMirror(client, sent);
+                if (mirrored) {
+                    settle(mirrored);
                 } else {
                     reject(new Error('Command timeout'));
                 }
-            }, this.commandTimeout);
+            }, timeoutMs);
 
-            this.pendingRequests.set(requestId, { resolve, reject, timeout });
+            const settle = (response: unknown) => {
+                const result = validateResponse(command.action, response);
+                if (result.ok) {
+                    resolve(result.value);
+                } else {
+                    reject(new ProtocolError(`Invalid ${command.action} response from client "${client.info.name}"`, result.issues));
+                }
+            };
+            this.pendingRequests.set(requestId, { clientId: client.info.id, resolve: settle, reject, timeout });
 
             try {
-                this.client!.send(
-                    JSON.stringify({
-                        ...command,
-                        requestId,
-                    })
-                );
+                client.ws.send(JSON.stringify({ ...sent, requestId }));
             } catch (error) {
                 clearTimeout(timeout);
                 this.pendingRequests.delete(requestId);
@@ -233,12 +451,27 @@ export class BridgeServer {
         });
     }
 
+    private answerFromMirror(client: BridgeClient, command: BridgeCommand): ResponseOf<'getFullSceneState'> | null {
+        if (!client.mirror.hasData()) return null;
+
+        if (command.action === 'getFullSceneState') {
+            return { success: true, data: client.mirror.getSceneState(command.maxDepth), source: 'mirror' };
+        }
+        if (command.action === 'findObjects') {
+            // The mirror has no userData or layers, so selectors and userData filters cannot fall back to it
+            if (command.selector || command.filter?.hasUserData) return null;
+            return { success: true, data: client.mirror.findObjects({ name: command.name, ...command.filter }), source: 'mirror' };
+        }
+        return null;
+    }
+
     close() {
         if (this.wss) {
             this.wss.close();
             this.wss = null;
         }
-        this.client = null;
+        this.clients.clear();
+        this.emitSceneChange(null);
         this.pendingRequests.forEach((req) => {
             clearTimeout(req.timeout);
             req.reject(new Error('Server closed'));
@@ -246,3 +479,11 @@ export class BridgeServer {
         this.pendingRequests.clear();
     }
 }
+
+function cloneInfo(info: ClientInfo): ClientInfo {
+    return {
+        ...info,
+        actions: info.actions ? [...info.actions] : undefined,
+        modules: info.modules ? { ...info.modules } : undefined,
+    };
+}
@@ -1,32 +1,199 @@
 /**
  * Camera Preset System
  *
- * Manages saving and loading camera positions for quick scene navigation
- * Presets are stored in-memory and can optionally be persisted to localStorage
+ * Manages saving and loading camera positions and fly-through paths for quick
+ * scene navigation. Presets and paths live in memory and, once a file is
+ * attached with useFile(), are persisted to it (.threlte-mcp/camera-presets.json
+ * by default). Hand edits to the file are picked up by a watcher.
  */
 
+import { existsSync, mkdirSync, readFileSync, renameSync, watch, writeFileSync, type FSWatcher } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import type { CameraPathSpec } from './protocol.js';
+
+export type CameraProjection = 'perspective' | 'orthographic';
+
 export interface CameraPreset {
   name: string;
   position: [number, number, number];
   lookAt?: [number, number, number];
+  /** Camera type to switch to when loading; kept as is when missing */
+  projection?: CameraProjection;
+  /** PerspectiveCamera only */
   fov?: number;
   near?: number;
   far?: number;
+  zoom?: number;
+  /** OrthographicCamera frustum bounds */
+  left?: number;
+  right?: number;
+  top?: number;
+  bottom?: number;
   timestamp?: number;
   description?: string;
 }
 
+export const LENS_KEYS = ['fov', 'near', 'far', 'zoom', 'left', 'right', 'top', 'bottom'] as const;
+
+export type CameraLens = Pick<CameraPreset, (typeof LENS_KEYS)[number]>;
+
+/**
+ * The numeric lens values in `source`, e.g. a camera state reported by the client
+ */
+export function pickLens(source: object): CameraLens {
+  const lens: CameraLens = {};
+  for (const key of LENS_KEYS) {
+    const value = (source as Record<string, unknown>)[key];
+    if (typeof value === 'number' && Number.isFinite(value)) lens[key] = value;
+  }
+  return lens;
+}
+
+// Camera path as the client plays it
+export type { CameraPathSpec };
+
+/**
+ * Saved camera path: through explicit points, or through presets, which also
+ * supply the lookAt and fov tracks unless they are given
+ */
+export interface CameraPathDefinition extends Omit<CameraPathSpec, 'points'> {
+  name: string;
+  points?: number[][];
+  presets?: string[];
+  description?: string;
+  timestamp?: number;
+}
+
 export interface CameraPresetCollection {
   presets: Record<string, CameraPreset>;
+  paths?: Record<string, CameraPathDefinition>;
   lastModified: number;
 }
 
+export const DEFAULT_PRESETS_FILE = join('.threlte-mcp', 'camera-presets.json');
+
+// Editors often save in several steps; reload once they settle
+const RELOAD_DELAY = 100;
+
+/**
+ * Parse and validate a CameraPresetCollection; `source` names it in errors
+ */
+export function parsePresetCollection(text: string, source: string): CameraPresetCollection {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${source}: ${(error as Error).message}`);
+  }
+
+  const presets = (data as Partial<CameraPresetCollection> | null)?.presets;
+  if (typeof presets !== 'object' || presets === null || Array.isArray(presets)) {
+    throw new Error(`${source} has no "presets" object`);
+  }
+
+  const isVector = (value: unknown) =>
+    Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === 'number' && Number.isFinite(n));
+
+  for (const [name, preset] of Object.entries(presets)) {
+    if (!isVector(preset?.position)) {
+      throw new Error(`Preset "${name}" in ${source} needs a position of 3 numbers`);
+    }
+    if (preset.lookAt !== undefined && !isVector(preset.lookAt)) {
+      throw new Error(`Preset "${name}" in ${source} has an invalid lookAt`);
+    }
+    if (preset.projection !== undefined && preset.projection !== 'perspective' && preset.projection !== 'orthographic') {
+      throw new Error(`Preset "${name}" in ${source} has an invalid projection, use perspective or orthographic`);
+    }
+    preset.name = name;
+  }
+
+  const paths = (data as Partial<CameraPresetCollection>).paths ?? {};
+  if (typeof paths !== 'object' || paths === null || Array.isArray(paths)) {
+    throw new Error(`${source} has an invalid "paths" entry`);
+  }
+  for (const [name, path] of Object.entries(paths)) {
+    if (!Array.isArray(path?.points) && !Array.isArray(path?.presets)) {
+      throw new Error(`Path "${name}" in ${source} needs points or presets`);
+    }
+    path.name = name;
+  }
+
+  return { presets, paths, lastModified: (data as CameraPresetCollection).lastModified ?? Date.now() };
+}
+
+/**
+ * Write a file so readers never see it half-written
+ */
+export function writeFileAtomic(file: string, text: string): void {
+  mkdirSync(dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  writeFileSync(temp, text, 'utf-8');
+  renameSync(temp, file);
+}
+
+type PresetChangeListener = () => void;
+
 /**
- * In-memory preset storage
- * Will be synced with browser-side storage via WebSocket
+ * Preset storage, in memory until a file is attached
  */
 class CameraPresetManager {
   private presets: Map<string, CameraPreset> = new Map();
+  private paths: Map<string, CameraPathDefinition> = new Map();
+  private file: string | null = null;
+  private watchFile = false;
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
+  /** Last text read or written, so our own writes don't trigger a reload */
+  private lastText: string | null = null;
+  private listeners: Set<PresetChangeListener> = new Set();
+
+  /**
+   * Load presets from a file and persist every change to it. When the file
+   * exists it replaces the current presets; otherwise it is created on the
+   * first change. Throws, leaving presets in memory only, if the file is invalid.
+   */
+  useFile(file: string = DEFAULT_PRESETS_FILE, options: { watch?: boolean } = {}): void {
+    this.close();
+    this.file = resolve(file);
+    this.lastText = null;
+
+    try {
+      this.reload();
+    } catch (error) {
+      // Never overwrite a file we could not read
+      this.file = null;
+      throw error;
+    }
+
+    this.watchFile = options.watch ?? true;
+    this.startWatching();
+  }
+
+  /**
+   * Path of the attached preset file, if any
+   */
+  getFile(): string | null {
+    return this.file;
+  }
+
+  /**
+   * Called after presets change on disk
+   */
+  onChange(listener: PresetChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Stop watching the attached file
+   */
+  close(): void {
+    this.watchFile = false;
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    this.reloadTimer = null;
+  }
 
   /**
    * Save a camera preset
@@ -34,6 +201,7 @@ class CameraPresetManager {
   savePreset(preset: CameraPreset): void {
     preset.timestamp = Date.now();
     this.presets.set(preset.name, preset);
+    this.persist();
   }
 
   /**
@@ -56,37 +224,166 @@ class CameraPresetManager {
    * Delete a preset
    */
   deletePreset(name: string): boolean {
-    return this.presets.delete(name);
+    const deleted = this.presets.delete(name);
+    if (deleted) this.persist();
+    return deleted;
+  }
+
+  /**
+   * Save a camera path
+   */
+  savePath(path: CameraPathDefinition): void {
+    path.timestamp = Date.now();
+    this.paths.set(path.name, path);
+    this.persist();
+  }
+
+  /**
+   * Load a camera path by name
+   */
+  loadPath(name: string): CameraPathDefinition | undefined {
+    return this.paths.get(name);
+  }
+
+  /**
+   * List all saved paths
+   */
+  listPaths(): CameraPathDefinition[] {
+    return Array.from(this.paths.values()).sort((a, b) =>
+      (b.timestamp || 0) - (a.timestamp || 0)
+    );
+  }
+
+  /**
+   * Delete a path
+   */
+  deletePath(name: string): boolean {
+    const deleted = this.paths.delete(name);
+    if (deleted) this.persist();
+    return deleted;
   }
 
   /**
-   * Import presets from JSON
+   * Turn a path definition into the spec the client plays, reading preset positions
    */
-  importPresets(data: CameraPresetCollection): void {
+  resolvePath(path: Omit<CameraPathDefinition, 'name'>): CameraPathSpec {
+    const { presets: presetNames, points, description, timestamp, ...options } = path;
+    if (!presetNames) {
+      if (!points) throw new Error('A camera path needs points or presets');
+      return { ...options, points };
+    }
+
+    const missing = presetNames.filter((name) => !this.presets.has(name));
+    if (missing.length > 0) {
+      throw new Error(`Missing presets: ${missing.join(', ')}`);
+    }
+
+    const presets = presetNames.map((name) => this.presets.get(name)!);
+    const lookAts = presets.map((preset) => preset.lookAt);
+    const fovs = presets.map((preset) => preset.fov);
+    return {
+      ...options,
+      points: presets.map((preset) => preset.position),
+      lookAt: options.lookAt ?? (lookAts.every((lookAt) => lookAt) ? lookAts as number[][] : undefined),
+      fov: options.fov ?? (fovs.every((fov) => fov !== undefined) ? fovs as number[] : undefined),
+    };
+  }
+
+  /**
+   * Import presets and paths from JSON, replacing all current ones if `replace` is set
+   */
+  importPresets(data: CameraPresetCollection, replace = false): void {
+    if (replace) {
+      this.presets.clear();
+      this.paths.clear();
+    }
     for (const [name, preset] of Object.entries(data.presets)) {
-      this.presets.set(name, preset);
+      this.presets.set(name, { ...preset, name });
+    }
+    for (const [name, path] of Object.entries(data.paths ?? {})) {
+      this.paths.set(name, { ...path, name });
     }
+    this.persist();
   }
 
   /**
-   * Export presets to JSON
+   * Export presets and paths to JSON
    */
   exportPresets(): CameraPresetCollection {
-    const presets: Record<string, CameraPreset> = {};
-    for (const [name, preset] of this.presets) {
-      presets[name] = preset;
-    }
     return {
-      presets,
+      presets: Object.fromEntries(this.presets),
+      paths: Object.fromEntries(this.paths),
       lastModified: Date.now()
     };
   }
 
   /**
-   * Clear all presets
+   * Clear all presets and paths
    */
   clear(): void {
     this.presets.clear();
+    this.paths.clear();
+    this.persist();
+  }
+
+  private persist(): void {
+    if (!this.file) return;
+
+    const text = JSON.stringify(this.exportPresets(), null, 2);
+    writeFileAtomic(this.file, text);
+    this.lastText = text;
+    // The directory may only exist now
+    this.startWatching();
+  }
+
+  private reload(): void {
+    if (!this.file) return;
+
+    let text: string;
+    try {
+      text = readFileSync(this.file, 'utf-8');
+    } catch (error) {
+      // Deleted or mid-rename; the next event brings the new file
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    if (text === this.lastText) return;
+
+    const collection = parsePresetCollection(text, this.file);
+    this.lastText = text;
+    this.presets = new Map(Object.entries(collection.presets));
+    this.paths = new Map(Object.entries(collection.paths ?? {}));
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private startWatching(): void {
+    if (!this.file || !this.watchFile || this.watcher || !existsSync(dirname(this.file))) return;
+
+    // Watch the directory: atomic writes replace the file, which ends a watch on the file itself
+    const name = basename(this.file);
+    try {
+      this.watcher = watch(dirname(this.file), (_event, changed) => {
+        if (changed !== null && changed !== name) return;
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          try {
+            this.reload();
+          } catch (error) {
+            console.error('[CameraPresets] Ignoring unreadable preset file:', (error as Error).message);
+          }
+        }, RELOAD_DELAY);
+      });
+      // Don't keep the process alive just for the watcher
+      this.watcher.unref();
+      this.watcher.on('error', (error) => {
+        console.error('[CameraPresets] Watcher error:', error);
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch (error) {
+      console.error('[CameraPresets] Could not watch preset file:', error);
+    }
   }
 }
 
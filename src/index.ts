@@ -13,17 +13,119 @@
  *   2. MCPBridge connects to ws://localhost:8082
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFile } from 'node:fs/promises';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
     CallToolRequestSchema,
     ListToolsRequestSchema,
+    type CallToolResult,
     type Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { BridgeServer } from './bridge-server.js';
+import { BridgeServer, type ClientInfo, type ObjectSelector } from './bridge-server.js';
+import {
+    EASING_NAMES,
+    formatIssues,
+    PRIMITIVE_TYPES,
+    type ActionName,
+    type AffectedObject,
+    type BridgeCommand,
+    type BridgeFailure,
+    type ClientModule,
+    type CommandOf,
+    type FailureOf,
+    type PrimitiveType,
+    type ResponseOf,
+} from './protocol.js';
+import { validateToolArguments, type JsonSchema } from './tool-arguments.js';
 import { analyzeGltf, optimizeGltf, validateGltf } from './gltf-tools.js';
-import { cameraPresets, type CameraPreset } from './camera-presets.js';
+import {
+    cameraPresets,
+    DEFAULT_PRESETS_FILE,
+    parsePresetCollection,
+    pickLens,
+    writeFileAtomic,
+    type CameraPathDefinition,
+    type CameraPreset,
+    type CameraProjection,
+} from './camera-presets.js';
+import { sceneSnapshots } from './scene-snapshots.js';
 import { exportToSvelte } from './svelte-generator.js';
+import { commitChangesToSource } from './source-writer.js';
+import { PRESETS_URI, registerSceneResources } from './scene-resources.js';
+
+// Object-targeting tools accept any one of these next to the name; uuid wins over path, path over name
+const SELECTOR_PROPERTIES = {
+    uuid: { type: 'string', description: 'Object uuid as reported by scene queries (stable across renames)' },
+    path: { type: 'string', description: 'Slash path of names (types for unnamed objects), as reported by scene queries' },
+};
+
+const QUERY_DESCRIPTION = 'CSS-like object query, e.g. Mesh[name^=Tree][userData.team=red] > PointLight, #<uuid>, [name=Rock_*], :visible, :layer(1)';
+
+// Mutating tools that apply to every object matched by a query
+const QUERY_PROPERTY = {
+    selector: { type: 'string', description: `${QUERY_DESCRIPTION}. Applies to every match, as one undo entry` },
+};
+
+// A fixed number of numbers, such as [x, y, z]
+const vector = (length: number, description: string) => ({ type: 'array', items: { type: 'number' }, minItems: length, maxItems: length, description });
+
+// Every tool's structuredContent: success, the error when it failed, and the tool's own fields
+const output = (properties: Record<string, object> = {}) => ({
+    type: 'object' as const,
+    properties: {
+        success: { type: 'boolean' },
+        error: { type: 'string', description: 'What went wrong, when success is false' },
+        ...properties,
+    },
+    required: ['success'],
+});
+
+const VECTOR_OUTPUT = { type: 'array', items: { type: 'number' } };
+
+// Objects a query found; `properties` are the fields besides the ids
+const objectList = (description: string, properties: Record<string, object> = {}) => ({
+    type: 'array',
+    description,
+    items: {
+        type: 'object',
+        properties: { uuid: { type: 'string' }, name: { type: 'string' }, path: { type: 'string' }, type: { type: 'string' }, ...properties },
+        required: ['uuid', 'name', 'path'],
+    },
+});
+
+// Objects a mutating tool changed, created or removed
+const OBJECTS_OUTPUT = objectList('Objects the call changed, created or removed, as it left them (local transform, rotation in radians)', {
+    position: VECTOR_OUTPUT,
+    rotation: VECTOR_OUTPUT,
+    scale: VECTOR_OUTPUT,
+    visible: { type: 'boolean' },
+});
+
+const SCENE_OBJECTS_OUTPUT = { position: { type: 'string' }, children: { type: 'integer' } };
+
+const BOUNDS_OUTPUT = { type: 'object', properties: { min: VECTOR_OUTPUT, max: VECTOR_OUTPUT } };
+
+const CAMERA_OUTPUT = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        position: VECTOR_OUTPUT,
+        lookAt: VECTOR_OUTPUT,
+        projection: { type: 'string', enum: ['perspective', 'orthographic'] },
+        fov: { type: 'number' },
+        near: { type: 'number' },
+        far: { type: 'number' },
+        zoom: { type: 'number' },
+    },
+};
+
+const PRESET_OUTPUT = {
+    type: 'object',
+    properties: { ...CAMERA_OUTPUT.properties, description: { type: 'string' } },
+    required: ['name', 'position'],
+};
 
 // Tool definitions
 const TOOLS: Tool[] = [
@@ -34,9 +136,13 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {
-                maxDepth: { type: 'number', description: 'Maximum depth to traverse (default: 3)' }
+                maxDepth: { type: 'integer', minimum: 0, description: 'Maximum depth to traverse (default: 3)' }
             }
-        }
+        },
+        outputSchema: output({
+            objects: objectList('Objects down to maxDepth', SCENE_OBJECTS_OUTPUT),
+            source: { type: 'string', description: '"mirror" when answered from the server\'s copy of the scene because the app did not respond' },
+        })
     },
     {
         name: 'find_objects',
@@ -47,9 +153,11 @@ const TOOLS: Tool[] = [
                 name: { type: 'string', description: 'Exact object name to find' },
                 nameContains: { type: 'string', description: 'Partial name match' },
                 type: { type: 'string', description: 'Object type (Mesh, Group, etc.)' },
-                hasUserData: { type: 'string', description: 'UserData property key that must exist' }
+                hasUserData: { type: 'string', description: 'UserData property key that must exist' },
+                selector: { type: 'string', description: QUERY_DESCRIPTION }
             }
-        }
+        },
+        outputSchema: output({ objects: objectList('Matching objects', SCENE_OBJECTS_OUTPUT) })
     },
     {
         name: 'get_object_position',
@@ -57,10 +165,71 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {
-                name: { type: 'string', description: 'Object name' }
+                name: { type: 'string', description: 'Object name' },
+                ...SELECTOR_PROPERTIES
+            }
+        },
+        outputSchema: output({ uuid: { type: 'string' }, name: { type: 'string' }, path: { type: 'string' }, position: VECTOR_OUTPUT, worldPosition: VECTOR_OUTPUT })
+    },
+    {
+        name: 'inspect_object',
+        description: 'Inspect an object in detail: local/world transforms, world bounds, geometry stats, materials, userData and layers',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Object name or path' },
+                ...SELECTOR_PROPERTIES
+            }
+        },
+        outputSchema: output({ object: { type: 'object', description: 'Transforms, world bounds, geometry, materials, userData and layers' } })
+    },
+    {
+        name: 'raycast',
+        description: 'Cast a ray into the scene and list hits (nearest first). Use origin + direction, or ndc for a screen point through the active camera',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                origin: vector(3, '[x, y, z] ray origin'),
+                direction: vector(3, '[x, y, z] ray direction (normalized for you)'),
+                ndc: vector(2, '[x, y] normalized device coordinates (-1 to 1) on the active camera'),
+                far: { type: 'number', exclusiveMinimum: 0, description: 'Max hit distance' },
+                limit: { type: 'integer', minimum: 1, description: 'Max hits returned (default: 10)' },
+                includeHidden: { type: 'boolean', description: 'Also hit invisible objects (default: false)' }
+            }
+        },
+        outputSchema: output({ hits: objectList('Hits, nearest first', { distance: { type: 'number' }, point: VECTOR_OUTPUT, normal: VECTOR_OUTPUT }) })
+    },
+    {
+        name: 'query_region',
+        description: 'List objects whose world bounds intersect (or lie inside) an axis-aligned box or a sphere',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                min: vector(3, '[x, y, z] box minimum'),
+                max: vector(3, '[x, y, z] box maximum'),
+                center: vector(3, '[x, y, z] sphere center'),
+                radius: { type: 'number', minimum: 0, description: 'Sphere radius' },
+                mode: { type: 'string', enum: ['intersects', 'contains'], description: 'Match overlapping objects or only fully contained ones (default: intersects)' },
+                includeHidden: { type: 'boolean', description: 'Include invisible objects (default: false)' }
+            }
+        },
+        outputSchema: output({ objects: objectList('Objects in the region', { bounds: BOUNDS_OUTPUT }) })
+    },
+    {
+        name: 'nearest_objects',
+        description: 'Find the k objects nearest to a point, measured to their world bounds',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                point: vector(3, '[x, y, z] query point'),
+                count: { type: 'integer', minimum: 1, description: 'Number of objects to return (default: 5)' },
+                maxDistance: { type: 'number', minimum: 0, description: 'Ignore objects farther than this' },
+                type: { type: 'string', description: 'Only objects of this type (Mesh, PointLight, etc.)' },
+                includeHidden: { type: 'boolean', description: 'Include invisible objects (default: false)' }
             },
-            required: ['name']
-        }
+            required: ['point']
+        },
+        outputSchema: output({ objects: objectList('Objects, nearest first', { bounds: BOUNDS_OUTPUT, distance: { type: 'number' } }) })
     },
     {
         name: 'log_positions',
@@ -70,7 +239,8 @@ const TOOLS: Tool[] = [
             properties: {
                 filter: { type: 'string', description: 'Optional name filter' }
             }
-        }
+        },
+        outputSchema: output({ objects: objectList('Named objects', { position: VECTOR_OUTPUT }) })
     },
 
     // Camera Control
@@ -81,26 +251,88 @@ const TOOLS: Tool[] = [
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Optional camera object name' },
-                position: { type: 'array', items: { type: 'number' }, description: '[x, y, z] position' },
-                lookAt: { type: 'array', items: { type: 'number' }, description: '[x, y, z] look target' },
-                fov: { type: 'number', description: 'Field of view in degrees (PerspectiveCamera)' },
-                near: { type: 'number', description: 'Near clipping plane' },
-                far: { type: 'number', description: 'Far clipping plane' }
+                position: vector(3, '[x, y, z] position'),
+                lookAt: vector(3, '[x, y, z] look target'),
+                fov: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 180, description: 'Field of view in degrees (PerspectiveCamera)' },
+                near: { type: 'number', exclusiveMinimum: 0, description: 'Near clipping plane' },
+                far: { type: 'number', exclusiveMinimum: 0, description: 'Far clipping plane' },
+                zoom: { type: 'number', exclusiveMinimum: 0, description: 'Zoom factor; scales the view of an OrthographicCamera' },
+                left: { type: 'number', description: 'Left frustum bound (OrthographicCamera)' },
+                right: { type: 'number', description: 'Right frustum bound (OrthographicCamera)' },
+                top: { type: 'number', description: 'Top frustum bound (OrthographicCamera)' },
+                bottom: { type: 'number', description: 'Bottom frustum bound (OrthographicCamera)' }
             },
             required: ['position']
-        }
+        },
+        outputSchema: output({ camera: CAMERA_OUTPUT })
+    },
+    {
+        name: 'set_camera_projection',
+        description: 'Switch the active camera between perspective and orthographic, keeping its position, look-at point and the visible size at that point. Switching back reuses the original camera',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                projection: { type: 'string', enum: ['perspective', 'orthographic'], description: 'Camera type to switch to' }
+            },
+            required: ['projection']
+        },
+        outputSchema: output({
+            projection: { type: 'string' },
+            previous: { type: 'string', description: 'Projection before the switch; missing when the camera already had it' },
+            camera: CAMERA_OUTPUT,
+        })
+    },
+    {
+        name: 'frame_objects',
+        description: 'Point the camera at objects and back it off until they fill the view at the current field of view and aspect. Frames everything visible when no object is given',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Object name' },
+                ...SELECTOR_PROPERTIES,
+                selector: { type: 'string', description: `${QUERY_DESCRIPTION}. Frames all matches together` },
+                direction: {
+                    anyOf: [
+                        { type: 'string', enum: ['current', 'front', 'back', 'left', 'right', 'top', 'bottom', 'iso'] },
+                        { type: 'array', items: { type: 'number' }, minItems: 3, maxItems: 3 }
+                    ],
+                    description: 'Side to view from, or an [x, y, z] vector from the objects towards the camera (default: current)'
+                },
+                padding: { type: 'number', minimum: 0, description: 'Extra margin around the objects as a fraction of their size (default: 0.1)' },
+                animate: { type: 'boolean', description: 'Smoothly animate to the new view (default: false)' },
+                duration: { type: 'number', minimum: 0, description: 'Animation duration in ms (default: 1000)' },
+                saveAs: { type: 'string', description: 'Also save the framed view as a camera preset with this name' }
+            }
+        },
+        outputSchema: output({
+            framed: { type: 'integer', description: 'Number of objects framed' },
+            center: VECTOR_OUTPUT,
+            radius: { type: 'number' },
+            distance: { type: 'number' },
+            camera: CAMERA_OUTPUT,
+            preset: { type: 'string' },
+        })
     },
     {
         name: 'save_camera_preset',
-        description: 'Save current camera position as a named preset for quick recall',
+        description: 'Save a camera view as a named preset for quick recall. By default records the live camera the user is looking through (position, look-at point and lens), so a view framed by hand can be saved',
         inputSchema: {
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Preset name (e.g., "overhead", "closeup")' },
-                description: { type: 'string', description: 'Optional description of this view' }
+                description: { type: 'string', description: 'Optional description of this view' },
+                fromCurrent: { type: 'boolean', description: 'Record the live camera; explicit values below override it (default: true unless position is given)' },
+                position: vector(3, '[x, y, z] position'),
+                lookAt: vector(3, '[x, y, z] look target'),
+                target: vector(3, '[x, y, z] OrbitControls target, saved as the look target'),
+                fov: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 180, description: 'Field of view in degrees' },
+                near: { type: 'number', exclusiveMinimum: 0, description: 'Near clipping plane' },
+                far: { type: 'number', exclusiveMinimum: 0, description: 'Far clipping plane' },
+                zoom: { type: 'number', exclusiveMinimum: 0, description: 'Zoom factor (orthographic views)' }
             },
             required: ['name']
-        }
+        },
+        outputSchema: output({ preset: PRESET_OUTPUT })
     },
     {
         name: 'load_camera_preset',
@@ -110,10 +342,11 @@ const TOOLS: Tool[] = [
             properties: {
                 name: { type: 'string', description: 'Preset name to load' },
                 animate: { type: 'boolean', description: 'Smoothly animate to position (default: false)' },
-                duration: { type: 'number', description: 'Animation duration in ms (default: 1000)' }
+                duration: { type: 'number', minimum: 0, description: 'Animation duration in ms (default: 1000)' }
             },
             required: ['name']
-        }
+        },
+        outputSchema: output({ preset: PRESET_OUTPUT })
     },
     {
         name: 'list_camera_presets',
@@ -121,7 +354,8 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {}
-        }
+        },
+        outputSchema: output({ presets: { type: 'array', items: PRESET_OUTPUT } })
     },
     {
         name: 'delete_camera_preset',
@@ -132,7 +366,120 @@ const TOOLS: Tool[] = [
                 name: { type: 'string', description: 'Preset name to delete' }
             },
             required: ['name']
-        }
+        },
+        outputSchema: output({ name: { type: 'string' } })
+    },
+    {
+        name: 'play_camera_path',
+        description: 'Fly the camera along a smooth path through presets or points, with easing and an optional look-at track. Reports progress and waits until the flight ends unless wait is false',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Saved path to play (other options override it)' },
+                presets: { type: 'array', items: { type: 'string' }, description: 'Fly through these presets (their lookAt and fov become tracks unless given)' },
+                points: { type: 'array', items: vector(3, '[x, y, z]'), minItems: 2, description: 'Or fly through these [x, y, z] points' },
+                curve: { type: 'string', enum: ['catmullrom', 'centripetal', 'bezier', 'linear'], description: 'Curve type (default: catmullrom). bezier reads points as start, control, control, end, control, control, end...' },
+                tension: { type: 'number', minimum: 0, maximum: 1, description: 'Catmull-Rom tension (default: 0.5)' },
+                closed: { type: 'boolean', description: 'Loop back to the first point' },
+                lookAt: {
+                    anyOf: [vector(3, '[x, y, z]'), { type: 'array', items: vector(3, '[x, y, z]') }],
+                    description: 'Fixed [x, y, z] to look at, or a track of [x, y, z] points. Default: look along the path'
+                },
+                fov: { type: 'array', items: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 180 }, description: 'Field of view keyframes spread over the flight' },
+                duration: { type: 'number', minimum: 0, description: 'Flight duration in ms (default: 5000)' },
+                easing: { type: 'string', enum: EASING_NAMES, description: 'Easing (default: easeInOut)' },
+                constantSpeed: { type: 'boolean', description: 'Constant speed along the curve instead of equal time between points (default: true)' },
+                wait: { type: 'boolean', description: 'Wait for the flight to finish (default: true)' }
+            }
+        },
+        outputSchema: output({
+            id: { type: 'string' },
+            state: { type: 'string', enum: ['started', 'completed', 'stopped', 'timeout'] },
+            duration: { type: 'number', description: 'Flight duration in ms' },
+            length: { type: 'number' },
+            points: { type: 'integer' },
+        })
+    },
+    {
+        name: 'stop_camera_path',
+        description: 'Stop the camera path that is playing, leaving the camera where it is',
+        inputSchema: {
+            type: 'object',
+            properties: {}
+        },
+        outputSchema: output({ stopped: { type: 'string', description: 'Id of the path that was stopped; missing when none was playing' } })
+    },
+    {
+        name: 'save_camera_path',
+        description: 'Save a camera path next to the camera presets',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Path name' },
+                description: { type: 'string', description: 'Optional description' },
+                presets: { type: 'array', items: { type: 'string' }, description: 'Fly through these presets (their lookAt and fov become tracks unless given)' },
+                points: { type: 'array', items: vector(3, '[x, y, z]'), minItems: 2, description: 'Or fly through these [x, y, z] points' },
+                curve: { type: 'string', enum: ['catmullrom', 'centripetal', 'bezier', 'linear'], description: 'Curve type (default: catmullrom). bezier reads points as start, control, control, end, control, control, end...' },
+                tension: { type: 'number', minimum: 0, maximum: 1, description: 'Catmull-Rom tension (default: 0.5)' },
+                closed: { type: 'boolean', description: 'Loop back to the first point' },
+                lookAt: {
+                    anyOf: [vector(3, '[x, y, z]'), { type: 'array', items: vector(3, '[x, y, z]') }],
+                    description: 'Fixed [x, y, z] to look at, or a track of [x, y, z] points. Default: look along the path'
+                },
+                fov: { type: 'array', items: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 180 }, description: 'Field of view keyframes spread over the flight' },
+                duration: { type: 'number', minimum: 0, description: 'Flight duration in ms (default: 5000)' },
+                easing: { type: 'string', enum: EASING_NAMES, description: 'Easing (default: easeInOut)' },
+                constantSpeed: { type: 'boolean', description: 'Constant speed along the curve instead of equal time between points (default: true)' }
+            },
+            required: ['name']
+        },
+        outputSchema: output({ name: { type: 'string' }, points: { type: 'integer' } })
+    },
+    {
+        name: 'list_camera_paths',
+        description: 'List saved camera paths',
+        inputSchema: {
+            type: 'object',
+            properties: {}
+        },
+        outputSchema: output({ paths: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] } } })
+    },
+    {
+        name: 'delete_camera_path',
+        description: 'Delete a saved camera path',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Path name to delete' }
+            },
+            required: ['name']
+        },
+        outputSchema: output({ name: { type: 'string' } })
+    },
+    {
+        name: 'import_camera_presets',
+        description: 'Import camera presets from a CameraPresetCollection JSON file ({ "presets": { name: preset } })',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                path: { type: 'string', description: 'Path to the JSON file' },
+                replace: { type: 'boolean', description: 'Replace all current presets instead of merging (default: false)' }
+            },
+            required: ['path']
+        },
+        outputSchema: output({ imported: { type: 'integer' }, path: { type: 'string' } })
+    },
+    {
+        name: 'export_camera_presets',
+        description: 'Export all camera presets to a CameraPresetCollection JSON file',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                path: { type: 'string', description: 'Path of the JSON file to write' }
+            },
+            required: ['path']
+        },
+        outputSchema: output({ exported: { type: 'integer' }, path: { type: 'string' } })
     },
     {
         name: 'animate_camera_presets',
@@ -140,13 +487,32 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {
-                presets: { type: 'array', items: { type: 'string' }, description: 'Ordered list of preset names' },
-                duration: { type: 'number', description: 'Transition duration per preset in ms (default: 1000)' },
-                hold: { type: 'number', description: 'Hold time per preset in ms (default: 0)' },
-                repeat: { type: 'number', description: 'Number of times to repeat the sequence (default: 1)' }
+                presets: { type: 'array', items: { type: 'string' }, minItems: 2, description: 'Ordered list of preset names' },
+                duration: { type: 'number', minimum: 0, description: 'Transition duration per preset in ms (default: 1000)' },
+                hold: { type: 'number', minimum: 0, description: 'Hold time per preset in ms (default: 0)' },
+                repeat: { type: 'integer', minimum: 1, description: 'Number of times to repeat the sequence (default: 1)' }
             },
             required: ['presets']
-        }
+        },
+        outputSchema: output({ presets: { type: 'array', items: { type: 'string' } }, repeat: { type: 'integer' } })
+    },
+
+    {
+        name: 'capture_screenshot',
+        description: 'Render one frame of the canvas and return it as an image',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                width: { type: 'integer', minimum: 1, description: 'Image width in pixels (default: canvas size)' },
+                height: { type: 'integer', minimum: 1, description: 'Image height in pixels (default: canvas size)' },
+                format: { type: 'string', enum: ['png', 'jpeg'], description: 'Image format (default: png)' },
+                quality: { type: 'number', minimum: 0, maximum: 1, description: 'JPEG quality (0-1)' },
+                cameraPreset: { type: 'string', description: 'Camera preset to render from (camera is restored afterwards)' },
+                highlight: { type: 'array', items: { type: 'string' }, description: 'Object names to outline with a bounding box' },
+                highlightColor: { type: 'string', description: 'Outline hex color (default: #ffcc00)' }
+            }
+        },
+        outputSchema: output({ width: { type: 'integer' }, height: { type: 'integer' }, mimeType: { type: 'string' } })
     },
 
     // Hierarchy Management
@@ -156,14 +522,15 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {
-                type: { type: 'string', description: 'Primitive type: box, sphere, plane, cylinder, cone, torus' },
+                type: { type: 'string', enum: [...PRIMITIVE_TYPES], description: 'Primitive type' },
                 name: { type: 'string', description: 'Name for the new entity' },
-                position: { type: 'array', items: { type: 'number' }, description: '[x, y, z] position' },
+                position: vector(3, '[x, y, z] position'),
                 color: { type: 'string', description: 'Hex color (e.g., #ff0000)' },
                 parentName: { type: 'string', description: 'Optional parent object name' }
             },
             required: ['type', 'name']
-        }
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'destroy_entity',
@@ -171,10 +538,12 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {
-                name: { type: 'string', description: 'Entity name to destroy' }
-            },
-            required: ['name']
-        }
+                name: { type: 'string', description: 'Entity name to destroy' },
+                ...SELECTOR_PROPERTIES,
+                ...QUERY_PROPERTY
+            }
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'move_object',
@@ -183,10 +552,13 @@ const TOOLS: Tool[] = [
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Object name or path' },
-                position: { type: 'array', items: { type: 'number' }, description: '[x, y, z] position' }
+                ...SELECTOR_PROPERTIES,
+                ...QUERY_PROPERTY,
+                position: vector(3, '[x, y, z] position')
             },
-            required: ['name', 'position']
-        }
+            required: ['position']
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'set_transform',
@@ -195,12 +567,14 @@ const TOOLS: Tool[] = [
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Object name' },
-                position: { type: 'array', items: { type: 'number' }, description: '[x, y, z]' },
-                rotation: { type: 'array', items: { type: 'number' }, description: '[x, y, z] in radians' },
-                scale: { type: 'array', items: { type: 'number' }, description: '[x, y, z]' }
-            },
-            required: ['name']
-        }
+                ...SELECTOR_PROPERTIES,
+                ...QUERY_PROPERTY,
+                position: vector(3, '[x, y, z]'),
+                rotation: vector(3, '[x, y, z] in radians'),
+                scale: vector(3, '[x, y, z]')
+            }
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'set_visibility',
@@ -209,10 +583,13 @@ const TOOLS: Tool[] = [
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Object name' },
+                ...SELECTOR_PROPERTIES,
+                ...QUERY_PROPERTY,
                 visible: { type: 'boolean', description: 'Visibility state' }
             },
-            required: ['name', 'visible']
-        }
+            required: ['visible']
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'rename_entity',
@@ -221,10 +598,12 @@ const TOOLS: Tool[] = [
             type: 'object',
             properties: {
                 oldName: { type: 'string', description: 'Current name' },
+                ...SELECTOR_PROPERTIES,
                 newName: { type: 'string', description: 'New name' }
             },
-            required: ['oldName', 'newName']
-        }
+            required: ['newName']
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'duplicate_entity',
@@ -233,11 +612,133 @@ const TOOLS: Tool[] = [
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Object to clone' },
+                ...SELECTOR_PROPERTIES,
                 newName: { type: 'string', description: 'Name for the clone' },
-                offset: { type: 'array', items: { type: 'number' }, description: '[x, y, z] offset from original' }
+                offset: vector(3, '[x, y, z] offset from original')
             },
-            required: ['name', 'newName']
-        }
+            required: ['newName']
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
+    },
+
+    {
+        name: 'batch',
+        description: 'Apply an ordered list of bridge actions in one message and one frame. If any step fails, earlier steps are rolled back. Camera, impulse, gravity and rotation actions cannot be rolled back and are rejected. The batch is a single undo entry.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                steps: {
+                    type: 'array',
+                    description: 'Bridge actions, e.g. { "action": "moveObject", "name": "Tree", "position": [0, 0, 5] }. Supported: moveObject, setRotation, setScale, setVisibility, setOpacity, lookAt, addPrimitive, addLight, removeObject, duplicateObject, renameObject, applyMaterial, setEnvironment, applyVibe, makePhysical, removePhysics and read-only queries',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            action: { type: 'string', description: 'Bridge action name' }
+                        },
+                        required: ['action']
+                    }
+                }
+            },
+            required: ['steps']
+        },
+        outputSchema: output({
+            steps: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        index: { type: 'integer' },
+                        action: { type: 'string' },
+                        status: { type: 'string', enum: ['applied', 'failed', 'rolledBack', 'skipped'] },
+                        result: {},
+                        error: { type: 'string' },
+                    },
+                    required: ['index', 'action', 'status'],
+                },
+            },
+        })
+    },
+
+    // History
+    {
+        name: 'undo',
+        description: 'Undo the most recent scene edits (moves, transforms, visibility, materials, spawns, removals)',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                steps: { type: 'integer', minimum: 1, description: 'Number of edits to undo (default: 1)' }
+            }
+        },
+        outputSchema: output({ edits: { type: 'array', items: { type: 'string' }, description: 'Labels of the edits undone' } })
+    },
+    {
+        name: 'redo',
+        description: 'Redo scene edits that were undone',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                steps: { type: 'integer', minimum: 1, description: 'Number of edits to redo (default: 1)' }
+            }
+        },
+        outputSchema: output({ edits: { type: 'array', items: { type: 'string' }, description: 'Labels of the edits redone' } })
+    },
+    {
+        name: 'get_history',
+        description: 'List the undo and redo history of scene edits, most recent first',
+        inputSchema: {
+            type: 'object',
+            properties: {}
+        },
+        outputSchema: output({ undo: { type: 'array', items: { type: 'object' } }, redo: { type: 'array', items: { type: 'object' } }, limit: { type: 'integer' } })
+    },
+    {
+        name: 'save_scene_snapshot',
+        description: 'Save transforms, visibility, materials, spawned primitives and lights, and the camera to a named snapshot file in .threlte-mcp/snapshots',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Snapshot name (letters, digits, "_", "-", ".")' },
+                description: { type: 'string', description: 'Optional description' }
+            },
+            required: ['name']
+        },
+        outputSchema: output({ name: { type: 'string' }, file: { type: 'string' }, count: { type: 'integer', description: 'Objects saved' } })
+    },
+    {
+        name: 'restore_scene_snapshot',
+        description: 'Restore a saved scene snapshot as one undo entry. Objects are matched by uuid, then path; spawned objects are recreated or removed to match',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'Snapshot name' }
+            },
+            required: ['name']
+        },
+        outputSchema: output({
+            name: { type: 'string' },
+            restored: { type: 'integer' },
+            created: { type: 'array', items: { type: 'string' } },
+            removed: { type: 'array', items: { type: 'string' } },
+            missing: { type: 'array', items: { type: 'string' } },
+        })
+    },
+    {
+        name: 'list_scene_snapshots',
+        description: 'List saved scene snapshots, most recent first',
+        inputSchema: {
+            type: 'object',
+            properties: {}
+        },
+        outputSchema: output({
+            snapshots: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: { name: { type: 'string' }, objects: { type: 'integer' }, savedAt: { type: 'number' } },
+                    required: ['name'],
+                },
+            },
+        })
     },
 
     // Physics
@@ -248,11 +749,17 @@ const TOOLS: Tool[] = [
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Object name' },
-                type: { type: 'string', description: 'Body type: dynamic, kinematic, static' },
-                colliders: { type: 'string', description: 'Collider type: cuboid, ball, hull, trimesh, auto' }
-            },
-            required: ['name']
-        }
+                ...SELECTOR_PROPERTIES,
+                ...QUERY_PROPERTY,
+                type: { type: 'string', enum: ['dynamic', 'kinematic', 'static'], description: 'Body type (default: dynamic)' },
+                colliders: { type: 'string', enum: ['cuboid', 'ball', 'hull', 'trimesh', 'auto'], description: 'Collider shape' },
+                mass: { type: 'number', minimum: 0, description: 'Body mass' },
+                friction: { type: 'number', minimum: 0, description: 'Collider friction' },
+                restitution: { type: 'number', minimum: 0, maximum: 1, description: 'Collider bounciness (0-1)' },
+                gravityScale: { type: 'number', description: 'Gravity multiplier for this body (default: 1)' }
+            }
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'remove_physics',
@@ -260,10 +767,12 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {
-                name: { type: 'string', description: 'Object name' }
-            },
-            required: ['name']
-        }
+                name: { type: 'string', description: 'Object name' },
+                ...SELECTOR_PROPERTIES,
+                ...QUERY_PROPERTY
+            }
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'apply_impulse',
@@ -272,10 +781,13 @@ const TOOLS: Tool[] = [
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Object name' },
-                vector: { type: 'array', items: { type: 'number' }, description: '[x, y, z] impulse' }
+                ...SELECTOR_PROPERTIES,
+                ...QUERY_PROPERTY,
+                vector: vector(3, '[x, y, z] impulse')
             },
-            required: ['name', 'vector']
-        }
+            required: ['vector']
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT, velocity: VECTOR_OUTPUT })
     },
     {
         name: 'set_gravity',
@@ -283,10 +795,11 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {
-                vector: { type: 'array', items: { type: 'number' }, description: '[x, y, z] gravity' }
+                vector: vector(3, '[x, y, z] gravity')
             },
             required: ['vector']
-        }
+        },
+        outputSchema: output({ gravity: VECTOR_OUTPUT })
     },
 
     // Materials & Assets
@@ -299,7 +812,16 @@ const TOOLS: Tool[] = [
                 path: { type: 'string', description: 'Local path or file:// URL to a .gltf/.glb file' }
             },
             required: ['path']
-        }
+        },
+        outputSchema: output({
+            source: { type: 'object' },
+            summary: { type: 'object' },
+            scenes: { type: 'array' },
+            meshes: { type: 'array' },
+            materials: { type: 'array' },
+            textures: { type: 'array' },
+            animations: { type: 'array' },
+        })
     },
     {
         name: 'validate_asset',
@@ -311,17 +833,24 @@ const TOOLS: Tool[] = [
                 limits: {
                     type: 'object',
                     properties: {
-                        maxDrawCalls: { type: 'number', description: 'Max draw calls before warning' },
-                        maxTriangles: { type: 'number', description: 'Max triangles before warning' },
-                        maxVertices: { type: 'number', description: 'Max vertices before warning' },
-                        maxTextures: { type: 'number', description: 'Max textures before warning' },
-                        maxMaterials: { type: 'number', description: 'Max materials before warning' },
-                        maxAnimations: { type: 'number', description: 'Max animations before warning' }
+                        maxDrawCalls: { type: 'number', minimum: 0, description: 'Max draw calls before warning' },
+                        maxTriangles: { type: 'number', minimum: 0, description: 'Max triangles before warning' },
+                        maxVertices: { type: 'number', minimum: 0, description: 'Max vertices before warning' },
+                        maxTextures: { type: 'number', minimum: 0, description: 'Max textures before warning' },
+                        maxMaterials: { type: 'number', minimum: 0, description: 'Max materials before warning' },
+                        maxAnimations: { type: 'number', minimum: 0, description: 'Max animations before warning' }
                     }
                 }
             },
             required: ['path']
-        }
+        },
+        outputSchema: output({
+            valid: { type: 'boolean' },
+            errors: { type: 'array', items: { type: 'string' } },
+            warnings: { type: 'array', items: { type: 'string' } },
+            metrics: { type: 'object' },
+            limits: { type: 'object' },
+        })
     },
     {
         name: 'optimize_gltf',
@@ -341,21 +870,23 @@ const TOOLS: Tool[] = [
                         simplify: {
                             type: 'object',
                             properties: {
-                                ratio: { type: 'number', description: 'Target ratio (0-1) of vertices to keep' },
-                                error: { type: 'number', description: 'Maximum simplification error' },
+                                ratio: { type: 'number', minimum: 0, maximum: 1, description: 'Target ratio (0-1) of vertices to keep' },
+                                error: { type: 'number', minimum: 0, description: 'Maximum simplification error' },
                                 lockBorder: { type: 'boolean', description: 'Preserve mesh borders' }
                             }
                         },
                         textures: {
                             type: 'object',
                             properties: {
-                                format: { type: 'string', description: 'Target texture format: jpeg, png, webp, avif' },
+                                format: { type: 'string', enum: ['jpeg', 'png', 'webp', 'avif'], description: 'Target texture format' },
                                 resize: {
                                     description: 'Resize textures [width,height] or power-of-two preset',
-                                    type: ['array', 'string'],
-                                    items: { type: 'number' }
+                                    anyOf: [
+                                        { type: 'array', items: { type: 'number', exclusiveMinimum: 0 }, minItems: 2, maxItems: 2 },
+                                        { type: 'string', enum: ['nearest-pot', 'ceil-pot', 'floor-pot'] }
+                                    ]
                                 },
-                                quality: { type: 'number', description: 'Compression quality (1-100)' },
+                                quality: { type: 'number', minimum: 1, maximum: 100, description: 'Compression quality (1-100)' },
                                 useSharp: { type: 'boolean', description: 'Use sharp encoder when available' }
                             }
                         }
@@ -363,7 +894,14 @@ const TOOLS: Tool[] = [
                 }
             },
             required: ['path']
-        }
+        },
+        outputSchema: output({
+            source: { type: 'object' },
+            output: { type: 'object' },
+            actions: { type: 'array', items: { type: 'string' } },
+            warnings: { type: 'array', items: { type: 'string' } },
+            summary: { type: 'object' },
+        })
     },
     {
         name: 'export_to_svelte',
@@ -375,24 +913,58 @@ const TOOLS: Tool[] = [
                 output: { type: 'string', description: 'Output .svelte file path (optional)' },
                 componentName: { type: 'string', description: 'Component name override' },
                 assetUrl: { type: 'string', description: 'Asset URL to load in the generated component' },
-                mode: { type: 'string', description: 'Export mode: nodes or primitive' }
+                mode: { type: 'string', enum: ['nodes', 'primitive'], description: 'Export mode (default: nodes)' }
             },
             required: ['path']
-        }
+        },
+        outputSchema: output({
+            componentName: { type: 'string' },
+            assetUrl: { type: 'string' },
+            outputPath: { type: 'string' },
+            nodes: { type: 'integer' },
+            meshes: { type: 'integer' },
+            warnings: { type: 'array', items: { type: 'string' } },
+            code: { type: 'string' },
+        })
     },
     {
-        name: 'load_asset',
-        description: 'Load a GLTF/GLB model into the scene',
+        name: 'commit_changes_to_source',
+        description: 'Write live position, rotation, scale, visible and simple material props back into the <T.*> elements of the project\'s .svelte files. Elements are matched by the source location the threlte-mcp/preprocess preprocessor injects, or by a static name prop. Returns a unified diff; nothing is written unless write is true. Exclude animated objects with selector, or their per-frame values get committed.',
         inputSchema: {
             type: 'object',
             properties: {
-                url: { type: 'string', description: 'URL or path to the asset' },
-                name: { type: 'string', description: 'Name for the loaded model' },
-                position: { type: 'array', items: { type: 'number' }, description: '[x, y, z]' },
-                scale: { type: 'array', items: { type: 'number' }, description: '[x, y, z]' }
-            },
-            required: ['url', 'name']
-        }
+                root: { type: 'string', description: 'Directory searched for .svelte files (default: ./src)' },
+                selector: { type: 'string', description: `${QUERY_DESCRIPTION}. Only matching objects are committed` },
+                write: { type: 'boolean', description: 'Write the changes to disk (default: false, only return the diff)' }
+            }
+        },
+        outputSchema: output({
+            changes: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: { object: { type: 'string' }, file: { type: 'string' }, line: { type: 'integer' }, props: { type: 'array', items: { type: 'string' } } },
+                },
+            },
+            skipped: { type: 'array', items: { type: 'object' } },
+            written: { type: 'array', items: { type: 'string' } },
+            diff: { type: 'string' },
+        })
+    },
+    {
+        name: 'load_asset',
+        description: 'Load a GLTF/GLB model into the scene',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                url: { type: 'string', description: 'URL or path to the asset' },
+                name: { type: 'string', description: 'Name for the loaded model' },
+                position: vector(3, '[x, y, z]'),
+                scale: vector(3, '[x, y, z]')
+            },
+            required: ['url', 'name']
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'apply_material',
@@ -401,12 +973,14 @@ const TOOLS: Tool[] = [
             type: 'object',
             properties: {
                 name: { type: 'string', description: 'Object name' },
-                type: { type: 'string', description: 'Material type: Standard, Physical, Basic, Toon' },
+                ...SELECTOR_PROPERTIES,
+                ...QUERY_PROPERTY,
+                type: { type: 'string', enum: ['standard', 'physical', 'basic', 'toon'], description: 'Material type' },
                 color: { type: 'string', description: 'Hex color' },
-                preset: { type: 'string', description: 'Material preset: cyberpunk, gold, glass, cartoon' }
-            },
-            required: ['name']
-        }
+                preset: { type: 'string', enum: ['cyberpunk', 'gold', 'glass', 'cartoon'], description: 'Material preset' }
+            }
+        },
+        outputSchema: output({ objects: OBJECTS_OUTPUT })
     },
     {
         name: 'set_environment',
@@ -414,12 +988,17 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {
-                preset: { type: 'string', description: 'Environment preset: sunset, dawn, night, warehouse, forest, apartment, studio, city, park, lobby' },
-                blur: { type: 'number', description: 'Background blur amount' },
+                preset: {
+                    type: 'string',
+                    enum: ['sunset', 'dawn', 'night', 'warehouse', 'forest', 'apartment', 'studio', 'city', 'park', 'lobby'],
+                    description: 'Environment preset'
+                },
+                blur: { type: 'number', minimum: 0, maximum: 1, description: 'Background blur amount (0-1)' },
                 background: { type: 'boolean', description: 'Show environment as background' }
             },
             required: ['preset']
-        }
+        },
+        outputSchema: output({ preset: { type: 'string' } })
     },
 
     // Vibe & Atmosphere
@@ -429,10 +1008,31 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {
-                vibe: { type: 'string', description: 'Vibe name: cozy, spooky, neon, retro, minimal, chaos' }
+                vibe: { type: 'string', enum: ['cozy', 'spooky', 'neon', 'retro', 'minimal', 'chaos'], description: 'Vibe name' }
             },
             required: ['vibe']
-        }
+        },
+        outputSchema: output({ vibe: { type: 'string' } })
+    },
+
+    // Performance
+    {
+        name: 'get_performance_stats',
+        description: 'Check the frame budget: frame times (avg/p95/max, FPS), renderer draw calls/triangles/geometries/textures/programs, JS heap and the heaviest meshes by triangle count',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                frames: { type: 'integer', minimum: 1, description: 'Most recent frames to summarize (default: all sampled, up to MCPBridgeOptions.frameSampleSize)' },
+                top: { type: 'integer', minimum: 0, description: 'Number of heaviest meshes to list (default: 10)' }
+            }
+        },
+        outputSchema: output({
+            frames: { type: ['object', 'null'] },
+            renderer: { type: ['object', 'null'] },
+            memory: { type: ['object', 'null'] },
+            scene: { type: 'object' },
+            heaviestMeshes: objectList('Meshes by triangle count', { triangles: { type: 'integer' } }),
+        })
     },
 
     // Bridge Status
@@ -442,10 +1042,42 @@ const TOOLS: Tool[] = [
         inputSchema: {
             type: 'object',
             properties: {}
-        }
+        },
+        outputSchema: output({
+            listening: { type: 'boolean' },
+            port: { type: 'integer' },
+            connected: { type: 'boolean' },
+            clients: { type: 'integer' },
+            defaultClient: { type: ['string', 'null'] },
+        })
+    },
+    {
+        name: 'list_clients',
+        description: 'List the connected apps (browser tabs, canvases) with their id, name and URL. Tools take a client argument to target one; the most recently connected is the default',
+        inputSchema: {
+            type: 'object',
+            properties: {}
+        },
+        outputSchema: output({
+            clients: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: { id: { type: 'string' }, name: { type: 'string' }, url: { type: 'string' }, default: { type: 'boolean' } },
+                    required: ['id', 'name'],
+                },
+            },
+        })
     }
 ];
 
+interface ToolContext {
+    /** Send notifications/progress, if the caller asked for them with a progress token */
+    reportProgress(progress: number, total?: number, message?: string): Promise<void>;
+}
+
+type ToolHandler = (args: Record<string, unknown> | undefined, context: ToolContext) => Promise<CallToolResult>;
+
 const LOCAL_ONLY_TOOLS = new Set([
     'get_bridge_status',
     'analyze_gltf',
@@ -454,462 +1086,1169 @@ const LOCAL_ONLY_TOOLS = new Set([
     'export_to_svelte',
     'list_camera_presets',
     'delete_camera_preset',
+    'import_camera_presets',
+    'export_camera_presets',
+    'list_scene_snapshots',
+    'save_camera_path',
+    'list_camera_paths',
+    'delete_camera_path',
+    'list_clients',
 ]);
 
+// Client actions and optional modules each bridge tool needs, checked against
+// what connected clients announce in their hello
+const TOOL_REQUIREMENTS: Record<string, { actions: ActionName[]; modules?: ClientModule[] }> = {
+    get_scene_state: { actions: ['getFullSceneState'] },
+    find_objects: { actions: ['findObjects'] },
+    get_object_position: { actions: ['inspectObject'] },
+    inspect_object: { actions: ['inspectObject'] },
+    raycast: { actions: ['raycast'] },
+    query_region: { actions: ['queryRegion'] },
+    nearest_objects: { actions: ['nearestObjects'] },
+    log_positions: { actions: ['logPositions'] },
+    set_camera_position: { actions: ['setCameraPosition'] },
+    set_camera_projection: { actions: ['setCameraProjection'] },
+    frame_objects: { actions: ['frameObjects'] },
+    save_camera_preset: { actions: ['getCameraState'] },
+    load_camera_preset: { actions: ['setCameraPosition'] },
+    play_camera_path: { actions: ['playCameraPath'] },
+    stop_camera_path: { actions: ['stopCameraPath'] },
+    animate_camera_presets: { actions: ['setCameraPosition'] },
+    move_object: { actions: ['moveSceneObject'] },
+    spawn_entity: { actions: ['addPrimitive'] },
+    destroy_entity: { actions: ['removeObject'] },
+    set_transform: { actions: ['batch', 'moveSceneObject', 'setRotation', 'setScale'] },
+    set_visibility: { actions: ['setVisibility'] },
+    capture_screenshot: { actions: ['captureScreenshot'], modules: ['renderer'] },
+    rename_entity: { actions: ['renameObject'] },
+    duplicate_entity: { actions: ['duplicateObject'] },
+    batch: { actions: ['batch'] },
+    undo: { actions: ['undo'] },
+    redo: { actions: ['redo'] },
+    get_history: { actions: ['getHistory'] },
+    save_scene_snapshot: { actions: ['getSceneSnapshot'] },
+    restore_scene_snapshot: { actions: ['restoreSceneSnapshot'] },
+    make_physical: { actions: ['makePhysical'], modules: ['physics'] },
+    remove_physics: { actions: ['removePhysics'], modules: ['physics'] },
+    apply_impulse: { actions: ['applyImpulse'], modules: ['physics'] },
+    set_gravity: { actions: ['setGravity'], modules: ['physics'] },
+    apply_vibe: { actions: ['applyVibe'], modules: ['environment'] },
+    set_environment: { actions: ['setEnvironment'], modules: ['environment'] },
+    commit_changes_to_source: { actions: ['getSourceState'] },
+    load_asset: { actions: ['loadAsset'] },
+    apply_material: { actions: ['applyMaterial'] },
+    get_performance_stats: { actions: ['getPerformanceStats'] },
+};
+
+/**
+ * Why a client cannot run a tool, or null if it can (or predates the handshake)
+ */
+function unsupportedReason(toolName: string, client: ClientInfo): string | null {
+    const requirements = TOOL_REQUIREMENTS[toolName];
+    if (!requirements || !client.actions) return null;
+
+    const missingActions = requirements.actions.filter((action) => !client.actions!.includes(action));
+    if (missingActions.length > 0) return `client build lacks ${missingActions.join(', ')}`;
+
+    const missingModules = (requirements.modules ?? []).filter((module) => !client.modules?.[module]);
+    if (missingModules.length > 0) return `needs ${missingModules.join(', ')}`;
+    return null;
+}
+
+/**
+ * The tool as listed for the connected clients: hidden when none of them has
+ * its actions, marked when some of them cannot run it
+ */
+function listedTool(tool: Tool, clients: ClientInfo[]): Tool | null {
+    const problems = clients
+        .map((client) => ({ client, reason: unsupportedReason(tool.name, client) }))
+        .filter((problem): problem is { client: ClientInfo; reason: string } => problem.reason !== null);
+    if (problems.length === 0) return tool;
+
+    const missingEverywhere = problems.length === clients.length &&
+        problems.every((problem) => problem.reason.startsWith('client build lacks'));
+    if (missingEverywhere) return null;
+
+    const notes = problems.map(({ client, reason }) => `"${client.name}" ${reason}`).join('; ');
+    return { ...tool, description: `${tool.description} [Unavailable on ${notes}]` };
+}
+
+for (const tool of TOOLS) {
+    // A misspelled argument is reported instead of silently ignored
+    tool.inputSchema.additionalProperties = false;
+
+    // Tools that talk to the app can target one of several connected clients
+    if (LOCAL_ONLY_TOOLS.has(tool.name)) continue;
+    tool.inputSchema.properties = {
+        ...tool.inputSchema.properties,
+        client: { type: 'string', description: 'Id or name of the connected app to use, see list_clients (default: the most recently connected)' },
+    };
+}
+
+// Model downloads can take far longer than a regular command round trip
+const ASSET_LOAD_TIMEOUT = 30000;
+// Encoding a large canvas to a dataURL can stall the browser for a while
+const SCREENSHOT_TIMEOUT = 15000;
+
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Grace period on top of a camera path's duration before giving up on its completion event
+const CAMERA_PATH_GRACE = 5000;
+let cameraPathCount = 0;
+
+const PATH_OPTION_KEYS = ['presets', 'points', 'curve', 'tension', 'closed', 'lookAt', 'fov', 'duration', 'easing', 'constantSpeed'] as const;
+
+function pathOptions(args: Record<string, unknown> | undefined): Omit<CameraPathDefinition, 'name'> {
+    return Object.fromEntries(
+        PATH_OPTION_KEYS.filter((key) => args?.[key] !== undefined).map((key) => [key, args![key]])
+    ) as Omit<CameraPathDefinition, 'name'>;
+}
+
+/**
+ * Resolves with the final state of a camera path: completed, stopped, or timeout
+ */
+function watchCameraPath(id: string, timeoutMs: number, onProgress: (progress: number) => void) {
+    let cancel = () => {};
+    const clientId = bridge.getClientInfo(targetClient.getStore())?.id;
+    const done = new Promise<string>((resolve) => {
+        const timer = setTimeout(() => finish('timeout'), timeoutMs);
+        const unsubscribe = bridge.onClientEvent((event, client) => {
+            if (event.type !== 'cameraPathProgress' || event.id !== id || client.id !== clientId) return;
+            onProgress(event.progress);
+            if (event.state !== 'playing') finish(event.state);
+        });
+        const finish = (state: string) => {
+            clearTimeout(timer);
+            unsubscribe();
+            resolve(state);
+        };
+        cancel = () => finish('cancelled');
+    });
+    return { done, cancel };
+}
+
+const VERSION: string = JSON.parse(await readFile(new URL('../package.json', import.meta.url), 'utf8')).version;
+
 // Create MCP server
 const server = new Server(
     {
         name: 'threlte-mcp',
-        version: '1.4.0',
+        version: VERSION,
     },
     {
         capabilities: {
-            tools: {},
+            // The tool list follows what the connected clients support
+            tools: { listChanged: true },
+            resources: {
+                subscribe: true,
+            },
         },
     }
 );
 
 // Bridge server for WebSocket communication
-const bridge = new BridgeServer();
+const bridge = new BridgeServer({ version: VERSION });
+
+// Live scene exposed as MCP resources
+const resources = registerSceneResources(server, bridge);
+
+// Client the running tool call targets (its `client` argument), so every command it sends goes there
+const targetClient = new AsyncLocalStorage<string | undefined>();
+
+/**
+ * Send a command to the targeted client without checking the result
+ */
+function sendToClient<A extends ActionName>(command: CommandOf<A>, timeoutMs?: number): Promise<ResponseOf<A> | FailureOf<A>> {
+    return bridge.sendCommand(command, timeoutMs, targetClient.getStore());
+}
+
+/**
+ * Send a command to the client and throw if it reports failure
+ */
+async function runCommand<A extends ActionName>(command: CommandOf<A>, timeoutMs?: number): Promise<ResponseOf<A>> {
+    const result: ResponseOf<ActionName> | BridgeFailure = await sendToClient(command, timeoutMs);
+    if (result.success === false) {
+        throw new Error(result.error ?? `${command.action} failed`);
+    }
+    return result as ResponseOf<A>;
+}
+
+/**
+ * Switch to the preset's projection when it records one, then move the camera to it
+ */
+async function applyCameraPreset(preset: CameraPreset, animate: boolean, duration: number): Promise<void> {
+    if (preset.projection) {
+        await runCommand({ action: 'setCameraProjection', projection: preset.projection });
+    }
+    await runCommand({
+        action: 'setCameraPosition',
+        position: preset.position,
+        lookAt: preset.lookAt,
+        ...pickLens(preset),
+        animate,
+        duration,
+    });
+}
+
+/**
+ * Object selector from tool args; `nameKey` is the arg that holds a plain name
+ */
+function selectorArgs(args: Record<string, unknown> | undefined, nameKey = 'name'): ObjectSelector {
+    const { uuid, path, selector, [nameKey]: name } = (args ?? {}) as Record<string, string | undefined>;
+    if (!uuid && !path && !name && !selector) {
+        throw new Error(`Provide uuid, path, ${nameKey} or selector to select an object`);
+    }
+    return { uuid, path, name, selector };
+}
+
+function describeSelector(selector: ObjectSelector): string {
+    return selector.selector ?? selector.uuid ?? selector.path ?? selector.name ?? '';
+}
+
+/**
+ * " (N objects)" when a query selector expanded to several objects
+ */
+function matchedSuffix(result: { matched?: unknown[] }): string {
+    return result.matched ? ` (${result.matched.length} objects)` : '';
+}
+
+/**
+ * A tool's short text summary, with the same facts as structuredContent
+ */
+function toolResult(text: string, data: Record<string, unknown> = {}): CallToolResult {
+    return { content: [{ type: 'text', text }], structuredContent: { success: true, ...data } };
+}
+
+function toolError(text: string, data: Record<string, unknown> = {}): CallToolResult {
+    return { content: [{ type: 'text', text }], structuredContent: { success: false, error: text, ...data }, isError: true };
+}
 
 // List available tools
 server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools: TOOLS };
+    const clients = bridge.listClients();
+    return { tools: TOOLS.map((tool) => listedTool(tool, clients)).filter((tool): tool is Tool => tool !== null) };
 });
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+// Tool handlers, keyed by tool name
+const toolHandlers: Record<string, ToolHandler> = {
+    get_scene_state: async (args) => {
+        const maxDepth = (args as { maxDepth?: number })?.maxDepth ?? 3;
+        const result = await runCommand({ action: 'getFullSceneState', maxDepth });
+        const objects = result.data;
 
-    if (!bridge.isConnected() && !LOCAL_ONLY_TOOLS.has(name)) {
+        const source = result.source === 'mirror' ? ' (from the server\'s scene mirror; the app did not respond)' : '';
+        const lines = objects.map((obj) => `• ${obj.path} (${obj.type}) at ${obj.position}${obj.children ? `, ${obj.children} children` : ''}`);
+        return toolResult(`${objects.length} object(s) down to depth ${maxDepth}${source}:\n${lines.join('\n')}`, { objects, source: result.source });
+    },
+
+    find_objects: async (args) => {
+        const { name: objName, nameContains, type, hasUserData, selector } = args as {
+            name?: string; nameContains?: string; type?: string; hasUserData?: string; selector?: string;
+        };
+        const result = await runCommand({
+            action: 'findObjects',
+            name: objName,
+            selector,
+            filter: { nameContains, type, hasUserData },
+        });
+        const objects = result.data;
+        if (objects.length === 0) {
+            return toolResult('No matching objects', { objects });
+        }
+
+        const lines = objects.map((obj) => `• ${obj.path} (${obj.type}) at ${obj.position}, uuid ${obj.uuid}`);
+        return toolResult(`${objects.length} object(s):\n${lines.join('\n')}`, { objects });
+    },
+
+    get_object_position: async (args) => {
+        const selector = selectorArgs(args);
+        const result = await runCommand({ action: 'inspectObject', ...selector });
+        const { data } = result;
+        const position = { name: data.name, uuid: data.uuid, path: data.path, position: data.local.position, worldPosition: data.world.position };
+        return toolResult(JSON.stringify(position, null, 2), position);
+    },
+
+    inspect_object: async (args) => {
+        const result = await runCommand({ action: 'inspectObject', ...selectorArgs(args) });
+        return toolResult(JSON.stringify(result.data, null, 2), { object: result.data });
+    },
+
+    raycast: async (args) => {
+        const { origin, direction, ndc, far, limit, includeHidden } = (args ?? {}) as {
+            origin?: number[];
+            direction?: number[];
+            ndc?: number[];
+            far?: number;
+            limit?: number;
+            includeHidden?: boolean;
+        };
+        const result = await runCommand({ action: 'raycast', origin, direction, ndc, far, limit, includeHidden });
+        const hits = result.data;
+        if (hits.length === 0) {
+            return toolResult('No hits', { hits });
+        }
+
+        const lines = hits.map((hit, i) => {
+            const normal = hit.normal ? `, normal [${hit.normal.map(formatNumber).join(', ')}]` : '';
+            return `${i + 1}. ${hit.path} (${hit.type}) at ${formatNumber(hit.distance)}: point [${hit.point.map(formatNumber).join(', ')}]${normal}`;
+        });
+        return toolResult(lines.join('\n'), { hits });
+    },
+
+    query_region: async (args) => {
+        const { min, max, center, radius, mode, includeHidden } = (args ?? {}) as {
+            min?: number[];
+            max?: number[];
+            center?: number[];
+            radius?: number;
+            mode?: 'intersects' | 'contains';
+            includeHidden?: boolean;
+        };
+        const box = min && max ? { min, max } : undefined;
+        const sphere = center && typeof radius === 'number' ? { center, radius } : undefined;
+        const result = await runCommand({ action: 'queryRegion', box, sphere, mode, includeHidden });
+        const objects = result.data;
+        if (objects.length === 0) {
+            return toolResult('No objects in region', { objects });
+        }
+
+        const lines = objects.map((obj) =>
+            `${obj.path} (${obj.type}): bounds [${obj.bounds.min.map(formatNumber).join(', ')}] → [${obj.bounds.max.map(formatNumber).join(', ')}]`
+        );
+        return toolResult(`${objects.length} object(s) in region:\n${lines.join('\n')}`, { objects });
+    },
+
+    nearest_objects: async (args) => {
+        const { point, count, maxDistance, type, includeHidden } = args as {
+            point: number[];
+            count?: number;
+            maxDistance?: number;
+            type?: string;
+            includeHidden?: boolean;
+        };
+        const result = await runCommand({ action: 'nearestObjects', point, count, maxDistance, type, includeHidden });
+        const objects = result.data;
+        if (objects.length === 0) {
+            return toolResult('No objects found', { objects });
+        }
+
+        const lines = objects.map((obj, i) => `${i + 1}. ${obj.path} (${obj.type}) at ${formatNumber(obj.distance ?? 0)}`);
+        return toolResult(lines.join('\n'), { objects });
+    },
+
+    log_positions: async (args) => {
+        const { filter } = (args ?? {}) as { filter?: string };
+        const result = await runCommand({ action: 'logPositions', filter: { nameContains: filter } });
+        const entries = result.data;
+        if (entries.length === 0) {
+            return toolResult(filter ? `No named objects matching "${filter}"` : 'No named objects in scene', { objects: entries });
+        }
+
+        const lines = entries.map((entry) =>
+            `${entry.name}: position={[${entry.position.map(formatNumber).join(', ')}]}`
+        );
+        return toolResult(lines.join('\n'), { objects: entries });
+    },
+
+    set_camera_position: async (args) => {
+        const { name: cameraName, position, lookAt } = args as {
+            name?: string;
+            position: [number, number, number];
+            lookAt?: [number, number, number];
+        };
+        const lens = pickLens(args ?? {});
+        await runCommand({
+            action: 'setCameraPosition',
+            name: cameraName,
+            position,
+            lookAt,
+            ...lens,
+        });
+        const target = cameraName ? `camera "${cameraName}"` : 'camera';
+        return toolResult(`OK. Set ${target} position to [${position.join(', ')}]`, {
+            camera: { name: cameraName, position, lookAt, ...lens },
+        });
+    },
+
+    set_camera_projection: async (args) => {
+        const { projection } = args as { projection: CameraProjection };
+        const result = await runCommand({ action: 'setCameraProjection', projection });
+        const state = result.data;
+
+        const lens = projection === 'orthographic'
+            ? `zoom ${formatNumber(state.zoom ?? 1)}`
+            : `fov ${formatNumber(state.fov ?? 50)}`;
+        const text = state.previous
+            ? `OK. Switched from ${state.previous} to ${projection} camera "${state.name}" (${lens})`
+            : `OK. Camera "${state.name}" is already ${projection} (${lens})`;
+        const { previous, ...camera } = state;
+        return toolResult(text, { projection, previous, camera });
+    },
+
+    frame_objects: async (args) => {
+        const { direction, padding, animate, duration, saveAs, ...target } = (args ?? {}) as {
+            name?: string;
+            uuid?: string;
+            path?: string;
+            selector?: string;
+            direction?: string | number[];
+            padding?: number;
+            animate?: boolean;
+            duration?: number;
+            saveAs?: string;
+        };
+        const result = await runCommand({
+            action: 'frameObjects',
+            ...target,
+            direction,
+            padding,
+            animate: animate || false,
+            duration: duration || 1000,
+        });
+        const framed = result.data;
+
+        const what = target.selector || target.name || target.uuid || target.path;
+        let text = `OK. Framed ${what ? `"${what}"` : 'the scene'} (${framed.objects} object${framed.objects === 1 ? '' : 's'}): ` +
+            `camera at [${framed.position.map(formatNumber).join(', ')}] looking at [${framed.center.map(formatNumber).join(', ')}], ` +
+            `distance ${formatNumber(framed.distance)}, radius ${formatNumber(framed.radius)}`;
+
+        if (saveAs) {
+            const state = await runCommand({ action: 'getCameraState' });
+            const camera = state.data;
+            cameraPresets.savePreset({
+                name: saveAs,
+                position: framed.position as [number, number, number],
+                lookAt: framed.center as [number, number, number],
+                projection: camera.projection,
+                ...pickLens(camera),
+            });
+            resources.notifyUpdated(PRESETS_URI);
+            text += `\nSaved as camera preset "${saveAs}"`;
+        }
+
+        return toolResult(text, {
+            framed: framed.objects,
+            center: framed.center,
+            radius: framed.radius,
+            distance: framed.distance,
+            camera: { position: framed.position, lookAt: framed.center },
+            preset: saveAs,
+        });
+    },
+
+    save_camera_preset: async (args) => {
+        const { name: presetName, description, fromCurrent, position, lookAt, target } = args as {
+            name: string;
+            description?: string;
+            fromCurrent?: boolean;
+            position?: [number, number, number];
+            lookAt?: [number, number, number];
+            target?: [number, number, number];
+        };
+
+        let current: Partial<CameraPreset> & { name?: string; target?: [number, number, number]; error?: string } = {};
+        if (fromCurrent ?? !position) {
+            const result = await runCommand({ action: 'getCameraState' });
+            current = result.data as typeof current;
+            if (current.error) throw new Error(current.error);
+        }
+
+        const preset: CameraPreset = {
+            name: presetName,
+            position: position ?? current.position!,
+            lookAt: target ?? lookAt ?? current.target ?? current.lookAt,
+            projection: current.projection,
+            ...pickLens(current),
+            ...pickLens(args ?? {}),
+            description
+        };
+        if (!preset.position) {
+            return toolError('Error: Provide a position or use fromCurrent');
+        }
+
+        cameraPresets.savePreset(preset);
+        resources.notifyUpdated(PRESETS_URI);
+
+        const source = current.position ? ` from camera "${current.name}"` : '';
+        const view = `position [${preset.position.map(formatNumber).join(', ')}]` +
+            (preset.lookAt ? `, lookAt [${preset.lookAt.map(formatNumber).join(', ')}]` : '') +
+            (preset.fov !== undefined ? `, fov ${formatNumber(preset.fov)}` : '') +
+            (preset.projection === 'orthographic' ? `, orthographic zoom ${formatNumber(preset.zoom ?? 1)}` : '');
+        return toolResult(`OK. Saved camera preset "${presetName}"${source}: ${view}`, { preset });
+    },
+
+    load_camera_preset: async (args) => {
+        const { name: presetName, animate, duration } = args as {
+            name: string;
+            animate?: boolean;
+            duration?: number;
+        };
+
+        const preset = cameraPresets.loadPreset(presetName);
+        if (!preset) {
+            return toolError(`Error: Preset "${presetName}" not found`);
+        }
+
+        await applyCameraPreset(preset, animate || false, duration || 1000);
+
+        return toolResult(`OK. Loaded camera preset "${presetName}"${animate ? ' with animation' : ''}`, { preset });
+    },
+
+    list_camera_presets: async (args) => {
+        const presets = cameraPresets.listPresets();
+        if (presets.length === 0) {
+            return toolResult('No camera presets saved yet. Default presets: overhead, front, side, perspective, closeup, wideangle', { presets });
+        }
+
+        const list = presets.map(p =>
+            `• ${p.name}: [${p.position.join(', ')}]${p.projection === 'orthographic' ? ' (orthographic)' : ''}${p.description ? ` - ${p.description}` : ''}`
+        ).join('\n');
+
+        return toolResult(`Camera Presets:\n${list}`, { presets });
+    },
+
+    delete_camera_preset: async (args) => {
+        const { name: presetName } = args as { name: string };
+        const deleted = cameraPresets.deletePreset(presetName);
+        if (deleted) {
+            resources.notifyUpdated(PRESETS_URI);
+        }
+
+        if (deleted) {
+            return toolResult(`OK. Deleted preset "${presetName}"`, { name: presetName });
+        } else {
+            return toolError(`Error: Preset "${presetName}" not found`);
+        }
+    },
+
+    import_camera_presets: async (args) => {
+        const { path, replace } = args as { path: string; replace?: boolean };
+        const collection = parsePresetCollection(await readFile(path, 'utf-8'), path);
+        cameraPresets.importPresets(collection, replace);
+        resources.notifyUpdated(PRESETS_URI);
+
+        const count = Object.keys(collection.presets).length;
+        return toolResult(`OK. Imported ${count} camera preset(s) from ${path}${replace ? ', replacing existing presets' : ''}`, { imported: count, path });
+    },
+
+    export_camera_presets: async (args) => {
+        const { path } = args as { path: string };
+        const collection = cameraPresets.exportPresets();
+        writeFileAtomic(path, JSON.stringify(collection, null, 2));
+        const count = Object.keys(collection.presets).length;
+        return toolResult(`OK. Exported ${count} camera preset(s) to ${path}`, { exported: count, path });
+    },
+
+    play_camera_path: async (args, context) => {
+        const { name: pathName, wait } = (args ?? {}) as { name?: string; wait?: boolean };
+        const saved = pathName ? cameraPresets.loadPath(pathName) : undefined;
+        if (pathName && !saved) {
+            return toolError(`Error: Path "${pathName}" not found`);
+        }
+
+        const overrides = pathOptions(args);
+        // Explicit points or presets replace the saved route rather than merging with it
+        const base = saved && (overrides.points || overrides.presets) ? { ...saved, points: undefined, presets: undefined } : saved;
+        const spec = cameraPresets.resolvePath({ ...base, ...overrides });
+        const id = `camera_path_${++cameraPathCount}`;
+
+        // Subscribe first: a zero-length flight completes before the command returns
+        const watcher = watchCameraPath(id, (spec.duration ?? 5000) + CAMERA_PATH_GRACE, (progress) => {
+            void context.reportProgress(Math.round(progress * 100), 100, `Camera path ${Math.round(progress * 100)}%`);
+        });
+        let result: ResponseOf<'playCameraPath'>;
         try {
-            await bridge.connect();
-        } catch {
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `❌ Failed to connect to game. Make sure:\n1. Game is running (npm run dev)\n2. MCPBridge is added to your scene (auto-connects in dev mode)\n3. For production: Set VITE_MCP_ENABLED=true in .env file`,
-                    },
-                ],
-                isError: true,
-            };
+            result = await runCommand({ action: 'playCameraPath', id, cameraPath: spec });
+        } catch (error) {
+            watcher.cancel();
+            throw error;
         }
-    }
 
-    try {
-        switch (name) {
-            case 'get_scene_state': {
-                const maxDepth = (args as { maxDepth?: number })?.maxDepth ?? 3;
-                const result = await bridge.sendCommand({ action: 'getFullSceneState', maxDepth });
-                return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-            }
+        const label = pathName ? `"${pathName}"` : `through ${spec.points.length} point(s)`;
+        const summary = `${formatNumber(result.duration / 1000)}s, ${formatNumber(result.length)} units`;
+        const flight = { id: result.id, duration: result.duration, length: result.length, points: spec.points.length };
+        if (wait === false) {
+            watcher.cancel();
+            return toolResult(`OK. Started camera path ${label} (${summary})`, { ...flight, state: 'started' });
+        }
 
-            case 'find_objects': {
-                const { name: objName, nameContains, type, hasUserData } = args as {
-                    name?: string; nameContains?: string; type?: string; hasUserData?: string;
-                };
-                const result = await bridge.sendCommand({
-                    action: 'findObjects',
-                    name: objName,
-                    filter: { nameContains, type, hasUserData },
-                });
-                return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-            }
+        const state = await watcher.done;
+        const text = state === 'completed'
+            ? `OK. Flew camera path ${label} (${summary})`
+            : state === 'stopped'
+                ? `Camera path ${label} was stopped before it finished`
+                : `Camera path ${label} did not report completion; the browser tab may be in the background`;
+        return toolResult(text, { ...flight, state });
+    },
 
-            case 'get_object_position': {
-                const { name: objName } = args as { name: string };
-                const result = await bridge.sendCommand({ action: 'findObjects', name: objName });
-                return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-            }
+    stop_camera_path: async () => {
+        const result = await runCommand({ action: 'stopCameraPath' });
+        return toolResult(result.stopped ? 'OK. Stopped camera path' : 'No camera path is playing', { stopped: result.stopped });
+    },
 
-            case 'set_camera_position': {
-                const { name: cameraName, position, lookAt, fov, near, far } = args as {
-                    name?: string;
-                    position: [number, number, number];
-                    lookAt?: [number, number, number];
-                    fov?: number;
-                    near?: number;
-                    far?: number;
-                };
-                await bridge.sendCommand({
-                    action: 'setCameraPosition',
-                    name: cameraName,
-                    position,
-                    lookAt,
-                    fov,
-                    near,
-                    far,
-                });
-                const target = cameraName ? `camera "${cameraName}"` : 'camera';
-                return {
-                    content: [{
-                        type: 'text',
-                        text: `OK. Set ${target} position to [${position.join(', ')}]`
-                    }]
-                };
-            }
+    save_camera_path: async (args) => {
+        const { name: pathName, description } = args as { name: string; description?: string };
+        const definition: CameraPathDefinition = { name: pathName, description, ...pathOptions(args) };
+        // Fails early on missing presets or points
+        const spec = cameraPresets.resolvePath(definition);
 
-            case 'save_camera_preset': {
-                const { name: presetName, description } = args as { name: string; description?: string };
-
-                // Get current camera position from scene
-                const currentCamera = await bridge.sendCommand({ action: 'getCameraState' }) as {
-                    position: [number, number, number];
-                    lookAt?: [number, number, number];
-                    fov?: number;
-                    near?: number;
-                    far?: number;
-                };
-
-                const preset: CameraPreset = {
-                    name: presetName,
-                    position: currentCamera.position,
-                    lookAt: currentCamera.lookAt,
-                    fov: currentCamera.fov,
-                    near: currentCamera.near,
-                    far: currentCamera.far,
-                    description
-                };
-
-                cameraPresets.savePreset(preset);
-                return {
-                    content: [{
-                        type: 'text',
-                        text: `OK. Saved camera preset "${presetName}"`
-                    }]
-                };
-            }
+        cameraPresets.savePath(definition);
+        resources.notifyUpdated(PRESETS_URI);
+        return toolResult(`OK. Saved camera path "${pathName}" through ${spec.points.length} point(s)`, { name: pathName, points: spec.points.length });
+    },
 
-            case 'load_camera_preset': {
-                const { name: presetName, animate, duration } = args as {
-                    name: string;
-                    animate?: boolean;
-                    duration?: number;
-                };
-
-                const preset = cameraPresets.loadPreset(presetName);
-                if (!preset) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: `Error: Preset "${presetName}" not found`
-                        }]
-                    };
-                }
+    list_camera_paths: async () => {
+        const paths = cameraPresets.listPaths();
+        if (paths.length === 0) {
+            return toolResult('No camera paths saved yet.', { paths });
+        }
 
-                await bridge.sendCommand({
-                    action: 'setCameraPosition',
-                    position: preset.position,
-                    lookAt: preset.lookAt,
-                    fov: preset.fov,
-                    near: preset.near,
-                    far: preset.far,
-                    animate: animate || false,
-                    duration: duration || 1000
-                });
-
-                return {
-                    content: [{
-                        type: 'text',
-                        text: `OK. Loaded camera preset "${presetName}"${animate ? ' with animation' : ''}`
-                    }]
-                };
-            }
+        const list = paths.map((p) => {
+            const route = p.presets ? `presets ${p.presets.join(' → ')}` : `${p.points?.length ?? 0} points`;
+            return `• ${p.name}: ${route}, ${p.curve ?? 'catmullrom'}, ${formatNumber((p.duration ?? 5000) / 1000)}s${p.description ? ` - ${p.description}` : ''}`;
+        }).join('\n');
 
-            case 'list_camera_presets': {
-                const presets = cameraPresets.listPresets();
-                if (presets.length === 0) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: 'No camera presets saved yet. Default presets: overhead, front, side, perspective, closeup, wideangle'
-                        }]
-                    };
-                }
+        return toolResult(`Camera Paths:\n${list}`, { paths });
+    },
 
-                const list = presets.map(p =>
-                    `• ${p.name}: [${p.position.join(', ')}]${p.description ? ` - ${p.description}` : ''}`
-                ).join('\n');
+    delete_camera_path: async (args) => {
+        const { name: pathName } = args as { name: string };
+        if (!cameraPresets.deletePath(pathName)) {
+            return toolError(`Error: Path "${pathName}" not found`);
+        }
 
-                return {
-                    content: [{
-                        type: 'text',
-                        text: `Camera Presets:\n${list}`
-                    }]
-                };
-            }
+        resources.notifyUpdated(PRESETS_URI);
+        return toolResult(`OK. Deleted path "${pathName}"`, { name: pathName });
+    },
 
-            case 'delete_camera_preset': {
-                const { name: presetName } = args as { name: string };
-                const deleted = cameraPresets.deletePreset(presetName);
-
-                if (deleted) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: `OK. Deleted preset "${presetName}"`
-                        }]
-                    };
-                } else {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: `Error: Preset "${presetName}" not found`
-                        }]
-                    };
+    animate_camera_presets: async (args) => {
+        const { presets, duration, hold, repeat } = args as {
+            presets: string[];
+            duration?: number;
+            hold?: number;
+            repeat?: number;
+        };
+
+        const missing = presets.filter((presetName) => !cameraPresets.loadPreset(presetName));
+        if (missing.length > 0) {
+            return toolError(`Error: Missing presets: ${missing.join(', ')}`);
+        }
+
+        const sequence = presets.map((presetName) => cameraPresets.loadPreset(presetName)!);
+        const stepDuration = typeof duration === 'number' && Number.isFinite(duration) ? duration : 1000;
+        const holdDuration = typeof hold === 'number' && Number.isFinite(hold) ? hold : 0;
+        const repeats = typeof repeat === 'number' && Number.isFinite(repeat) ? Math.max(1, Math.floor(repeat)) : 1;
+
+        for (let loop = 0; loop < repeats; loop += 1) {
+            for (const preset of sequence) {
+                await applyCameraPreset(preset, true, stepDuration);
+
+                if (holdDuration > 0) {
+                    await sleep(holdDuration);
                 }
             }
+        }
 
-            case 'animate_camera_presets': {
-                const { presets, duration, hold, repeat } = args as {
-                    presets: string[];
-                    duration?: number;
-                    hold?: number;
-                    repeat?: number;
-                };
-
-                if (!Array.isArray(presets) || presets.length < 2) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: 'Error: Provide at least two preset names to animate.'
-                        }],
-                        isError: true,
-                    };
-                }
+        return toolResult(`OK. Animated camera through ${presets.length} preset(s) x${repeats}.`, { presets, repeat: repeats });
+    },
 
-                const missing = presets.filter((presetName) => !cameraPresets.loadPreset(presetName));
-                if (missing.length > 0) {
-                    return {
-                        content: [{
-                            type: 'text',
-                            text: `Error: Missing presets: ${missing.join(', ')}`
-                        }],
-                        isError: true,
-                    };
-                }
+    move_object: async (args) => {
+        const selector = selectorArgs(args);
+        const { position } = args as { position: [number, number, number] };
+        const result = await runCommand({ action: 'moveSceneObject', ...selector, position });
+        return toolResult(`✅ Moved "${describeSelector(selector)}"${matchedSuffix(result)} to [${position.join(', ')}]`, { objects: result.objects ?? [] });
+    },
 
-                const sequence = presets.map((presetName) => cameraPresets.loadPreset(presetName)!);
-                const stepDuration = typeof duration === 'number' && Number.isFinite(duration) ? duration : 1000;
-                const holdDuration = typeof hold === 'number' && Number.isFinite(hold) ? hold : 0;
-                const repeats = typeof repeat === 'number' && Number.isFinite(repeat) ? Math.max(1, Math.floor(repeat)) : 1;
-
-                for (let loop = 0; loop < repeats; loop += 1) {
-                    for (const preset of sequence) {
-                        await bridge.sendCommand({
-                            action: 'setCameraPosition',
-                            position: preset.position,
-                            lookAt: preset.lookAt,
-                            fov: preset.fov,
-                            near: preset.near,
-                            far: preset.far,
-                            animate: true,
-                            duration: stepDuration,
-                        });
-
-                        if (holdDuration > 0) {
-                            await sleep(holdDuration);
-                        }
-                    }
-                }
+    spawn_entity: async (args) => {
+        const { type, name: entityName, position, color, parentName } = args as {
+            type: PrimitiveType; name: string; position?: [number, number, number]; color?: string; parentName?: string;
+        };
+        const result = await runCommand({
+            action: 'addPrimitive',
+            type,
+            name: entityName,
+            position: position || [0, 0, 0],
+            color,
+            parent: parentName,
+        });
+        return toolResult(`✅ Spawned "${entityName}" (${type}) at [${(position || [0, 0, 0]).join(', ')}] (uuid: ${result.uuid})`, { objects: result.objects ?? [] });
+    },
 
-                return {
-                    content: [{
-                        type: 'text',
-                        text: `OK. Animated camera through ${presets.length} preset(s) x${repeats}.`
-                    }]
-                };
-            }
+    destroy_entity: async (args) => {
+        const selector = selectorArgs(args);
+        const result = await runCommand({ action: 'removeObject', ...selector });
+        return toolResult(`✅ Destroyed "${describeSelector(selector)}"${matchedSuffix(result)}`, { objects: result.objects ?? [] });
+    },
 
-            case 'move_object': {
-                const { name: objName, position } = args as { name: string; position: [number, number, number] };
-                const result = await bridge.sendCommand({ action: 'moveSceneObject', path: objName, position });
-                return {
-                    content: [{
-                        type: 'text',
-                        text: result ? `✅ Moved "${objName}" to [${position.join(', ')}]` : `❌ Object "${objName}" not found`
-                    }]
-                };
-            }
+    set_transform: async (args) => {
+        const selector = selectorArgs(args);
+        const { position, rotation, scale } = args as {
+            position?: [number, number, number]; rotation?: [number, number, number]; scale?: [number, number, number];
+        };
+        const objName = describeSelector(selector);
+        const updates: string[] = [];
+        const steps: BridgeCommand[] = [];
+        if (position) {
+            steps.push({ action: 'moveSceneObject', ...selector, position });
+            updates.push(`position: [${position.join(', ')}]`);
+        }
+        if (rotation) {
+            steps.push({ action: 'setRotation', ...selector, rotation });
+            updates.push(`rotation: [${rotation.join(', ')}]`);
+        }
+        if (scale) {
+            steps.push({ action: 'setScale', ...selector, scale });
+            updates.push(`scale: [${scale.join(', ')}]`);
+        }
+        if (steps.length === 0) {
+            return toolResult('⚠️ No transform properties specified', { objects: [] });
+        }
 
-            case 'spawn_entity': {
-                const { type, name: entityName, position, color, parentName } = args as {
-                    type: string; name: string; position?: [number, number, number]; color?: string; parentName?: string;
-                };
-                await bridge.sendCommand({
-                    action: 'addPrimitive',
-                    type: type.toLowerCase(),
-                    name: entityName,
-                    position: position || [0, 0, 0],
-                    material: color ? { color } : undefined,
-                    parent: parentName,
-                });
-                return {
-                    content: [{
-                        type: 'text',
-                        text: `✅ Spawned "${entityName}" (${type}) at [${(position || [0, 0, 0]).join(', ')}]`
-                    }]
-                };
-            }
+        const result = await runCommand({ action: 'batch', steps });
+        // The steps run in order, so the last one saw every change
+        const last = result.steps[result.steps.length - 1]?.result as { objects?: AffectedObject[] } | undefined;
+        return toolResult(`✅ Updated "${objName}": ${updates.join(', ')}`, { objects: last?.objects ?? [] });
+    },
 
-            case 'destroy_entity': {
-                const { name: entityName } = args as { name: string };
-                const result = await bridge.sendCommand({ action: 'removeObject', id: entityName, name: entityName });
-                return {
-                    content: [{
-                        type: 'text',
-                        text: result ? `✅ Destroyed "${entityName}"` : `❌ Object "${entityName}" not found`
-                    }]
-                };
-            }
+    set_visibility: async (args) => {
+        const selector = selectorArgs(args);
+        const { visible } = args as { visible: boolean };
+        const result = await runCommand({ action: 'setVisibility', ...selector, visible });
+        return toolResult(`✅ ${visible ? 'Showed' : 'Hid'} "${describeSelector(selector)}"${matchedSuffix(result)}`, { objects: result.objects ?? [] });
+    },
 
-            case 'set_transform': {
-                const { name: objName, position, rotation, scale } = args as {
-                    name: string; position?: [number, number, number]; rotation?: [number, number, number]; scale?: [number, number, number];
-                };
-                const updates: string[] = [];
-                if (position) {
-                    await bridge.sendCommand({ action: 'moveSceneObject', path: objName, position });
-                    updates.push(`position: [${position.join(', ')}]`);
-                }
-                if (rotation) {
-                    await bridge.sendCommand({ action: 'setRotation', id: objName, name: objName, rotation });
-                    updates.push(`rotation: [${rotation.join(', ')}]`);
-                }
-                if (scale) {
-                    await bridge.sendCommand({ action: 'setScale', id: objName, name: objName, scale });
-                    updates.push(`scale: [${scale.join(', ')}]`);
-                }
-                return {
-                    content: [{
-                        type: 'text',
-                        text: updates.length > 0 ? `✅ Updated "${objName}": ${updates.join(', ')}` : `⚠️ No transform properties specified`
-                    }]
-                };
-            }
+    capture_screenshot: async (args) => {
+        const { width, height, format, quality, cameraPreset, highlight, highlightColor } = (args ?? {}) as {
+            width?: number;
+            height?: number;
+            format?: 'png' | 'jpeg';
+            quality?: number;
+            cameraPreset?: string;
+            highlight?: string[];
+            highlightColor?: string;
+        };
 
-            case 'set_visibility': {
-                const { name: objName, visible } = args as { name: string; visible: boolean };
-                await bridge.sendCommand({ action: 'setVisibility', name: objName, visible });
-                return { content: [{ type: 'text', text: `✅ ${visible ? 'Showed' : 'Hid'} "${objName}"` }] };
+        let camera: CommandOf<'captureScreenshot'>['camera'];
+        if (cameraPreset) {
+            const preset = cameraPresets.loadPreset(cameraPreset);
+            if (!preset) {
+                return toolError(`Error: Preset "${cameraPreset}" not found`);
             }
+            camera = { position: preset.position, lookAt: preset.lookAt, ...pickLens(preset) };
+        }
 
-            case 'apply_vibe': {
-                const { vibe } = args as { vibe: string };
-                await bridge.sendCommand({ action: 'applyVibe', vibe });
-                return { content: [{ type: 'text', text: `✅ Applied vibe "${vibe}"` }] };
-            }
+        const result = await runCommand({
+            action: 'captureScreenshot',
+            width,
+            height,
+            format,
+            quality,
+            camera,
+            highlight,
+            highlightColor,
+        }, SCREENSHOT_TIMEOUT);
 
-            case 'set_environment': {
-                const { preset } = args as { preset: string };
-                await bridge.sendCommand({ action: 'setEnvironment', preset });
-                return { content: [{ type: 'text', text: `✅ Set environment to "${preset}"` }] };
-            }
+        const match = /^data:([^;]+);base64,(.*)$/.exec(result.dataUrl);
+        if (!match) {
+            throw new Error('Client returned an invalid image dataURL');
+        }
 
-            case 'apply_impulse': {
-                const { name: objName, vector } = args as { name: string; vector: [number, number, number] };
-                await bridge.sendCommand({ action: 'applyImpulse', name: objName, vector });
-                return { content: [{ type: 'text', text: `✅ Applied impulse [${vector.join(', ')}] to "${objName}"` }] };
-            }
+        return {
+            content: [
+                { type: 'image', data: match[2], mimeType: match[1] },
+                { type: 'text', text: `Captured ${result.width}x${result.height} ${match[1]}${cameraPreset ? ` from preset "${cameraPreset}"` : ''}` },
+            ],
+            structuredContent: { success: true, width: result.width, height: result.height, mimeType: match[1] },
+        };
+    },
 
-            case 'set_gravity': {
-                const { vector } = args as { vector: [number, number, number] };
-                await bridge.sendCommand({ action: 'setGravity', vector });
-                return { content: [{ type: 'text', text: `✅ Set global gravity to [${vector.join(', ')}]` }] };
-            }
+    rename_entity: async (args) => {
+        const selector = selectorArgs(args, 'oldName');
+        const { newName } = args as { newName: string };
+        const result = await runCommand({ action: 'renameObject', ...selector, newName });
+        return toolResult(`✅ Renamed "${describeSelector(selector)}" to "${newName}" (uuid: ${result.uuid})`, { objects: result.objects ?? [] });
+    },
 
-            case 'analyze_gltf': {
-                const { path } = args as { path: string };
-                const result = await analyzeGltf(path);
-                return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-            }
+    duplicate_entity: async (args) => {
+        const selector = selectorArgs(args);
+        const { newName, offset } = args as { newName: string; offset?: [number, number, number] };
+        const result = await runCommand({ action: 'duplicateObject', ...selector, newName, offset });
+        const offsetText = offset ? ` offset by [${offset.join(', ')}]` : '';
+        return toolResult(`✅ Duplicated "${describeSelector(selector)}" as "${newName}"${offsetText} (uuid: ${result.uuid})`, { objects: result.objects ?? [] });
+    },
 
-            case 'validate_asset': {
-                const { path, limits } = args as { path: string; limits?: Record<string, number> };
-                const result = await validateGltf(path, limits);
-                return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-            }
+    batch: async (args) => {
+        const { steps } = args as { steps: BridgeCommand[] };
+        if (!Array.isArray(steps) || steps.length === 0) {
+            return toolError('Error: Provide at least one step.');
+        }
 
-            case 'optimize_gltf': {
-                const { path, output, options } = args as {
-                    path: string;
-                    output?: string;
-                    options?: Record<string, unknown>;
-                };
-                const result = await optimizeGltf(path, {
-                    outputPath: output,
-                    dedup: options?.dedup as boolean | undefined,
-                    prune: options?.prune as boolean | undefined,
-                    weld: options?.weld as boolean | undefined,
-                    quantize: options?.quantize as boolean | undefined,
-                    simplify: options?.simplify as {
-                        ratio?: number;
-                        error?: number;
-                        lockBorder?: boolean;
-                    } | undefined,
-                    textures: options?.textures as {
-                        format?: 'jpeg' | 'png' | 'webp' | 'avif';
-                        resize?: [number, number] | 'nearest-pot' | 'ceil-pot' | 'floor-pot';
-                        quality?: number;
-                        useSharp?: boolean;
-                    } | undefined,
-                });
-                return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-            }
+        const result = await sendToClient({ action: 'batch', steps });
 
-            case 'export_to_svelte': {
-                const { path, output, componentName, assetUrl, mode } = args as {
-                    path: string;
-                    output?: string;
-                    componentName?: string;
-                    assetUrl?: string;
-                    mode?: 'nodes' | 'primitive';
-                };
-                const result = await exportToSvelte(path, {
-                    outputPath: output,
-                    componentName,
-                    assetUrl,
-                    mode,
-                });
-                return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
-            }
+        const lines = (result.steps ?? []).map((step) =>
+            `${step.status === 'applied' ? '✅' : step.status === 'failed' ? '❌' : '↩️'} ${step.index}. ${step.action}: ${step.status}${step.error ? ` (${step.error})` : ''}`
+        );
+        if (!result.success) {
+            const summary = `❌ Batch failed and was rolled back: ${result.error ?? 'unknown error'}`;
+            return toolError([summary, ...lines].join('\n'), { error: result.error, steps: result.steps ?? [] });
+        }
+        return toolResult([`✅ Applied batch of ${steps.length} step(s)`, ...lines].join('\n'), { steps: result.steps });
+    },
 
-            case 'load_asset': {
-                const { url, name: objName, position, scale } = args as {
-                    url: string; name: string; position?: [number, number, number]; scale?: [number, number, number];
-                };
-                await bridge.sendCommand({ action: 'loadAsset', url, name: objName, position, scale });
-                return { content: [{ type: 'text', text: `✅ Loaded asset "${objName}" from ${url}` }] };
-            }
+    undo: async (args) => {
+        const { steps } = (args ?? {}) as { steps?: number };
+        const result = await runCommand({ action: 'undo', count: steps });
+        const labels = result.data;
+        return toolResult(`✅ Undid ${labels.length} edit(s):\n${labels.map((label) => `• ${label}`).join('\n')}`, { edits: labels });
+    },
 
-            case 'apply_material': {
-                const { name: objName, type, color, preset } = args as {
-                    name: string; type?: string; color?: string; preset?: string;
-                };
-                await bridge.sendCommand({ action: 'applyMaterial', name: objName, type: type || 'Standard', color, preset });
-                return { content: [{ type: 'text', text: `✅ Applied material to "${objName}"` }] };
-            }
+    redo: async (args) => {
+        const { steps } = (args ?? {}) as { steps?: number };
+        const result = await runCommand({ action: 'redo', count: steps });
+        const labels = result.data;
+        return toolResult(`✅ Redid ${labels.length} edit(s):\n${labels.map((label) => `• ${label}`).join('\n')}`, { edits: labels });
+    },
 
-            case 'get_bridge_status': {
-                return { content: [{ type: 'text', text: JSON.stringify(bridge.getStatus(), null, 2) }] };
-            }
+    get_history: async () => {
+        const result = await runCommand({ action: 'getHistory' });
+        return toolResult(JSON.stringify(result.data, null, 2), result.data as Record<string, unknown>);
+    },
 
-            default:
-                return { content: [{ type: 'text', text: `Unknown tool: ${name}` }], isError: true };
+    save_scene_snapshot: async (args) => {
+        const { name: snapshotName, description } = args as { name: string; description?: string };
+        const result = await runCommand({ action: 'getSceneSnapshot' });
+        const snapshot = result.data;
+        const file = await sceneSnapshots.save(snapshotName, snapshot, description);
+        return toolResult(`✅ Saved scene snapshot "${snapshotName}" (${snapshot.objects.length} objects) to ${file}`, {
+            name: snapshotName,
+            file,
+            count: snapshot.objects.length,
+        });
+    },
+
+    restore_scene_snapshot: async (args) => {
+        const { name: snapshotName } = args as { name: string };
+        const saved = await sceneSnapshots.load(snapshotName);
+        const result = await runCommand({ action: 'restoreSceneSnapshot', snapshot: saved.snapshot });
+
+        const lines = [`✅ Restored scene snapshot "${snapshotName}" (${result.restored ?? 0} objects)`];
+        if (result.created?.length) lines.push(`Recreated: ${result.created.join(', ')}`);
+        if (result.removed?.length) lines.push(`Removed: ${result.removed.join(', ')}`);
+        if (result.missing?.length) lines.push(`❌ Not found: ${result.missing.join(', ')}`);
+        return toolResult(lines.join('\n'), {
+            name: snapshotName,
+            restored: result.restored ?? 0,
+            created: result.created ?? [],
+            removed: result.removed ?? [],
+            missing: result.missing ?? [],
+        });
+    },
+
+    list_scene_snapshots: async () => {
+        const snapshots = await sceneSnapshots.list();
+        if (snapshots.length === 0) {
+            return toolResult('No scene snapshots saved yet.', { snapshots });
         }
-    } catch (error) {
-        return {
-            content: [{ type: 'text', text: `Error executing ${name}: ${error instanceof Error ? error.message : String(error)}` }],
-            isError: true,
+
+        const list = snapshots.map((info) =>
+            `• ${info.name}: ${info.objects} objects, saved ${new Date(info.savedAt).toISOString()}${info.description ? ` - ${info.description}` : ''}`
+        ).join('\n');
+        return toolResult(`Scene Snapshots:\n${list}`, { snapshots });
+    },
+
+    make_physical: async (args) => {
+        const selector = selectorArgs(args);
+        const { type, colliders, mass, friction, restitution, gravityScale } = args as {
+            type?: string;
+            colliders?: string;
+            mass?: number;
+            friction?: number;
+            restitution?: number;
+            gravityScale?: number;
+        };
+        const bodyType = type || 'dynamic';
+        const result = await runCommand({
+            action: 'makePhysical',
+            ...selector,
+            type: bodyType,
+            colliders: colliders || 'auto',
+            mass,
+            friction,
+            restitution,
+            gravityScale,
+        });
+        return toolResult(`✅ Added ${bodyType} physics body to "${describeSelector(selector)}"${matchedSuffix(result)}`, { objects: result.objects ?? [] });
+    },
+
+    remove_physics: async (args) => {
+        const selector = selectorArgs(args);
+        const result = await runCommand({ action: 'removePhysics', ...selector });
+        return toolResult(`✅ Removed physics body from "${describeSelector(selector)}"${matchedSuffix(result)}`, { objects: result.objects ?? [] });
+    },
+
+    apply_vibe: async (args) => {
+        const { vibe } = args as { vibe: string };
+        await runCommand({ action: 'applyVibe', vibe });
+        return toolResult(`✅ Applied vibe "${vibe}"`, { vibe });
+    },
+
+    set_environment: async (args) => {
+        const { preset, blur, background } = args as { preset: string; blur?: number; background?: boolean };
+        await runCommand({ action: 'setEnvironment', preset, blur, background });
+        return toolResult(`✅ Set environment to "${preset}"`, { preset });
+    },
+
+    apply_impulse: async (args) => {
+        const selector = selectorArgs(args);
+        const { vector } = args as { vector: [number, number, number] };
+        const result = await runCommand({ action: 'applyImpulse', ...selector, vector });
+        const velocity = result.velocity
+            ? ` (velocity: [${result.velocity.map(formatNumber).join(', ')}])`
+            : '';
+        return toolResult(`✅ Applied impulse [${vector.join(', ')}] to "${describeSelector(selector)}"${matchedSuffix(result)}${velocity}`, {
+            objects: result.objects ?? [],
+            velocity: result.velocity,
+        });
+    },
+
+    set_gravity: async (args) => {
+        const { vector } = args as { vector: [number, number, number] };
+        await runCommand({ action: 'setGravity', vector });
+        return toolResult(`✅ Set global gravity to [${vector.join(', ')}]`, { gravity: vector });
+    },
+
+    analyze_gltf: async (args) => {
+        const { path } = args as { path: string };
+        const result = await analyzeGltf(path);
+        return toolResult(JSON.stringify(result, null, 2), { ...result });
+    },
+
+    validate_asset: async (args) => {
+        const { path, limits } = args as { path: string; limits?: Record<string, number> };
+        const result = await validateGltf(path, limits);
+        return toolResult(JSON.stringify(result, null, 2), { ...result });
+    },
+
+    optimize_gltf: async (args) => {
+        const { path, output, options } = args as {
+            path: string;
+            output?: string;
+            options?: Record<string, unknown>;
+        };
+        const result = await optimizeGltf(path, {
+            outputPath: output,
+            dedup: options?.dedup as boolean | undefined,
+            prune: options?.prune as boolean | undefined,
+            weld: options?.weld as boolean | undefined,
+            quantize: options?.quantize as boolean | undefined,
+            simplify: options?.simplify as {
+                ratio?: number;
+                error?: number;
+                lockBorder?: boolean;
+            } | undefined,
+            textures: options?.textures as {
+                format?: 'jpeg' | 'png' | 'webp' | 'avif';
+                resize?: [number, number] | 'nearest-pot' | 'ceil-pot' | 'floor-pot';
+                quality?: number;
+                useSharp?: boolean;
+            } | undefined,
+        });
+        return toolResult(JSON.stringify(result, null, 2), { ...result });
+    },
+
+    export_to_svelte: async (args) => {
+        const { path, output, componentName, assetUrl, mode } = args as {
+            path: string;
+            output?: string;
+            componentName?: string;
+            assetUrl?: string;
+            mode?: 'nodes' | 'primitive';
         };
+        const result = await exportToSvelte(path, {
+            outputPath: output,
+            componentName,
+            assetUrl,
+            mode,
+        });
+        return toolResult(JSON.stringify(result, null, 2), { ...result });
+    },
+
+    commit_changes_to_source: async (args) => {
+        const { root, selector, write } = (args ?? {}) as { root?: string; selector?: string; write?: boolean };
+        const state = await runCommand({ action: 'getSourceState', selector });
+        const result = await commitChangesToSource(state.data, { root, write });
+
+        const lines = result.changes.length === 0
+            ? ['No source changes: live values match the .svelte files']
+            : [
+                write
+                    ? `✅ Wrote ${result.changes.length} object change(s) to ${result.written.join(', ')}`
+                    : `${result.changes.length} object change(s), not written yet (call again with write: true):`,
+                ...result.changes.map((change) => `• ${change.object} → ${change.file}:${change.line} (${change.props.join(', ')})`),
+            ];
+        if (result.skipped.length > 0) {
+            lines.push('Skipped:', ...result.skipped.map((skip) => `• ${skip.object}: ${skip.reason}`));
+        }
+        if (result.diff) {
+            lines.push('', '```diff', result.diff.trimEnd(), '```');
+        }
+        return toolResult(lines.join('\n'), { ...result });
+    },
+
+    load_asset: async (args) => {
+        const { url, name: objName, position, scale } = args as {
+            url: string; name: string; position?: [number, number, number]; scale?: [number, number, number];
+        };
+        const result = await runCommand({ action: 'loadAsset', url, name: objName, position, scale }, ASSET_LOAD_TIMEOUT);
+        return toolResult(`✅ Loaded asset "${objName}" from ${url}`, { objects: result.objects ?? [] });
+    },
+
+    apply_material: async (args) => {
+        const selector = selectorArgs(args);
+        const { type, color, preset } = args as { type?: string; color?: string; preset?: string };
+        const result = await runCommand({ action: 'applyMaterial', ...selector, type, color, preset });
+        return toolResult(`✅ Applied material to "${describeSelector(selector)}"${matchedSuffix(result)}`, { objects: result.objects ?? [] });
+    },
+
+    get_performance_stats: async (args) => {
+        const { frames, top } = (args ?? {}) as { frames?: number; top?: number };
+        const result = await runCommand({ action: 'getPerformanceStats', frames, top });
+        const stats = result.data;
+
+        const megabytes = (bytes: number) => formatNumber(bytes / (1024 * 1024));
+        const lines = [
+            stats.frames
+                ? `Frame time (last ${stats.frames.samples} frames): avg ${formatNumber(stats.frames.avgMs)} ms, p95 ${formatNumber(stats.frames.p95Ms)} ms, max ${formatNumber(stats.frames.maxMs)} ms (${formatNumber(stats.frames.fps)} FPS)`
+                : 'Frame time: no samples yet (call bridge.update() every frame)',
+            stats.renderer
+                ? `Renderer: ${stats.renderer.calls} draw calls, ${stats.renderer.triangles} triangles, ${stats.renderer.points} points, ${stats.renderer.lines} lines, ${stats.renderer.geometries} geometries, ${stats.renderer.textures} textures, ${stats.renderer.programs} programs`
+                : 'Renderer: not available (pass renderer in MCPBridgeOptions)',
+            stats.memory
+                ? `JS heap: ${megabytes(stats.memory.usedJSHeapSize)} / ${megabytes(stats.memory.totalJSHeapSize)} MB (limit ${megabytes(stats.memory.jsHeapSizeLimit)} MB)`
+                : 'JS heap: not reported by this browser',
+            `Scene: ${stats.scene.objects} visible objects, ${stats.scene.meshes} meshes, ${stats.scene.triangles} triangles`,
+        ];
+        if (stats.heaviestMeshes.length > 0) {
+            lines.push('Heaviest meshes:');
+            stats.heaviestMeshes.forEach((mesh, i) => lines.push(`${i + 1}. ${mesh.path} (${mesh.type}): ${mesh.triangles} triangles`));
+        }
+        return toolResult(lines.join('\n'), { ...stats });
+    },
+
+    get_bridge_status: async () => {
+        const status = bridge.getStatus();
+        return toolResult(JSON.stringify(status, null, 2), status);
+    },
+
+    list_clients: async () => {
+        const clients = bridge.listClients();
+        if (clients.length === 0) {
+            return toolResult('No clients connected', { clients: [] });
+        }
+
+        const now = Date.now();
+        const lines = clients.map((client, i) => {
+            const modules = Object.entries(client.modules ?? {}).filter(([, enabled]) => enabled).map(([module]) => module);
+            const details = [
+                client.url,
+                client.canvasId ? `canvas #${client.canvasId}` : undefined,
+                client.protocolVersion !== undefined
+                    ? `threlte-mcp ${client.version ?? 'unknown'}, protocol ${client.protocolVersion}`
+                    : 'no handshake (older client)',
+                client.modules ? `modules: ${modules.join(', ') || 'none'}` : undefined,
+                `connected ${Math.round((now - client.connectedAt) / 1000)}s ago`,
+            ].filter(Boolean).join(', ');
+            const isDefault = i === clients.length - 1 ? ' (default)' : '';
+            return `• ${client.id} "${client.name}"${isDefault}: ${details}`;
+        });
+        const listed = clients.map((client, i) => ({ ...client, default: i === clients.length - 1 }));
+        return toolResult(`Connected clients:\n${lines.join('\n')}`, { clients: listed });
+    },
+};
+
+/**
+ * Fail at startup if an advertised tool has no handler (or vice versa)
+ */
+function assertToolHandlers(): void {
+    const advertised = new Set(TOOLS.map((tool) => tool.name));
+    const missing = [...advertised].filter((toolName) => !(toolName in toolHandlers));
+    const orphaned = Object.keys(toolHandlers).filter((toolName) => !advertised.has(toolName));
+
+    const unchecked = [...advertised].filter((toolName) => !LOCAL_ONLY_TOOLS.has(toolName) && !(toolName in TOOL_REQUIREMENTS));
+
+    if (missing.length > 0 || orphaned.length > 0 || unchecked.length > 0) {
+        const problems: string[] = [];
+        if (missing.length > 0) problems.push(`tools without a handler: ${missing.join(', ')}`);
+        if (orphaned.length > 0) problems.push(`handlers without a tool definition: ${orphaned.join(', ')}`);
+        if (unchecked.length > 0) problems.push(`bridge tools without requirements: ${unchecked.join(', ')}`);
+        throw new Error(`Tool registry mismatch - ${problems.join('; ')}`);
+    }
+}
+
+// Handle tool calls
+server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+    const context: ToolContext = {
+        reportProgress: async (progress, total, message) => {
+            if (progressToken === undefined) return;
+            // Progress is best effort; the caller may already have gone away
+            await extra.sendNotification({
+                method: 'notifications/progress',
+                params: { progressToken, progress, total, message },
+            }).catch(() => {});
+        },
+    };
+
+    const handler = toolHandlers[name];
+    const tool = TOOLS.find((candidate) => candidate.name === name);
+    if (!handler || !tool) {
+        return toolError(`Unknown tool: ${name}`);
+    }
+
+    const issues = validateToolArguments(tool.inputSchema as JsonSchema, args ?? {});
+    if (issues.length > 0) {
+        return toolError(`Invalid arguments for ${name}: ${formatIssues(issues)}`);
+    }
+
+    const client = typeof args?.client === 'string' && args.client !== '' ? args.client : undefined;
+    if (client && !LOCAL_ONLY_TOOLS.has(name) && !bridge.isConnected(client)) {
+        return toolError(`No connected client "${client}". Connected: ${bridge.listClients().map((info) => `${info.id} "${info.name}"`).join(', ') || 'none'}`);
+    }
+
+    if (!bridge.isConnected() && !LOCAL_ONLY_TOOLS.has(name)) {
+        try {
+            await bridge.connect();
+        } catch {
+            return toolError(`❌ Failed to connect to game. Make sure:\n1. Game is running (npm run dev)\n2. MCPBridge is added to your scene (auto-connects in dev mode)\n3. For production: Set VITE_MCP_ENABLED=true in .env file`);
+        }
+    }
+
+    try {
+        return await targetClient.run(client, () => handler(args, context));
+    } catch (error) {
+        return toolError(`Error executing ${name}: ${error instanceof Error ? error.message : String(error)}`);
     }
 });
 
 // Start the server
 async function main() {
+    assertToolHandlers();
+
+    // Presets persist to a project file; THRELTE_MCP_PRESETS overrides its path
+    try {
+        cameraPresets.useFile(process.env.THRELTE_MCP_PRESETS || DEFAULT_PRESETS_FILE);
+    } catch (error) {
+        console.error('[CameraPresets] Keeping presets in memory only:', error instanceof Error ? error.message : error);
+    }
+    cameraPresets.onChange(() => resources.notifyUpdated(PRESETS_URI));
+    // Best effort: fails until the transport is connected
+    bridge.onClientsChange(() => {
+        server.sendToolListChanged().catch(() => {});
+    });
+
     const transport = new StdioServerTransport();
     await server.connect(transport);
     console.error('🎮 Threlte MCP Server ready');
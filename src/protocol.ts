@@ -0,0 +1,845 @@
+/**
+ * Bridge Protocol
+ *
+ * The messages MCPBridge (in the app) and BridgeServer exchange: every action's
+ * command and response, the messages the client pushes on its own and the
+ * server's welcome. Each is declared once as a schema; the TypeScript types are
+ * inferred from the schemas, so what either side checks at runtime is exactly
+ * what the other side compiles against. A message that does not match comes
+ * back as a list of issues with the path of each bad field.
+ *
+ * Dependency-free: the server build and the client build both compile this file.
+ */
+
+/** Bumped on incompatible changes to the bridge messages */
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+/**
+ * threlte-mcp version the client build reports in its hello; the server reads
+ * package.json, and the tests check the two agree
+ */
+export const PACKAGE_VERSION = '1.4.0';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEMAS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ValidationIssue {
+    /** Field the issue is about, e.g. `steps[2].position`; empty for the message itself */
+    path: string;
+    message: string;
+}
+
+export interface Schema<T> {
+    /** What a valid value looks like, for issue messages */
+    readonly expected: string;
+    readonly optional?: boolean;
+    check(value: unknown, path: string, issues: ValidationIssue[]): void;
+    /** Never set: carries T for Infer */
+    readonly __type?: T;
+}
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+    readonly optional: true;
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Expand<T> = T extends infer O ? { [K in keyof O]: O[K] } : never;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+
+type InferShape<S extends Shape> = Expand<
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+    { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return `an array of ${value.length}`;
+    if (typeof value === 'string') return value.length <= 40 ? JSON.stringify(value) : 'a long string';
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return typeof value;
+}
+
+function at(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function leaf<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+    return {
+        expected,
+        check(value, path, issues) {
+            if (!test(value)) issues.push({ path, message: `Expected ${expected}, got ${describe(value)}` });
+        },
+    };
+}
+
+const str = () => leaf<string>('a string', (value) => typeof value === 'string');
+const num = () => leaf<number>('a number', (value) => typeof value === 'number' && Number.isFinite(value));
+const bool = () => leaf<boolean>('a boolean', (value) => typeof value === 'boolean');
+const unknown = () => leaf<unknown>('any value', () => true);
+
+function literal<const T extends readonly (string | number | boolean)[]>(...values: T): Schema<T[number]> {
+    return leaf(values.map((value) => JSON.stringify(value)).join(' | '), (value) => values.includes(value as T[number]));
+}
+
+/** Finite numbers, `length` of them when given */
+function vector(length?: number, expected = length ? `${length} numbers` : 'an array of numbers'): Schema<number[]> {
+    const item = num();
+    return {
+        expected,
+        check(value, path, issues) {
+            if (!Array.isArray(value) || (length !== undefined && value.length !== length)) {
+                issues.push({ path, message: `Expected ${expected}, got ${describe(value)}` });
+                return;
+            }
+            value.forEach((entry, i) => item.check(entry, at(path, i), issues));
+        },
+    };
+}
+
+const vec3 = () => vector(3, '[x, y, z]');
+
+function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+    return { ...schema, optional: true };
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return {
+        expected: `${schema.expected} or null`,
+        check(value, path, issues) {
+            if (value !== null) schema.check(value, path, issues);
+        },
+    };
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+    return {
+        expected: `an array of ${item.expected}`,
+        check(value, path, issues) {
+            if (!Array.isArray(value)) {
+                issues.push({ path, message: `Expected an array, got ${describe(value)}` });
+                return;
+            }
+            value.forEach((entry, i) => item.check(entry, at(path, i), issues));
+        },
+    };
+}
+
+/** Unknown keys are allowed, so either side can add fields without breaking the other */
+function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+    return {
+        expected: 'an object',
+        check(value, path, issues) {
+            if (!isRecord(value)) {
+                issues.push({ path, message: `Expected an object, got ${describe(value)}` });
+                return;
+            }
+            for (const [key, schema] of Object.entries(shape)) {
+                if (value[key] === undefined) {
+                    if (!schema.optional) issues.push({ path: at(path, key), message: `Missing, expected ${schema.expected}` });
+                    continue;
+                }
+                schema.check(value[key], at(path, key), issues);
+            }
+        },
+    };
+}
+
+function union<S extends Schema<unknown>[]>(...schemas: S): Schema<Infer<S[number]>> {
+    const expected = schemas.map((schema) => schema.expected).join(' or ');
+    return {
+        expected,
+        check(value, path, issues) {
+            const fits = schemas.some((schema) => {
+                const found: ValidationIssue[] = [];
+                schema.check(value, path, found);
+                return found.length === 0;
+            });
+            if (!fits) issues.push({ path, message: `Expected ${expected}, got ${describe(value)}` });
+        },
+    };
+}
+
+type Variants<K extends string, V extends Record<string, Shape>> = {
+    [T in keyof V]: Expand<{ [P in K]: T } & InferShape<V[T]>>;
+}[keyof V];
+
+/** Objects told apart by the string in `key`, each with its own fields */
+function tagged<K extends string, V extends Record<string, Shape>>(key: K, variants: V): Schema<Variants<K, V>> {
+    const schemas = new Map(Object.entries(variants).map(([tag, shape]) => [tag, object(shape)]));
+    return {
+        expected: `an object with a ${key}`,
+        check(value, path, issues) {
+            if (!isRecord(value)) {
+                issues.push({ path, message: `Expected an object, got ${describe(value)}` });
+                return;
+            }
+            const tag = value[key];
+            const schema = typeof tag === 'string' ? schemas.get(tag) : undefined;
+            if (!schema) {
+                issues.push({
+                    path: at(path, key),
+                    message: typeof tag === 'string' ? `Unknown ${key} "${tag}"` : `Expected a string, got ${describe(tag)}`,
+                });
+                return;
+            }
+            schema.check(value, path, issues);
+        },
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SHARED SHAPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+const cameraProjection = () => literal('perspective', 'orthographic');
+
+/** What addPrimitive and addLight can create; `cube` is another name for `box` */
+export const PRIMITIVE_TYPES = ['box', 'cube', 'sphere', 'cylinder', 'plane'] as const;
+export const LIGHT_TYPES = ['point', 'directional', 'spot', 'ambient'] as const;
+
+export type PrimitiveType = (typeof PRIMITIVE_TYPES)[number];
+export type LightType = (typeof LIGHT_TYPES)[number];
+
+/** Camera path easings, implemented by EASINGS in client/CameraPath.ts */
+export const EASING_NAMES = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'easeInCubic', 'easeOutCubic', 'easeInOutCubic', 'easeInOutSine'] as const;
+
+export type EasingName = (typeof EASING_NAMES)[number];
+
+const lensFields = {
+    fov: optional(num()),
+    near: optional(num()),
+    far: optional(num()),
+    zoom: optional(num()),
+    left: optional(num()),
+    right: optional(num()),
+    top: optional(num()),
+    bottom: optional(num()),
+};
+
+/** One object: uuid wins over path, path over name */
+const objectFields = {
+    uuid: optional(str()),
+    path: optional(str()),
+    name: optional(str()),
+};
+
+/** One object, or with `selector` (a query, see client/ObjectQuery.ts) every object it matches */
+const targetFields = {
+    ...objectFields,
+    selector: optional(str()),
+};
+
+const selectorCandidate = object({
+    uuid: str(),
+    name: str(),
+    type: str(),
+    path: str(),
+});
+
+const sceneNode = object({
+    uuid: str(),
+    name: str(),
+    type: str(),
+    /** Parent uuid, null for direct children of the scene */
+    parent: nullable(str()),
+    position: vec3(),
+    rotation: vec3(),
+    scale: vec3(),
+    visible: bool(),
+});
+
+/** Where a command left an object it changed, created or removed: local transform, rotation in radians */
+const affectedObject = object({
+    uuid: str(),
+    name: str(),
+    type: str(),
+    path: str(),
+    position: vec3(),
+    rotation: vec3(),
+    scale: vec3(),
+    visible: bool(),
+});
+
+const sceneEvent = tagged('type', {
+    objectAdded: { object: sceneNode, index: num() },
+    objectRemoved: { uuid: str() },
+    objectUpdated: {
+        uuid: str(),
+        changes: object({
+            name: optional(str()),
+            position: optional(vec3()),
+            rotation: optional(vec3()),
+            scale: optional(vec3()),
+            visible: optional(bool()),
+        }),
+    },
+});
+
+const sceneObject = object({
+    name: str(),
+    uuid: str(),
+    path: str(),
+    type: str(),
+    position: str(),
+    children: num(),
+});
+
+const spatialObject = object({
+    name: str(),
+    path: str(),
+    uuid: str(),
+    type: str(),
+    /** World-space bounds of the object's own geometry (a point for objects without geometry) */
+    bounds: object({ min: vec3(), max: vec3() }),
+    /** Distance to the query point, nearestObjects only */
+    distance: optional(num()),
+});
+
+const snapshotMaterialFields = {
+    color: optional(str()),
+    emissive: optional(str()),
+    metalness: optional(num()),
+    roughness: optional(num()),
+    opacity: num(),
+    transparent: bool(),
+};
+
+const snapshotMaterial = object({
+    type: str(),
+    ...snapshotMaterialFields,
+    /** Has texture maps, which a snapshot cannot recreate */
+    textured: bool(),
+});
+
+/** How the bridge created an object, kept in `userData.mcpSpawn` so snapshots can recreate it */
+const spawnRecord = tagged('action', {
+    addPrimitive: { type: str(), size: optional(vector()), color: optional(str()) },
+    addLight: { type: str(), color: optional(str()), intensity: optional(num()) },
+});
+
+const snapshotObject = object({
+    uuid: str(),
+    name: str(),
+    type: str(),
+    path: str(),
+    /** Parent uuid, null for direct children of the scene */
+    parent: nullable(str()),
+    position: vec3(),
+    quaternion: vector(4, '[x, y, z, w]'),
+    scale: vec3(),
+    visible: bool(),
+    materials: optional(array(snapshotMaterial)),
+    spawn: optional(spawnRecord),
+});
+
+const sceneSnapshot = object({
+    version: literal(1),
+    /** Parent-first order */
+    objects: array(snapshotObject),
+    camera: nullable(object({ position: vec3(), lookAt: vec3(), projection: optional(cameraProjection()), ...lensFields })),
+});
+
+const sourceObjectState = object({
+    uuid: str(),
+    name: str(),
+    path: str(),
+    /** `file:line:column` injected by the threlte-mcp/preprocess source locations preprocessor */
+    source: optional(str()),
+    position: vec3(),
+    rotation: vec3(),
+    scale: vec3(),
+    visible: bool(),
+    material: optional(object(snapshotMaterialFields)),
+});
+
+/** Camera path as the client plays it, see CameraPathSpec in client/CameraPath.ts */
+const cameraPathSpec = object({
+    points: array(vec3()),
+    curve: optional(literal('catmullrom', 'centripetal', 'bezier', 'linear')),
+    tension: optional(num()),
+    closed: optional(bool()),
+    /** A fixed point, or a track of points */
+    lookAt: optional(union(vec3(), array(vec3()))),
+    fov: optional(vector()),
+    duration: optional(num()),
+    easing: optional(literal(...EASING_NAMES)),
+    constantSpeed: optional(bool()),
+});
+
+// Camera state as getCameraState reports it; only `error` when there is no camera
+const cameraStateFields = {
+    name: optional(str()),
+    position: optional(vec3()),
+    rotation: optional(vec3()),
+    lookAt: optional(vec3()),
+    /** Controls target, when the app passes controls */
+    target: optional(vec3()),
+    projection: optional(cameraProjection()),
+    ...lensFields,
+    error: optional(str()),
+};
+
+const performanceStats = object({
+    frames: nullable(object({ samples: num(), avgMs: num(), p95Ms: num(), maxMs: num(), fps: num() })),
+    renderer: nullable(object({
+        calls: num(),
+        triangles: num(),
+        points: num(),
+        lines: num(),
+        geometries: num(),
+        textures: num(),
+        programs: num(),
+    })),
+    memory: nullable(object({ usedJSHeapSize: num(), totalJSHeapSize: num(), jsHeapSizeLimit: num() })),
+    scene: object({ objects: num(), meshes: num(), triangles: num() }),
+    heaviestMeshes: array(object({ name: str(), path: str(), uuid: str(), type: str(), triangles: num() })),
+});
+
+const batchStepResult = object({
+    index: num(),
+    action: str(),
+    status: literal('applied', 'failed', 'rolledBack', 'skipped'),
+    result: optional(unknown()),
+    error: optional(str()),
+});
+
+/** A batch step is a command of its own, checked against its action's schema */
+const batchStep: Schema<{ action: string } & Record<string, unknown>> = {
+    expected: 'a command',
+    check(value, path, issues) {
+        commandSchema.check(value, path, issues);
+    },
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ACTIONS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Fields every successful response may have */
+const successFields = {
+    success: literal(true),
+    /** Objects a selector matched, for commands applied once per match */
+    matched: optional(array(selectorCandidate)),
+    /** Objects the command changed, created or removed */
+    objects: optional(array(affectedObject)),
+};
+
+/** Fields every failed response may have */
+const failureFields = {
+    success: literal(false),
+    error: optional(str()),
+    /** Objects an ambiguous name or path matched */
+    candidates: optional(array(selectorCandidate)),
+    /** Objects a selector matched, for commands applied to several */
+    matched: optional(array(selectorCandidate)),
+    /** Fields of the command that did not match its schema */
+    issues: optional(array(object({ path: str(), message: str() }))),
+};
+
+function action<P extends Shape, R extends Shape, F extends Shape = {}>(params: P, response: R, failure?: F) {
+    return {
+        params,
+        response: object({ ...successFields, ...response }),
+        // Spreading an optional `failure` would lose its fields from the type
+        failure: object(Object.assign({}, failureFields, failure)),
+    };
+}
+
+/**
+ * Every action the client handles: the command's fields (besides `action` and
+ * `requestId`), the fields of a successful response (besides `success`) and
+ * any fields a failed response has besides the common ones. A command with a
+ * `selector` that runs once per match answers with `matched` and without
+ * per-object fields, so those actions' response fields are all optional.
+ */
+const ACTIONS = {
+    // Scene Inspection
+    getFullSceneState: action({ maxDepth: optional(num()) }, {
+        data: array(sceneObject),
+        /** Set when the server answered from its scene mirror because the client timed out */
+        source: optional(literal('mirror')),
+    }),
+    findObjects: action({
+        name: optional(str()),
+        selector: optional(str()),
+        filter: optional(object({ nameContains: optional(str()), type: optional(str()), hasUserData: optional(str()) })),
+    }, {
+        data: array(sceneObject),
+        source: optional(literal('mirror')),
+    }),
+    inspectObject: action(objectFields, {
+        // The full inspection is passed through; these are the parts the server reads
+        data: object({
+            uuid: str(),
+            name: str(),
+            type: str(),
+            path: str(),
+            local: object({ position: vec3() }),
+            world: object({ position: vec3() }),
+        }),
+    }),
+    logPositions: action({ filter: optional(object({ nameContains: optional(str()) })) }, {
+        data: array(object({ name: str(), uuid: str(), path: str(), position: vec3() })),
+    }),
+
+    // Spatial Queries
+    raycast: action({
+        origin: optional(vec3()),
+        direction: optional(vec3()),
+        /** Screen point in normalized device coordinates, cast from the camera */
+        ndc: optional(vector(2, '[x, y]')),
+        far: optional(num()),
+        limit: optional(num()),
+        includeHidden: optional(bool()),
+    }, {
+        data: array(object({
+            name: str(),
+            path: str(),
+            uuid: str(),
+            type: str(),
+            distance: num(),
+            point: vec3(),
+            normal: optional(vec3()),
+            faceIndex: optional(num()),
+        })),
+    }),
+    queryRegion: action({
+        box: optional(object({ min: vec3(), max: vec3() })),
+        sphere: optional(object({ center: vec3(), radius: num() })),
+        mode: optional(literal('intersects', 'contains')),
+        includeHidden: optional(bool()),
+    }, {
+        data: array(spatialObject),
+    }),
+    nearestObjects: action({
+        point: vec3(),
+        count: optional(num()),
+        maxDistance: optional(num()),
+        type: optional(str()),
+        includeHidden: optional(bool()),
+    }, {
+        data: array(spatialObject),
+    }),
+
+    // Object Manipulation
+    moveObject: action({ ...targetFields, position: vec3() }, {}),
+    moveSceneObject: action({ ...targetFields, position: vec3() }, {}),
+    setRotation: action({ ...targetFields, rotation: vec3() }, {}),
+    setScale: action({ ...targetFields, scale: vec3() }, {}),
+    setVisibility: action({ ...targetFields, visible: bool() }, {}),
+    lookAt: action({ ...targetFields, target: vec3() }, {}),
+    setOpacity: action({ ...targetFields, opacity: num() }, {}),
+
+    // Camera
+    getCameraState: action({}, { data: object(cameraStateFields) }),
+    setCameraPosition: action({
+        /** Camera name, informational */
+        name: optional(str()),
+        position: vec3(),
+        lookAt: optional(vec3()),
+        ...lensFields,
+        animate: optional(bool()),
+        duration: optional(num()),
+    }, {}),
+    frameObjects: action({
+        ...targetFields,
+        /** View direction as a vector or a named side (front, top, iso...) */
+        direction: optional(union(vec3(), str())),
+        padding: optional(num()),
+        animate: optional(bool()),
+        duration: optional(num()),
+    }, {
+        data: object({ objects: num(), center: vec3(), radius: num(), position: vec3(), distance: num() }),
+    }),
+    setCameraProjection: action({ projection: cameraProjection() }, {
+        /** `previous` is missing when the camera already had the projection */
+        data: object({ ...cameraStateFields, previous: optional(cameraProjection()) }),
+    }),
+    playCameraPath: action({ id: optional(str()), cameraPath: cameraPathSpec }, {
+        id: str(),
+        duration: num(),
+        length: num(),
+    }),
+    stopCameraPath: action({}, { stopped: optional(str()) }),
+    getCameraPathStatus: action({}, {
+        data: object({ playing: bool(), id: optional(str()), progress: optional(num()), duration: optional(num()) }),
+    }),
+
+    // Object Lifecycle
+    addObject: action({
+        type: str(),
+        name: optional(str()),
+        position: optional(vec3()),
+        color: optional(str()),
+        size: optional(vector()),
+        /** Name of the object to attach to (default: the scene) */
+        parent: optional(str()),
+    }, {
+        id: str(),
+        uuid: str(),
+    }),
+    addPrimitive: action({
+        type: literal(...PRIMITIVE_TYPES),
+        name: optional(str()),
+        position: optional(vec3()),
+        color: optional(str()),
+        size: optional(vector()),
+        /** Name of the object to attach to (default: the scene) */
+        parent: optional(str()),
+    }, {
+        id: str(),
+        uuid: str(),
+    }),
+    removeObject: action({ ...targetFields, id: optional(str()) }, {}),
+    duplicateObject: action({ ...objectFields, newName: str(), offset: optional(vec3()) }, { id: str(), uuid: str() }),
+    renameObject: action({ ...objectFields, newName: str() }, { id: str(), uuid: str() }),
+    batch: action({ steps: array(batchStep) }, { steps: array(batchStepResult) }, { steps: optional(array(batchStepResult)) }),
+
+    // History
+    undo: action({ count: optional(num()) }, { data: array(str()) }),
+    redo: action({ count: optional(num()) }, { data: array(str()) }),
+    getHistory: action({}, { data: unknown() }),
+
+    // Animation
+    startRotation: action({ id: str(), speed: optional(num()) }, {}),
+    stopRotation: action({ id: str() }, {}),
+
+    // Lights
+    addLight: action({
+        type: literal(...LIGHT_TYPES),
+        name: optional(str()),
+        position: optional(vec3()),
+        color: optional(str()),
+        intensity: optional(num()),
+    }, {
+        id: str(),
+        uuid: str(),
+    }),
+
+    // Materials & Assets
+    loadAsset: action({
+        url: str(),
+        name: optional(str()),
+        position: optional(vec3()),
+        scale: optional(vec3()),
+    }, {
+        id: str(),
+        uuid: str(),
+    }),
+    applyMaterial: action({
+        ...targetFields,
+        type: optional(str()),
+        color: optional(str()),
+        preset: optional(str()),
+    }, {}),
+    setEnvironment: action({ preset: str(), blur: optional(num()), background: optional(bool()) }, {}),
+    captureScreenshot: action({
+        format: optional(literal('png', 'jpeg')),
+        quality: optional(num()),
+        width: optional(num()),
+        height: optional(num()),
+        /** Render from this view instead of the active camera's */
+        camera: optional(object({ position: vec3(), lookAt: optional(vec3()), ...lensFields })),
+        highlight: optional(array(str())),
+        highlightColor: optional(str()),
+    }, {
+        dataUrl: str(),
+        width: num(),
+        height: num(),
+        mimeType: str(),
+    }),
+
+    // Atmosphere
+    applyVibe: action({ vibe: str() }, {}),
+
+    // Physics
+    makePhysical: action({
+        ...targetFields,
+        type: optional(str()),
+        colliders: optional(str()),
+        mass: optional(num()),
+        friction: optional(num()),
+        restitution: optional(num()),
+        gravityScale: optional(num()),
+    }, {}),
+    removePhysics: action(targetFields, {}),
+    applyImpulse: action({ ...targetFields, vector: vec3() }, {
+        /** Missing when a selector applied the impulse to several objects */
+        velocity: optional(vec3()),
+    }),
+    setGravity: action({ vector: vec3() }, {}),
+
+    // Snapshots
+    getSceneSnapshot: action({}, { data: sceneSnapshot }),
+    restoreSceneSnapshot: action({ snapshot: sceneSnapshot }, {
+        restored: num(),
+        /** Paths of spawned objects that were recreated */
+        created: array(str()),
+        /** Paths of spawned objects that did not exist in the snapshot */
+        removed: array(str()),
+        /** Paths that could not be found or recreated */
+        missing: array(str()),
+    }),
+    getSourceState: action({ selector: optional(str()) }, { data: array(sourceObjectState) }),
+
+    // Performance
+    getPerformanceStats: action({ frames: optional(num()), top: optional(num()) }, { data: performanceStats }),
+};
+
+type Actions = typeof ACTIONS;
+
+export type ActionName = keyof Actions;
+
+export const ACTION_NAMES = Object.keys(ACTIONS) as ActionName[];
+
+/** Fields of an action's command besides `action` */
+export type CommandParams<A extends ActionName> = InferShape<Actions[A]['params']>;
+
+export type BridgeCommand = { [A in ActionName]: Expand<{ action: A } & CommandParams<A>> }[ActionName];
+
+/** A command of one action, `A` inferred from its `action` */
+export type CommandOf<A extends ActionName> = { action: A } & CommandParams<A>;
+
+/** What a client answers when a command fails, whatever its action */
+export type BridgeFailure = InferShape<typeof failureFields>;
+
+/** A failed response to an `A` command */
+export type FailureOf<A extends ActionName> = Infer<Actions[A]['failure']>;
+
+/**
+ * A successful response. Commands that change objects list them in `objects`.
+ */
+export type ResponseOf<A extends ActionName> = Infer<Actions[A]['response']>;
+
+// Mapped over the actions so indexing with a generic `A` keeps each action's own types
+const RESPONSE_SCHEMAS: { [A in ActionName]: { response: Schema<ResponseOf<A>>; failure: Schema<FailureOf<A>> } } = ACTIONS;
+
+export type SelectorCandidate = Infer<typeof selectorCandidate>;
+export type AffectedObject = Infer<typeof affectedObject>;
+export type SceneNodeData = Infer<typeof sceneNode>;
+export type SceneEvent = Infer<typeof sceneEvent>;
+export type SceneNodeChanges = Extract<SceneEvent, { type: 'objectUpdated' }>['changes'];
+export type SceneSnapshot = Infer<typeof sceneSnapshot>;
+export type SceneSnapshotObject = Infer<typeof snapshotObject>;
+export type SceneSnapshotMaterial = Infer<typeof snapshotMaterial>;
+export type SpawnRecord = Infer<typeof spawnRecord>;
+export type SourceObjectState = Infer<typeof sourceObjectState>;
+export type CameraPathSpec = Infer<typeof cameraPathSpec>;
+
+const commandSchema = tagged('action', Object.fromEntries(
+    Object.entries(ACTIONS).map(([name, { params }]) => [name, params])
+) as { [A in ActionName]: Actions[A]['params'] });
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MESSAGES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Optional parts of a client that some tools depend on */
+export type ClientModule = 'physics' | 'renderer' | 'environment';
+
+/** Messages the client sends on its own, besides command responses */
+const clientMessageSchema = tagged('type', {
+    /** First message after connecting; fields are missing for clients that predate the handshake */
+    hello: {
+        protocolVersion: optional(num()),
+        version: optional(str()),
+        name: optional(str()),
+        url: optional(str()),
+        canvasId: optional(str()),
+        actions: optional(array(str())),
+        modules: optional(object({ physics: optional(bool()), renderer: optional(bool()), environment: optional(bool()) })),
+    },
+    /** The whole scene graph, on connect */
+    sceneSnapshot: { objects: array(sceneNode) },
+    /** Changes since the last frame */
+    sceneEvents: { events: array(sceneEvent) },
+    cameraPathProgress: {
+        id: str(),
+        progress: num(),
+        state: literal('playing', 'completed', 'stopped'),
+    },
+});
+
+/** Messages the server sends besides commands */
+const serverMessageSchema = tagged('type', {
+    /** Answer to the hello */
+    welcome: {
+        protocolVersion: num(),
+        version: str(),
+        /** Id the server lists this client under */
+        clientId: str(),
+        compatible: bool(),
+    },
+});
+
+export type ClientMessage = Infer<typeof clientMessageSchema>;
+export type ServerMessage = Infer<typeof serverMessageSchema>;
+export type ClientMessageOf<T extends ClientMessage['type']> = Extract<ClientMessage, { type: T }>;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+    const issues: ValidationIssue[] = [];
+    schema.check(value, '', issues);
+    return issues.length === 0 ? { ok: true, value: value as T } : { ok: false, issues };
+}
+
+/**
+ * Check a command against its action's schema; an unknown action is an issue at `action`
+ */
+export function validateCommand(command: unknown): ValidationResult<BridgeCommand> {
+    return validate<BridgeCommand>(commandSchema, command);
+}
+
+/**
+ * Check a response to an `action` command. Failures only need the common fields and the action's own failure fields.
+ */
+export function validateResponse<A extends ActionName>(action: A, response: unknown): ValidationResult<ResponseOf<A> | FailureOf<A>> {
+    const schemas = RESPONSE_SCHEMAS[action];
+    if (isRecord(response) && response.success === false) {
+        return validate(schemas.failure, response);
+    }
+    return validate(schemas.response, response);
+}
+
+export function validateClientMessage(message: unknown): ValidationResult<ClientMessage> {
+    return validate(clientMessageSchema, message);
+}
+
+export function validateServerMessage(message: unknown): ValidationResult<ServerMessage> {
+    return validate(serverMessageSchema, message);
+}
+
+/**
+ * `path: message` per issue, on one line
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ');
+}
+
+/**
+ * Thrown for a message that does not match the protocol
+ */
+export class ProtocolError extends Error {
+    readonly issues: ValidationIssue[];
+
+    constructor(what: string, issues: ValidationIssue[]) {
+        super(`${what}: ${formatIssues(issues)}`);
+        this.name = 'ProtocolError';
+        this.issues = issues;
+    }
+}
@@ -0,0 +1,227 @@
+/**
+ * Scene Mirror
+ *
+ * Keeps a live copy of the client scene graph, built from the snapshot the
+ * client sends on connect and the batched change events it pushes every frame.
+ * Lets scene queries be answered without a round trip to the browser.
+ */
+
+import type { SceneEvent, SceneNodeChanges, SceneNodeData } from './protocol.js';
+
+export type { SceneEvent, SceneNodeChanges, SceneNodeData };
+
+/** Same shape the client returns from getFullSceneState/findObjects */
+export interface SceneObjectSummary {
+    name: string;
+    uuid: string;
+    path: string;
+    type: string;
+    position: string;
+    children: number;
+}
+
+export interface SceneMirrorFilter {
+    name?: string;
+    nameContains?: string;
+    type?: string;
+}
+
+/** Receives each applied batch, or null when the whole scene was replaced or cleared */
+export type SceneChangeListener = (events: SceneEvent[] | null) => void;
+
+export class SceneMirror {
+    private nodes: Map<string, SceneNodeData> = new Map();
+    private children: Map<string | null, string[]> = new Map();
+    private ready = false;
+    private updatedAt: number | null = null;
+    private listeners: Set<SceneChangeListener> = new Set();
+
+    /**
+     * Whether a snapshot has been received since the last reset
+     */
+    hasData(): boolean {
+        return this.ready;
+    }
+
+    lastUpdated(): number | null {
+        return this.updatedAt;
+    }
+
+    get size(): number {
+        return this.nodes.size;
+    }
+
+    getNode(uuid: string): SceneNodeData | undefined {
+        return this.nodes.get(uuid);
+    }
+
+    getChildren(uuid: string | null): SceneNodeData[] {
+        return (this.children.get(uuid) ?? [])
+            .map((childId) => this.nodes.get(childId))
+            .filter((node): node is SceneNodeData => node !== undefined);
+    }
+
+    /**
+     * Replace the mirror with a full snapshot (objects in parent-first order)
+     */
+    applySnapshot(objects: SceneNodeData[]): void {
+        this.nodes.clear();
+        this.children.clear();
+        for (const object of objects) {
+            this.insert(object, -1);
+        }
+        this.ready = true;
+        this.updatedAt = Date.now();
+        this.emit(null);
+    }
+
+    applyEvents(events: SceneEvent[]): void {
+        if (!this.ready) return;
+
+        for (const event of events) {
+            switch (event.type) {
+                case 'objectAdded': {
+                    // An object the mirror has is being moved, and keeps its descendants
+                    const existing = this.nodes.get(event.object.uuid);
+                    if (existing) this.detach(existing);
+                    this.insert(event.object, event.index);
+                    break;
+                }
+                case 'objectRemoved':
+                    this.remove(event.uuid);
+                    break;
+                case 'objectUpdated': {
+                    const node = this.nodes.get(event.uuid);
+                    if (node) Object.assign(node, event.changes);
+                    break;
+                }
+            }
+        }
+        this.updatedAt = Date.now();
+        this.emit(events);
+    }
+
+    /**
+     * Subscribe to scene changes, returns an unsubscribe function
+     */
+    onChange(listener: SceneChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    clear(): void {
+        this.nodes.clear();
+        this.children.clear();
+        this.ready = false;
+        this.updatedAt = null;
+        this.emit(null);
+    }
+
+    /**
+     * Find a node by the path returned from getPath()
+     */
+    findByPath(path: string): SceneNodeData | undefined {
+        for (const node of this.nodes.values()) {
+            if (this.getPath(node) === path) return node;
+        }
+        return undefined;
+    }
+
+    getSceneState(maxDepth = 10): SceneObjectSummary[] {
+        const result: SceneObjectSummary[] = [];
+
+        const traverse = (node: SceneNodeData, depth: number, path: string) => {
+            if (depth > maxDepth) return;
+
+            const childNodes = this.getChildren(node.uuid);
+            result.push(this.summarize(node, path, childNodes.length));
+            childNodes.forEach((child) => {
+                traverse(child, depth + 1, `${path}/${child.name || child.type}`);
+            });
+        };
+
+        this.getChildren(null).forEach((node) => {
+            traverse(node, 0, node.name || node.type);
+        });
+
+        return result;
+    }
+
+    findObjects(filter: SceneMirrorFilter): SceneObjectSummary[] {
+        if (!filter.name && !filter.nameContains && !filter.type) return [];
+
+        const results: SceneObjectSummary[] = [];
+        for (const node of this.nodes.values()) {
+            if (filter.name && node.name !== filter.name) continue;
+            if (filter.nameContains && !node.name.includes(filter.nameContains)) continue;
+            if (filter.type && node.type !== filter.type) continue;
+
+            results.push(this.summarize(node, this.getPath(node), this.children.get(node.uuid)?.length ?? 0));
+        }
+        return results;
+    }
+
+    /**
+     * Slash path using names (or types for unnamed nodes), matching MCPBridge.getObjectPath
+     */
+    getPath(node: SceneNodeData): string {
+        const parts: string[] = [];
+        let current: SceneNodeData | undefined = node;
+        while (current) {
+            parts.unshift(current.name || current.type);
+            current = current.parent ? this.nodes.get(current.parent) : undefined;
+        }
+        return parts.join('/');
+    }
+
+    private emit(events: SceneEvent[] | null): void {
+        this.listeners.forEach((listener) => listener(events));
+    }
+
+    private summarize(node: SceneNodeData, path: string, children: number): SceneObjectSummary {
+        const [x, y, z] = node.position;
+        return {
+            name: node.name || `[${node.type}]`,
+            uuid: node.uuid,
+            path,
+            type: node.type,
+            position: `[${x.toFixed(2)}, ${y.toFixed(2)}, ${z.toFixed(2)}]`,
+            children,
+        };
+    }
+
+    private insert(node: SceneNodeData, index: number): void {
+        this.nodes.set(node.uuid, { ...node });
+
+        const siblings = this.children.get(node.parent) ?? [];
+        if (index >= 0 && index < siblings.length) {
+            siblings.splice(index, 0, node.uuid);
+        } else {
+            siblings.push(node.uuid);
+        }
+        this.children.set(node.parent, siblings);
+    }
+
+    private remove(uuid: string): void {
+        const node = this.nodes.get(uuid);
+        if (!node) return;
+
+        for (const childId of [...(this.children.get(uuid) ?? [])]) {
+            this.remove(childId);
+        }
+        this.children.delete(uuid);
+        this.nodes.delete(uuid);
+        this.detach(node);
+    }
+
+    /**
+     * Take a node out of its parent's children, leaving its own subtree as is
+     */
+    private detach(node: SceneNodeData): void {
+        const siblings = this.children.get(node.parent);
+        if (siblings) {
+            const position = siblings.indexOf(node.uuid);
+            if (position >= 0) siblings.splice(position, 1);
+        }
+    }
+}
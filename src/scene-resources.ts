@@ -0,0 +1,244 @@
+/**
+ * Scene Resources
+ *
+ * Exposes the live scene as MCP resources so agents can read scene context
+ * without spending tool calls:
+ *   threlte://scene          - object hierarchy
+ *   threlte://object/{path}  - a single object, by slash path
+ *   threlte://camera         - active camera state
+ *   threlte://presets        - saved camera presets
+ *
+ * Subscribed resources get notifications/resources/updated whenever the
+ * bridge reports a matching change (coalesced, see NOTIFY_INTERVAL).
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { BridgeServer } from './bridge-server.js';
+import { cameraPresets } from './camera-presets.js';
+import type { SceneEvent, SceneMirror, SceneNodeData } from './scene-mirror.js';
+
+export const SCENE_URI = 'threlte://scene';
+export const CAMERA_URI = 'threlte://camera';
+export const PRESETS_URI = 'threlte://presets';
+export const OBJECT_URI_PREFIX = 'threlte://object/';
+
+// Scene events arrive every frame; notify at most this often (ms)
+const NOTIFY_INTERVAL = 250;
+
+interface SceneTreeNode {
+    uuid: string;
+    name: string;
+    type: string;
+    path: string;
+    position: number[];
+    rotation: number[];
+    scale: number[];
+    visible: boolean;
+    children: SceneTreeNode[];
+}
+
+export interface SceneResources {
+    /** Queue an update notification if the resource is subscribed */
+    notifyUpdated(uri: string): void;
+}
+
+export function objectUri(path: string): string {
+    return OBJECT_URI_PREFIX + path.split('/').map(encodeURIComponent).join('/');
+}
+
+export function registerSceneResources(server: Server, bridge: BridgeServer): SceneResources {
+    const subscriptions = new Set<string>();
+    const pending = new Set<string>();
+    let flushTimer: NodeJS.Timeout | null = null;
+
+    const flush = () => {
+        flushTimer = null;
+        const uris = [...pending];
+        pending.clear();
+        for (const uri of uris) {
+            server.sendResourceUpdated({ uri }).catch((error) => {
+                console.error('[SceneResources] Failed to send update notification:', error);
+            });
+        }
+    };
+
+    const notifyUpdated = (uri: string) => {
+        if (!subscriptions.has(uri)) return;
+        pending.add(uri);
+        if (!flushTimer) {
+            flushTimer = setTimeout(flush, NOTIFY_INTERVAL);
+        }
+    };
+
+    // Resources show the default client, the one tools target unless told otherwise
+    bridge.onSceneChange((events) => {
+        if (subscriptions.size === 0) return;
+
+        const mirror = bridge.getSceneMirror();
+        notifyUpdated(SCENE_URI);
+        if (!events || events.some((event) => isCameraEvent(mirror, event))) {
+            notifyUpdated(CAMERA_URI);
+        }
+
+        for (const uri of subscriptions) {
+            if (!uri.startsWith(OBJECT_URI_PREFIX)) continue;
+            if (!events) {
+                notifyUpdated(uri);
+                continue;
+            }
+            const node = mirror.findByPath(parseObjectPath(uri));
+            if (!node || events.some((event) => touchesNode(mirror, event, node))) {
+                notifyUpdated(uri);
+            }
+        }
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+        resources: [
+            {
+                uri: SCENE_URI,
+                name: 'Scene hierarchy',
+                description: 'Live object hierarchy with transforms and visibility',
+                mimeType: 'application/json',
+            },
+            {
+                uri: CAMERA_URI,
+                name: 'Active camera',
+                description: 'Position, lookAt and lens of the active camera',
+                mimeType: 'application/json',
+            },
+            {
+                uri: PRESETS_URI,
+                name: 'Camera presets',
+                description: 'Saved camera presets',
+                mimeType: 'application/json',
+            },
+        ],
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+        resourceTemplates: [
+            {
+                uriTemplate: `${OBJECT_URI_PREFIX}{path}`,
+                name: 'Scene object',
+                description: 'A single object by slash path (as reported in threlte://scene), with its direct children',
+                mimeType: 'application/json',
+            },
+        ],
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const { uri } = request.params;
+        const data = await readResource(bridge, uri);
+        return {
+            contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }],
+        };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        const { uri } = request.params;
+        assertKnownUri(uri);
+        subscriptions.add(uri);
+        return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        pending.delete(request.params.uri);
+        return {};
+    });
+
+    return { notifyUpdated };
+}
+
+async function readResource(bridge: BridgeServer, uri: string): Promise<unknown> {
+    const mirror = bridge.getSceneMirror();
+
+    if (uri === PRESETS_URI) {
+        return cameraPresets.exportPresets();
+    }
+
+    if (uri === CAMERA_URI) {
+        const result = await bridge.sendCommand({ action: 'getCameraState' }) as { data?: unknown } | null;
+        return result?.data ?? result;
+    }
+
+    if (uri === SCENE_URI) {
+        if (mirror.hasData()) {
+            return { objects: mirror.getChildren(null).map((node) => buildTree(mirror, node)) };
+        }
+        const result = await bridge.sendCommand({ action: 'getFullSceneState' }) as { data?: unknown } | null;
+        return { objects: result?.data ?? [] };
+    }
+
+    if (uri.startsWith(OBJECT_URI_PREFIX)) {
+        if (!mirror.hasData()) {
+            throw new Error('Scene is not available yet. Make sure the game client is connected.');
+        }
+        const path = parseObjectPath(uri);
+        const node = mirror.findByPath(path);
+        if (!node) {
+            throw new Error(`Object not found: ${path}`);
+        }
+        return {
+            ...node,
+            path,
+            children: mirror.getChildren(node.uuid).map((child) => ({
+                uuid: child.uuid,
+                name: child.name,
+                type: child.type,
+                uri: objectUri(mirror.getPath(child)),
+            })),
+        };
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+}
+
+function assertKnownUri(uri: string): void {
+    if (uri === SCENE_URI || uri === CAMERA_URI || uri === PRESETS_URI) return;
+    if (uri.startsWith(OBJECT_URI_PREFIX) && uri.length > OBJECT_URI_PREFIX.length) return;
+    throw new Error(`Unknown resource: ${uri}`);
+}
+
+function parseObjectPath(uri: string): string {
+    return uri.slice(OBJECT_URI_PREFIX.length).split('/').map(decodeURIComponent).join('/');
+}
+
+function buildTree(mirror: SceneMirror, node: SceneNodeData): SceneTreeNode {
+    return {
+        uuid: node.uuid,
+        name: node.name,
+        type: node.type,
+        path: mirror.getPath(node),
+        position: node.position,
+        rotation: node.rotation,
+        scale: node.scale,
+        visible: node.visible,
+        children: mirror.getChildren(node.uuid).map((child) => buildTree(mirror, child)),
+    };
+}
+
+function eventUuid(event: SceneEvent): string {
+    return event.type === 'objectAdded' ? event.object.uuid : event.uuid;
+}
+
+function isCameraEvent(mirror: SceneMirror, event: SceneEvent): boolean {
+    const type = event.type === 'objectAdded' ? event.object.type : mirror.getNode(event.uuid)?.type;
+    return typeof type === 'string' && type.endsWith('Camera');
+}
+
+function touchesNode(mirror: SceneMirror, event: SceneEvent, node: SceneNodeData): boolean {
+    const uuid = eventUuid(event);
+    if (uuid === node.uuid) return true;
+    // Children added, moved or removed change the object's child list; a moved object's old parent is not known here
+    if (event.type === 'objectAdded' || event.type === 'objectRemoved') return true;
+    return mirror.getNode(uuid)?.parent === node.uuid && event.changes.name !== undefined;
+}
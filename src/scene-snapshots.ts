@@ -0,0 +1,112 @@
+/**
+ * Scene Snapshots
+ *
+ * Checkpoints of the state MCP can change (transforms, visibility, materials,
+ * spawned primitives and lights, camera), as captured by MCPBridge. Stored as
+ * one JSON file per name under .threlte-mcp/snapshots in the working directory.
+ */
+
+import { promises as fs } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { SceneSnapshot } from './protocol.js';
+
+export const DEFAULT_SNAPSHOT_DIR = join('.threlte-mcp', 'snapshots');
+
+const SNAPSHOT_NAME = /^[\w.-]+$/;
+
+export interface SceneSnapshotFile {
+    name: string;
+    description?: string;
+    savedAt: number;
+    snapshot: SceneSnapshot;
+}
+
+export interface SceneSnapshotInfo {
+    name: string;
+    description?: string;
+    savedAt: number;
+    objects: number;
+    file: string;
+}
+
+export class SceneSnapshotStore {
+    readonly dir: string;
+
+    constructor(dir: string = DEFAULT_SNAPSHOT_DIR) {
+        this.dir = resolve(dir);
+    }
+
+    /**
+     * Write a snapshot, replacing any with the same name. Returns the file path.
+     */
+    async save(name: string, snapshot: SceneSnapshotFile['snapshot'], description?: string): Promise<string> {
+        const file = this.fileFor(name);
+        const data: SceneSnapshotFile = { name, description, savedAt: Date.now(), snapshot };
+
+        await fs.mkdir(this.dir, { recursive: true });
+        // Write then rename so a crash never leaves a half-written snapshot
+        const temp = `${file}.${process.pid}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(data, null, 2), 'utf-8');
+        await fs.rename(temp, file);
+        return file;
+    }
+
+    async load(name: string): Promise<SceneSnapshotFile> {
+        const file = this.fileFor(name);
+        let text: string;
+        try {
+            text = await fs.readFile(file, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                throw new Error(`Snapshot not found: ${name}`);
+            }
+            throw error;
+        }
+
+        const data = JSON.parse(text) as SceneSnapshotFile;
+        if (!data.snapshot || !Array.isArray(data.snapshot.objects)) {
+            throw new Error(`Invalid snapshot file: ${file}`);
+        }
+        return data;
+    }
+
+    /**
+     * Saved snapshots, most recent first
+     */
+    async list(): Promise<SceneSnapshotInfo[]> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(this.dir);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+
+        const infos: SceneSnapshotInfo[] = [];
+        for (const entry of entries.filter((file) => file.endsWith('.json'))) {
+            try {
+                const data = await this.load(entry.slice(0, -'.json'.length));
+                infos.push({
+                    name: data.name,
+                    description: data.description,
+                    savedAt: data.savedAt,
+                    objects: data.snapshot.objects.length,
+                    file: join(this.dir, entry),
+                });
+            } catch (error) {
+                console.error(`[SceneSnapshots] Skipping unreadable snapshot ${entry}:`, error);
+            }
+        }
+        return infos.sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    private fileFor(name: string): string {
+        if (!SNAPSHOT_NAME.test(name)) {
+            throw new Error(`Invalid snapshot name "${name}": use letters, digits, "_", "-" and "."`);
+        }
+        return join(this.dir, `${name}.json`);
+    }
+}
+
+// Singleton instance
+export const sceneSnapshots = new SceneSnapshotStore();
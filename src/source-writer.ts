@@ -0,0 +1,528 @@
+/**
+ * Source Writer
+ *
+ * Writes live object state back into the `<T.*>` elements of a project's
+ * .svelte files. Elements are matched by the `userData.mcpSource` location the
+ * dev preprocessor injects (see svelte-preprocess.ts), or by a static `name`
+ * prop. Only literal prop values are rewritten; props bound to variables or
+ * other expressions are reported and left alone.
+ */
+
+import { promises as fs, type Dirent } from 'node:fs';
+import { join, relative, resolve, sep } from 'node:path';
+import { getAttribute, getStaticString, scanThrelteElements, type SvelteAttribute, type ThrelteElement } from './svelte-source.js';
+
+/** Live state of one object, as returned by the client's getSourceState action */
+export interface LiveObjectState {
+    uuid: string;
+    name: string;
+    path: string;
+    /** `file:line:column` of the element that created the object */
+    source?: string;
+    position: number[];
+    rotation: number[];
+    scale: number[];
+    visible: boolean;
+    material?: {
+        color?: string;
+        emissive?: string;
+        metalness?: number;
+        roughness?: number;
+        opacity: number;
+        transparent: boolean;
+    };
+}
+
+export interface SourceChange {
+    object: string;
+    file: string;
+    line: number;
+    props: string[];
+}
+
+export interface SourceCommitOptions {
+    /** Directory searched for .svelte files (default: ./src) */
+    root?: string;
+    /** Write the files instead of only returning the diff */
+    write?: boolean;
+}
+
+export interface SourceCommitResult {
+    changes: SourceChange[];
+    skipped: Array<{ object: string; reason: string }>;
+    /** Unified diff of every changed file */
+    diff: string;
+    written: string[];
+}
+
+interface SourceFile {
+    file: string;
+    text: string;
+    elements: ThrelteElement[];
+}
+
+interface Edit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+const VECTOR_PROPS = {
+    position: 0,
+    rotation: 0,
+    scale: 1,
+} as const;
+
+const AXES = ['x', 'y', 'z'];
+const MATERIAL_NUMBER_PROPS = ['metalness', 'roughness', 'opacity'] as const;
+const MATERIAL_COLOR_PROPS = ['color', 'emissive'] as const;
+const IGNORED_DIRS = new Set(['node_modules', 'dist', 'build']);
+
+// Values are written with 3 decimals, so anything closer counts as unchanged
+const EPSILON = 5e-4;
+
+export async function commitChangesToSource(
+    objects: LiveObjectState[],
+    options: SourceCommitOptions = {}
+): Promise<SourceCommitResult> {
+    const root = resolve(options.root ?? 'src');
+    const files: SourceFile[] = [];
+    for (const file of await findSvelteFiles(root)) {
+        const text = await fs.readFile(file, 'utf-8');
+        files.push({ file, text, elements: scanThrelteElements(text) });
+    }
+
+    const byLocation = new Map<string, { file: SourceFile; element: ThrelteElement }>();
+    const byName = new Map<string, Array<{ file: SourceFile; element: ThrelteElement }>>();
+    for (const file of files) {
+        for (const element of file.elements) {
+            byLocation.set(`${file.file}:${element.line}:${element.column}`, { file, element });
+            const name = getStaticString(getAttribute(element, 'name'));
+            if (name) byName.set(name, [...(byName.get(name) ?? []), { file, element }]);
+        }
+    }
+
+    const result: SourceCommitResult = { changes: [], skipped: [], diff: '', written: [] };
+    const matches = new Map<ThrelteElement, { file: SourceFile; objects: LiveObjectState[] }>();
+
+    for (const object of objects) {
+        const label = object.path || object.name;
+        let match: { file: SourceFile; element: ThrelteElement } | undefined;
+
+        if (object.source) {
+            match = byLocation.get(resolveLocation(object.source));
+            if (!match) {
+                result.skipped.push({ object: label, reason: `source location ${object.source} not found under ${root}` });
+                continue;
+            }
+        } else {
+            const candidates = byName.get(object.name) ?? [];
+            if (candidates.length > 1) {
+                result.skipped.push({ object: label, reason: `name matches ${candidates.length} elements` });
+                continue;
+            }
+            match = candidates[0];
+        }
+        if (!match) continue;
+
+        const entry = matches.get(match.element) ?? { file: match.file, objects: [] };
+        entry.objects.push(object);
+        matches.set(match.element, entry);
+    }
+
+    const edits = new Map<SourceFile, Edit[]>();
+    for (const [element, { file, objects: rendered }] of matches) {
+        const label = rendered[0].path || rendered[0].name;
+        if (rendered.length > 1) {
+            result.skipped.push({ object: label, reason: `element at ${displayPath(file.file)}:${element.line} renders ${rendered.length} objects` });
+            continue;
+        }
+
+        const elementEdits: Edit[] = [];
+        const props: string[] = [];
+        const unresolved: string[] = [];
+        diffElement(file, element, rendered[0], elementEdits, props, unresolved);
+
+        if (unresolved.length > 0) {
+            result.skipped.push({ object: label, reason: `not literal, left unchanged: ${unresolved.join(', ')}` });
+        }
+        if (elementEdits.length > 0) {
+            edits.set(file, [...(edits.get(file) ?? []), ...elementEdits]);
+            result.changes.push({ object: label, file: displayPath(file.file), line: element.line, props });
+        }
+    }
+
+    const diffs: string[] = [];
+    for (const [file, fileEdits] of edits) {
+        const updated = applyEdits(file.text, fileEdits);
+        diffs.push(unifiedDiff(displayPath(file.file), file.text, updated));
+
+        if (options.write) {
+            const current = await fs.readFile(file.file, 'utf-8');
+            if (current !== file.text) {
+                throw new Error(`${displayPath(file.file)} changed on disk while committing, nothing was written to it`);
+            }
+            // Write then rename so an editor or dev server never sees a half-written file
+            const temp = `${file.file}.${process.pid}.tmp`;
+            await fs.writeFile(temp, updated, 'utf-8');
+            await fs.rename(temp, file.file);
+            result.written.push(displayPath(file.file));
+        }
+    }
+
+    result.diff = diffs.join('');
+    return result;
+}
+
+function diffElement(
+    file: SourceFile,
+    element: ThrelteElement,
+    object: LiveObjectState,
+    edits: Edit[],
+    props: string[],
+    unresolved: string[]
+): void {
+    for (const [prop, fallback] of Object.entries(VECTOR_PROPS)) {
+        const live = (object[prop as keyof typeof VECTOR_PROPS]).slice(0, 3);
+        const attr = getAttribute(element, prop);
+
+        if (attr) {
+            const current = attr.value?.kind === 'expression' ? evaluateNumbers(attr.value.text) : null;
+            if (current === null) {
+                unresolved.push(prop);
+                continue;
+            }
+            const currentVector = typeof current === 'number' ? [current, current, current] : current;
+            if (vectorsEqual(currentVector, live)) continue;
+
+            const uniform = typeof current === 'number' && live.every((value) => Math.abs(value - live[0]) <= EPSILON);
+            edits.push(replaceValue(attr, `{${uniform ? formatNumber(live[0]) : formatVector(live)}}`));
+            props.push(prop);
+            continue;
+        }
+
+        // Pierced props (`position.y={1}`) or no prop at all
+        const pierced = AXES.map((axis) => getAttribute(element, `${prop}.${axis}`));
+        if (pierced.every((axisAttr) => !axisAttr)) {
+            if (!live.every((value) => Math.abs(value - fallback) <= EPSILON)) {
+                edits.push(insertAttribute(element, `${prop}={${formatVector(live)}}`));
+                props.push(prop);
+            }
+            continue;
+        }
+
+        pierced.forEach((axisAttr, i) => {
+            const name = `${prop}.${AXES[i]}`;
+            if (!axisAttr) {
+                if (Math.abs(live[i] - fallback) > EPSILON) {
+                    edits.push(insertAttribute(element, `${name}={${formatNumber(live[i])}}`));
+                    props.push(name);
+                }
+                return;
+            }
+            const current = axisAttr.value?.kind === 'expression' ? evaluateNumbers(axisAttr.value.text) : null;
+            if (typeof current !== 'number') {
+                unresolved.push(name);
+            } else if (Math.abs(current - live[i]) > EPSILON) {
+                edits.push(replaceValue(axisAttr, `{${formatNumber(live[i])}}`));
+                props.push(name);
+            }
+        });
+    }
+
+    const visible = getAttribute(element, 'visible');
+    if (visible) {
+        const current = !visible.value ? true : visible.value.kind === 'expression' ? parseBoolean(visible.value.text) : null;
+        if (current === null) {
+            unresolved.push('visible');
+        } else if (current !== object.visible) {
+            edits.push(visible.value
+                ? replaceValue(visible, `{${object.visible}}`)
+                : { start: visible.start, end: visible.end, text: `visible={${object.visible}}` });
+            props.push('visible');
+        }
+    } else if (!object.visible) {
+        edits.push(insertAttribute(element, 'visible={false}'));
+        props.push('visible');
+    }
+
+    if (!object.material) return;
+
+    // Pierced `material.*` props on the object, or props of a child `<T.*Material>`
+    const materialElement = file.elements.find((child) =>
+        child.parent === file.elements.indexOf(element) && /Material$/.test(child.tag)
+    );
+    const targets: Array<{ element: ThrelteElement; prefix: string }> = [{ element, prefix: 'material.' }];
+    if (materialElement) targets.push({ element: materialElement, prefix: '' });
+
+    for (const { element: target, prefix } of targets) {
+        for (const prop of MATERIAL_NUMBER_PROPS) {
+            const attr = getAttribute(target, `${prefix}${prop}`);
+            const live = object.material[prop];
+            if (!attr || live === undefined) continue;
+
+            const current = attr.value?.kind === 'expression' ? evaluateNumbers(attr.value.text) : null;
+            if (typeof current !== 'number') {
+                unresolved.push(`${prefix}${prop}`);
+            } else if (Math.abs(current - live) > EPSILON) {
+                edits.push(replaceValue(attr, `{${formatNumber(live)}}`));
+                props.push(`${prefix}${prop}`);
+            }
+        }
+
+        for (const prop of MATERIAL_COLOR_PROPS) {
+            const attr = getAttribute(target, `${prefix}${prop}`);
+            const live = object.material[prop];
+            if (!attr || live === undefined) continue;
+
+            const current = parseColor(attr);
+            if (current === null) {
+                unresolved.push(`${prefix}${prop}`);
+            } else if (current !== live.toLowerCase()) {
+                edits.push(replaceValue(attr, `"${live.toLowerCase()}"`));
+                props.push(`${prefix}${prop}`);
+            }
+        }
+
+        const transparent = getAttribute(target, `${prefix}transparent`);
+        if (transparent) {
+            const current = !transparent.value ? true : transparent.value.kind === 'expression' ? parseBoolean(transparent.value.text) : null;
+            if (current === null) {
+                unresolved.push(`${prefix}transparent`);
+            } else if (current !== object.material.transparent) {
+                edits.push(transparent.value
+                    ? replaceValue(transparent, `{${object.material.transparent}}`)
+                    : { start: transparent.start, end: transparent.end, text: `${prefix}transparent={${object.material.transparent}}` });
+                props.push(`${prefix}transparent`);
+            }
+        }
+    }
+}
+
+function replaceValue(attr: SvelteAttribute, text: string): Edit {
+    return { start: attr.value!.start, end: attr.value!.end, text };
+}
+
+function insertAttribute(element: ThrelteElement, text: string): Edit {
+    return { start: element.nameEnd, end: element.nameEnd, text: ` ${text}` };
+}
+
+function applyEdits(text: string, edits: Edit[]): string {
+    // Later edits first so earlier offsets stay valid; inserts at one spot keep their order
+    const ordered = edits.map((edit, i) => ({ edit, i })).sort((a, b) => b.edit.start - a.edit.start || b.i - a.i);
+    let result = text;
+    for (const { edit } of ordered) {
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return result;
+}
+
+/**
+ * Value of a numeric literal or array of them, allowing `+ - * /`, parentheses
+ * and Math constants (`[0, Math.PI / 2, 0]`). Null for anything else.
+ */
+export function evaluateNumbers(expression: string): number | number[] | null {
+    const tokens = expression.match(/0x[\da-f]+|\d*\.?\d+(?:e[+-]?\d+)?|Math\.[A-Z][A-Z\d_]*|[-+*/()[\],]|\S/gi) ?? [];
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const next = () => tokens[pos++];
+
+    const primary = (): number | null => {
+        const token = next();
+        if (token === undefined) return null;
+        if (token === '(') {
+            const value = sum();
+            return next() === ')' ? value : null;
+        }
+        if (token === '-' || token === '+') {
+            const value = primary();
+            return value === null ? null : token === '-' ? -value : value;
+        }
+        if (token.startsWith('Math.')) {
+            const value = (Math as unknown as Record<string, unknown>)[token.slice(5)];
+            return typeof value === 'number' ? value : null;
+        }
+        const value = Number(token);
+        return Number.isFinite(value) ? value : null;
+    };
+
+    const product = (): number | null => {
+        let value = primary();
+        while (value !== null && (peek() === '*' || peek() === '/')) {
+            const operator = next();
+            const right = primary();
+            if (right === null) return null;
+            value = operator === '*' ? value * right : value / right;
+        }
+        return value;
+    };
+
+    const sum = (): number | null => {
+        let value = product();
+        while (value !== null && (peek() === '+' || peek() === '-')) {
+            const operator = next();
+            const right = product();
+            if (right === null) return null;
+            value = operator === '+' ? value + right : value - right;
+        }
+        return value;
+    };
+
+    let result: number | number[] | null;
+    if (peek() === '[') {
+        next();
+        const values: number[] = [];
+        while (peek() !== ']') {
+            const value = sum();
+            if (value === null) return null;
+            values.push(value);
+            if (peek() === ',') next();
+            else if (peek() !== ']') return null;
+        }
+        next();
+        result = values;
+    } else {
+        result = sum();
+    }
+
+    return pos === tokens.length ? result : null;
+}
+
+function parseBoolean(expression: string): boolean | null {
+    const text = expression.trim();
+    return text === 'true' ? true : text === 'false' ? false : null;
+}
+
+/**
+ * Hex color of a `"#ff0000"`, `"#f00"`, `{'#ff0000'}` or `{0xff0000}` value, lower case
+ */
+function parseColor(attr: SvelteAttribute): string | null {
+    const text = getStaticString(attr) ?? (attr.value?.kind === 'expression' ? attr.value.text.trim() : '');
+    const hex = /^(?:#|0x)([\da-f]{6}|[\da-f]{3})$/i.exec(text);
+    if (!hex) return null;
+
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    return `#${digits.toLowerCase()}`;
+}
+
+function vectorsEqual(a: number[], b: number[]): boolean {
+    return a.length === b.length && a.every((value, i) => Math.abs(value - b[i]) <= EPSILON);
+}
+
+function formatNumber(value: number): string {
+    const rounded = Math.round(value * 1000) / 1000;
+    return String(Object.is(rounded, -0) ? 0 : rounded);
+}
+
+function formatVector(values: number[]): string {
+    return `[${values.map(formatNumber).join(', ')}]`;
+}
+
+/**
+ * Absolute `file:line:column` for a location relative to the working directory
+ */
+function resolveLocation(location: string): string {
+    const match = /^(.*):(\d+):(\d+)$/.exec(location);
+    return match ? `${resolve(match[1])}:${match[2]}:${match[3]}` : location;
+}
+
+function displayPath(file: string): string {
+    return relative(process.cwd(), file).split(sep).join('/');
+}
+
+async function findSvelteFiles(dir: string): Promise<string[]> {
+    let entries: Dirent[];
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new Error(`Source directory not found: ${dir}`);
+        }
+        throw error;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+        if (entry.name.startsWith('.') || IGNORED_DIRS.has(entry.name)) continue;
+        const full = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await findSvelteFiles(full));
+        } else if (entry.name.endsWith('.svelte')) {
+            files.push(full);
+        }
+    }
+    return files;
+}
+
+/**
+ * Line-based unified diff with 3 lines of context
+ */
+export function unifiedDiff(file: string, before: string, after: string, context = 3): string {
+    const a = before.split('\n');
+    const b = after.split('\n');
+
+    // LCS table over the lines between the common prefix and suffix
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix += 1;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix += 1;
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const lcs = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+    for (let i = midA.length - 1; i >= 0; i--) {
+        for (let j = midB.length - 1; j >= 0; j--) {
+            lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const ops: Array<{ kind: ' ' | '-' | '+'; line: string }> = a.slice(0, prefix).map((line) => ({ kind: ' ' as const, line }));
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+        if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+            ops.push({ kind: ' ', line: midA[i++] });
+            j += 1;
+        } else if (i < midA.length && (j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            ops.push({ kind: '-', line: midA[i++] });
+        } else {
+            ops.push({ kind: '+', line: midB[j++] });
+        }
+    }
+    ops.push(...a.slice(a.length - suffix).map((line) => ({ kind: ' ' as const, line })));
+
+    const lines = [`--- a/${file}`, `+++ b/${file}`];
+    let index = 0;
+    while (index < ops.length) {
+        if (ops[index].kind === ' ') {
+            index += 1;
+            continue;
+        }
+
+        // Grow the hunk until a run of unchanged lines longer than twice the context
+        const start = Math.max(0, index - context);
+        let end = index;
+        while (end < ops.length) {
+            let run = 0;
+            while (end + run < ops.length && ops[end + run].kind === ' ') run += 1;
+            if (end + run >= ops.length || run > context * 2) {
+                end = Math.min(ops.length, end + Math.min(run, context));
+                break;
+            }
+            end += run;
+            while (end < ops.length && ops[end].kind !== ' ') end += 1;
+        }
+
+        const hunk = ops.slice(start, end);
+        const oldStart = ops.slice(0, start).filter((op) => op.kind !== '+').length + 1;
+        const newStart = ops.slice(0, start).filter((op) => op.kind !== '-').length + 1;
+        const oldCount = hunk.filter((op) => op.kind !== '+').length;
+        const newCount = hunk.filter((op) => op.kind !== '-').length;
+        lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        lines.push(...hunk.map((op) => `${op.kind}${op.line}`));
+        index = end;
+    }
+
+    return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,58 @@
+/**
+ * Svelte Preprocessor - Source Locations
+ *
+ * Tags every `<T>` / `<T.*>` element with `userData.mcpSource="file:line:column"`
+ * so commit_changes_to_source can map live objects back to the element that
+ * created them, even when names are missing or repeated. Meant for dev builds:
+ *
+ * ```js
+ * // svelte.config.js
+ * import { threlteSourceLocations } from 'threlte-mcp/preprocess';
+ *
+ * export default {
+ *   preprocess: [threlteSourceLocations()],
+ * };
+ * ```
+ */
+
+import { relative, sep } from 'node:path';
+import { scanThrelteElements } from './svelte-source.js';
+
+export interface SourceLocationOptions {
+    /** Locations are recorded relative to this directory (default: process.cwd()) */
+    root?: string;
+    /** Defaults to true unless NODE_ENV is "production" */
+    enabled?: boolean;
+}
+
+/** The parts of Svelte's PreprocessorGroup this preprocessor implements */
+export interface MarkupPreprocessor {
+    name: string;
+    markup: (input: { content: string; filename?: string }) => { code: string } | undefined;
+}
+
+export function threlteSourceLocations(options: SourceLocationOptions = {}): MarkupPreprocessor {
+    const root = options.root ?? process.cwd();
+    const enabled = options.enabled ?? process.env.NODE_ENV !== 'production';
+
+    return {
+        name: 'threlte-mcp-source-locations',
+        markup({ content, filename }) {
+            if (!enabled || !filename || !filename.endsWith('.svelte')) return undefined;
+
+            const file = relative(root, filename).split(sep).join('/');
+            // An explicit userData prop would replace the injected one
+            const elements = scanThrelteElements(content).filter((element) =>
+                !element.attributes.some((attr) => /^\{?userData\}?$/.test(attr.name))
+            );
+            if (elements.length === 0) return undefined;
+
+            let code = content;
+            for (const element of [...elements].reverse()) {
+                const attribute = ` userData.mcpSource="${file}:${element.line}:${element.column}"`;
+                code = code.slice(0, element.nameEnd) + attribute + code.slice(element.nameEnd);
+            }
+            return { code };
+        },
+    };
+}
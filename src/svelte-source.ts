@@ -0,0 +1,225 @@
+/**
+ * Svelte Source Scanner
+ *
+ * Finds Threlte `<T>` / `<T.*>` elements in .svelte markup with the exact
+ * character ranges of their attributes, so tools can rewrite prop values in
+ * place. Not a full Svelte parser: script, style and comment blocks are
+ * skipped, and `{...}` expressions are only brace-matched.
+ */
+
+export interface SvelteAttribute {
+    /** `position`, `position.x`, `{position}` for shorthand, `{...props}` for spreads */
+    name: string;
+    start: number;
+    end: number;
+    value?: {
+        /** Range of the whole value, including quotes or braces */
+        start: number;
+        end: number;
+        /** Value without quotes or braces */
+        text: string;
+        kind: 'string' | 'expression';
+    };
+}
+
+export interface ThrelteElement {
+    /** `T.Mesh`, or `T` for `<T is={...}>` */
+    tag: string;
+    /** Index of the opening `<` */
+    start: number;
+    /** Index just after the tag name, where new attributes can be inserted */
+    nameEnd: number;
+    /** 1-based line and column of the opening `<` */
+    line: number;
+    column: number;
+    selfClosing: boolean;
+    attributes: SvelteAttribute[];
+    /** Index of the enclosing `<T>` element in the scan result, -1 at the top level */
+    parent: number;
+}
+
+const SKIPPED_BLOCKS = ['script', 'style'];
+
+export function scanThrelteElements(source: string): ThrelteElement[] {
+    const elements: ThrelteElement[] = [];
+    const open: number[] = [];
+    const lineStarts = [0];
+    for (let i = 0; i < source.length; i++) {
+        if (source[i] === '\n') lineStarts.push(i + 1);
+    }
+
+    let pos = 0;
+    while (pos < source.length) {
+        const char = source[pos];
+
+        if (char === '{') {
+            pos = skipExpression(source, pos);
+            continue;
+        }
+        if (char !== '<') {
+            pos += 1;
+            continue;
+        }
+
+        if (source.startsWith('<!--', pos)) {
+            const end = source.indexOf('-->', pos + 4);
+            pos = end < 0 ? source.length : end + 3;
+            continue;
+        }
+
+        if (source[pos + 1] === '/') {
+            const end = source.indexOf('>', pos);
+            const tag = source.slice(pos + 2, end < 0 ? source.length : end).trim();
+            const index = open.map((i) => elements[i].tag).lastIndexOf(tag);
+            if (index >= 0) open.length = index;
+            pos = end < 0 ? source.length : end + 1;
+            continue;
+        }
+
+        const tagMatch = /^<([A-Za-z][\w.:-]*)/.exec(source.slice(pos, pos + 200));
+        if (!tagMatch) {
+            pos += 1;
+            continue;
+        }
+
+        const tag = tagMatch[1];
+        const nameEnd = pos + tagMatch[0].length;
+        const { attributes, end, selfClosing } = parseAttributes(source, nameEnd);
+
+        if (SKIPPED_BLOCKS.includes(tag.toLowerCase()) && !selfClosing) {
+            const close = source.indexOf(`</${tag}`, end);
+            pos = close < 0 ? source.length : close;
+            continue;
+        }
+
+        if (tag === 'T' || tag.startsWith('T.')) {
+            const line = upperBound(lineStarts, pos);
+            elements.push({
+                tag,
+                start: pos,
+                nameEnd,
+                line,
+                column: pos - lineStarts[line - 1] + 1,
+                selfClosing,
+                attributes,
+                parent: open.length > 0 ? open[open.length - 1] : -1,
+            });
+            if (!selfClosing) open.push(elements.length - 1);
+        }
+        pos = end;
+    }
+
+    return elements;
+}
+
+/**
+ * The attribute with this name, ignoring Svelte directives
+ */
+export function getAttribute(element: ThrelteElement, name: string): SvelteAttribute | undefined {
+    return element.attributes.find((attr) => attr.name === name || attr.name === `{${name}}`);
+}
+
+/**
+ * Static string value of an attribute: `name="Box"` or `name={'Box'}`, null otherwise
+ */
+export function getStaticString(attr: SvelteAttribute | undefined): string | null {
+    if (!attr?.value) return null;
+    const { kind, text } = attr.value;
+    if (kind === 'string') return text.includes('{') ? null : text;
+
+    const match = /^\s*(['"])([^'"\\]*)\1\s*$/.exec(text);
+    return match ? match[2] : null;
+}
+
+function parseAttributes(source: string, from: number): { attributes: SvelteAttribute[]; end: number; selfClosing: boolean } {
+    const attributes: SvelteAttribute[] = [];
+    let pos = from;
+
+    for (;;) {
+        while (pos < source.length && /\s/.test(source[pos])) pos += 1;
+        if (pos >= source.length) return { attributes, end: pos, selfClosing: false };
+        if (source.startsWith('/>', pos)) return { attributes, end: pos + 2, selfClosing: true };
+        if (source[pos] === '>') return { attributes, end: pos + 1, selfClosing: false };
+
+        const start = pos;
+        if (source[pos] === '{') {
+            pos = skipExpression(source, pos);
+            attributes.push({ name: source.slice(start, pos).replace(/\s+/g, ''), start, end: pos });
+            continue;
+        }
+
+        while (pos < source.length && !/[\s=>]/.test(source[pos]) && !source.startsWith('/>', pos)) pos += 1;
+        const name = source.slice(start, pos);
+        if (name === '') {
+            pos += 1;
+            continue;
+        }
+
+        let afterName = pos;
+        while (afterName < source.length && /\s/.test(source[afterName])) afterName += 1;
+        if (source[afterName] !== '=') {
+            attributes.push({ name, start, end: pos });
+            continue;
+        }
+
+        let valueStart = afterName + 1;
+        while (valueStart < source.length && /\s/.test(source[valueStart])) valueStart += 1;
+        const quote = source[valueStart];
+        let value: SvelteAttribute['value'];
+
+        if (quote === '"' || quote === "'") {
+            const close = source.indexOf(quote, valueStart + 1);
+            const valueEnd = close < 0 ? source.length : close + 1;
+            value = { start: valueStart, end: valueEnd, text: source.slice(valueStart + 1, valueEnd - 1), kind: 'string' };
+        } else if (quote === '{') {
+            const valueEnd = skipExpression(source, valueStart);
+            value = { start: valueStart, end: valueEnd, text: source.slice(valueStart + 1, valueEnd - 1), kind: 'expression' };
+        } else {
+            let valueEnd = valueStart;
+            while (valueEnd < source.length && !/[\s>]/.test(source[valueEnd]) && !source.startsWith('/>', valueEnd)) valueEnd += 1;
+            value = { start: valueStart, end: valueEnd, text: source.slice(valueStart, valueEnd), kind: 'string' };
+        }
+
+        attributes.push({ name, start, end: value.end, value });
+        pos = value.end;
+    }
+}
+
+/**
+ * Index just past the `}` matching the `{` at `from`, skipping strings
+ */
+function skipExpression(source: string, from: number): number {
+    let depth = 0;
+    let pos = from;
+
+    while (pos < source.length) {
+        const char = source[pos];
+        if (char === '"' || char === "'" || char === '`') {
+            pos += 1;
+            while (pos < source.length && source[pos] !== char) {
+                pos += source[pos] === '\\' ? 2 : 1;
+            }
+        } else if (char === '{') {
+            depth += 1;
+        } else if (char === '}') {
+            depth -= 1;
+            if (depth === 0) return pos + 1;
+        }
+        pos += 1;
+    }
+    return source.length;
+}
+
+/**
+ * Number of entries in the sorted array that are <= value
+ */
+function upperBound(sorted: number[], value: number): number {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (sorted[mid] <= value) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+}
@@ -0,0 +1,170 @@
+/**
+ * Tool Arguments
+ *
+ * Checks MCP tool call arguments against the tool's JSON Schema `inputSchema`
+ * before the call is dispatched, so a handler never sees a missing vector, a
+ * string where a number belongs or a value outside an enum or range. Covers the
+ * subset of JSON Schema the tool definitions use: type, enum, properties,
+ * required, additionalProperties, items, minItems/maxItems,
+ * minimum/maximum (and their exclusive forms) and anyOf.
+ */
+
+import type { ValidationIssue } from './protocol.js';
+
+export interface JsonSchema {
+    type?: string | string[];
+    description?: string;
+    enum?: unknown[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    anyOf?: JsonSchema[];
+}
+
+/**
+ * Issues with `args`, each with the path of the argument it is about
+ * (e.g. `position[1]`); empty when the arguments fit the schema
+ */
+export function validateToolArguments(schema: JsonSchema, args: unknown): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    check(schema, args, '', issues);
+    return issues;
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, issues: ValidationIssue[]): void {
+    if (schema.anyOf) {
+        const fits = schema.anyOf.some((option) => validateToolArguments(option, value).length === 0);
+        if (!fits) issues.push({ path, message: `Expected ${expected(schema)}, got ${describe(value)}` });
+        return;
+    }
+
+    const types = typesOf(schema);
+    if (types.length > 0 && !types.some((type) => hasType(value, type))) {
+        issues.push({ path, message: `Expected ${expected(schema)}, got ${describe(value)}` });
+        return;
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ path, message: `Expected ${expected(schema)}, got ${describe(value)}` });
+        return;
+    }
+
+    if (typeof value === 'number') {
+        const bound = outOfRange(schema, value);
+        if (bound) issues.push({ path, message: `Expected a number ${bound}, got ${describe(value)}` });
+        return;
+    }
+
+    if (Array.isArray(value)) {
+        const length = lengthIssue(schema, value.length);
+        if (length) {
+            issues.push({ path, message: `Expected ${length}, got ${describe(value)}` });
+            return;
+        }
+        if (schema.items) {
+            value.forEach((item, i) => check(schema.items!, item, `${path}[${i}]`, issues));
+        }
+        return;
+    }
+
+    if (isRecord(value)) {
+        const properties = schema.properties ?? {};
+        for (const key of schema.required ?? []) {
+            if (value[key] === undefined) {
+                issues.push({ path: at(path, key), message: `Missing, expected ${properties[key] ? expected(properties[key]) : 'a value'}` });
+            }
+        }
+        for (const [key, entry] of Object.entries(value)) {
+            if (entry === undefined) continue;
+            const property = properties[key];
+            if (property) {
+                check(property, entry, at(path, key), issues);
+            } else if (schema.additionalProperties === false) {
+                const known = Object.keys(properties);
+                issues.push({
+                    path: at(path, key),
+                    message: known.length > 0 ? `Unknown argument, expected one of ${known.join(', ')}` : 'Unknown argument, this takes none',
+                });
+            }
+        }
+    }
+}
+
+function typesOf(schema: JsonSchema): string[] {
+    if (schema.type === undefined) return [];
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function hasType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'string': return typeof value === 'string';
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'integer': return Number.isInteger(value);
+        case 'boolean': return typeof value === 'boolean';
+        case 'array': return Array.isArray(value);
+        case 'object': return isRecord(value);
+        case 'null': return value === null;
+        default: return true;
+    }
+}
+
+/** What a valid value looks like, for issue messages */
+function expected(schema: JsonSchema): string {
+    if (schema.anyOf) return schema.anyOf.map(expected).join(' or ');
+    if (schema.enum) return `one of ${schema.enum.map((value) => (typeof value === 'string' ? value : JSON.stringify(value))).join(', ')}`;
+
+    return typesOf(schema).map((type) => {
+        switch (type) {
+            case 'array': {
+                const items = schema.items ? typesOf(schema.items).map((item) => `${item}s`).join(' or ') : '';
+                const count = schema.minItems !== undefined && schema.minItems === schema.maxItems ? `${schema.minItems} ` : '';
+                return items ? `an array of ${count}${items}` : 'an array';
+            }
+            case 'integer': return 'an integer';
+            case 'object': return 'an object';
+            default: return `a ${type}`;
+        }
+    }).join(' or ') || 'a value';
+}
+
+/** The bound a number breaks, e.g. ">= 0", or null */
+function outOfRange(schema: JsonSchema, value: number): string | null {
+    if (schema.minimum !== undefined && value < schema.minimum) return `>= ${schema.minimum}`;
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) return `> ${schema.exclusiveMinimum}`;
+    if (schema.maximum !== undefined && value > schema.maximum) return `<= ${schema.maximum}`;
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) return `< ${schema.exclusiveMaximum}`;
+    return null;
+}
+
+/** The item count an array breaks, e.g. "3 items", or null */
+function lengthIssue(schema: JsonSchema, length: number): string | null {
+    const { minItems, maxItems } = schema;
+    if (minItems !== undefined && minItems === maxItems) return length === minItems ? null : `${minItems} items`;
+    if (minItems !== undefined && length < minItems) return `at least ${minItems} items`;
+    if (maxItems !== undefined && length > maxItems) return `at most ${maxItems} items`;
+    return null;
+}
+
+function describe(value: unknown): string {
+    if (value === undefined) return 'nothing';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return `an array of ${value.length}`;
+    if (typeof value === 'string') return value.length <= 40 ? JSON.stringify(value) : 'a long string';
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return typeof value;
+}
+
+function at(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CommandHistory } from '../client/CommandHistory.js';
+
+/**
+ * A history over a list of values, where each entry appends one value
+ */
+function recorder(limit?: number) {
+    const values: string[] = [];
+    const history = new CommandHistory(limit);
+    const apply = (value: string) => {
+        values.push(value);
+        history.push({
+            action: 'append',
+            label: `append "${value}"`,
+            undo: () => assert.equal(values.pop(), value),
+            redo: () => values.push(value),
+        });
+    };
+    return { values, history, apply };
+}
+
+function labels(entries: Array<{ label: string }>): string[] {
+    return entries.map((entry) => entry.label);
+}
+
+describe('CommandHistory', () => {
+    it('undoes and redoes in order', () => {
+        const { values, history, apply } = recorder();
+        apply('a');
+        apply('b');
+
+        assert.equal(history.undo()?.label, 'append "b"');
+        assert.deepEqual(values, ['a']);
+        assert.equal(history.undo()?.label, 'append "a"');
+        assert.equal(history.undo(), null);
+        assert.equal(history.canUndo(), false);
+
+        assert.equal(history.redo()?.label, 'append "a"');
+        assert.equal(history.redo()?.label, 'append "b"');
+        assert.equal(history.redo(), null);
+        assert.deepEqual(values, ['a', 'b']);
+    });
+
+    it('drops the redo stack on a new entry', () => {
+        const { values, history, apply } = recorder();
+        apply('a');
+        apply('b');
+        history.undo();
+        apply('c');
+
+        assert.equal(history.canRedo(), false);
+        assert.deepEqual(values, ['a', 'c']);
+        assert.deepEqual(labels(history.summary().undo), ['append "c"', 'append "a"']);
+    });
+
+    it('keeps only the most recent entries', () => {
+        const { history, apply } = recorder(2);
+        apply('a');
+        apply('b');
+        apply('c');
+
+        assert.deepEqual(labels(history.summary().undo), ['append "c"', 'append "b"']);
+        assert.equal(history.summary().limit, 2);
+    });
+
+    it('records a committed group as one entry', () => {
+        const { values, history, apply } = recorder();
+        apply('a');
+        history.beginGroup();
+        apply('b');
+        apply('c');
+        assert.equal(history.groupSize(), 2);
+        history.commitGroup('batch', 'batch of 2');
+
+        assert.equal(history.hasOpenGroup(), false);
+        assert.equal(history.groupSize(), 0);
+        assert.deepEqual(labels(history.summary().undo), ['batch of 2', 'append "a"']);
+
+        history.undo();
+        assert.deepEqual(values, ['a']);
+        history.redo();
+        assert.deepEqual(values, ['a', 'b', 'c']);
+    });
+
+    it('records nothing for an empty group', () => {
+        const { history } = recorder();
+        history.beginGroup();
+        history.commitGroup('batch', 'empty batch');
+
+        assert.equal(history.canUndo(), false);
+    });
+
+    it('rolls back a group in reverse order', () => {
+        const { values, history, apply } = recorder();
+        apply('a');
+        history.beginGroup();
+        apply('b');
+        apply('c');
+
+        assert.equal(history.rollbackGroup(), 2);
+        assert.deepEqual(values, ['a']);
+        assert.equal(history.hasOpenGroup(), false);
+        assert.deepEqual(labels(history.summary().undo), ['append "a"']);
+    });
+
+    it('refuses to nest groups', () => {
+        const { history } = recorder();
+        history.beginGroup();
+
+        assert.throws(() => history.beginGroup(), /already open/);
+    });
+
+    it('clears both stacks', () => {
+        const { history, apply } = recorder();
+        apply('a');
+        apply('b');
+        history.undo();
+        history.clear();
+
+        assert.equal(history.canUndo(), false);
+        assert.equal(history.canRedo(), false);
+    });
+});
@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as THREE from 'three';
+import { parseQuery, queryObjects, QuerySyntaxError } from '../client/ObjectQuery.js';
+
+function named<T extends THREE.Object3D>(obj: T, name: string, ...children: THREE.Object3D[]): T {
+    obj.name = name;
+    if (children.length > 0) obj.add(...children);
+    return obj;
+}
+
+/**
+ * Scene
+ * ├── Forest (Group, userData.team=red)
+ * │   ├── Tree_01 (Mesh)
+ * │   │   └── Lamp (PointLight)
+ * │   └── Tree_02 (Mesh, hidden, layer 2)
+ * ├── Ground (Mesh)
+ * └── Sun (DirectionalLight)
+ */
+function buildScene() {
+    const lamp = named(new THREE.PointLight(), 'Lamp');
+    const tree1 = named(new THREE.Mesh(), 'Tree_01', lamp);
+    const tree2 = named(new THREE.Mesh(), 'Tree_02');
+    tree2.visible = false;
+    tree2.layers.enable(2);
+    const forest = named(new THREE.Group(), 'Forest', tree1, tree2);
+    forest.userData.team = 'red';
+    const ground = named(new THREE.Mesh(), 'Ground');
+    const sun = named(new THREE.DirectionalLight(), 'Sun');
+    const scene = named(new THREE.Scene(), 'Scene', forest, ground, sun);
+    return { scene, forest, tree1, tree2, lamp, ground, sun };
+}
+
+function names(objects: THREE.Object3D[]): string[] {
+    return objects.map((obj) => obj.name);
+}
+
+describe('parseQuery', () => {
+    it('splits alternatives, compounds and combinators', () => {
+        const query = parseQuery('Group > Mesh[name^=Tree]:visible, #abc Light');
+
+        assert.equal(query.alternatives.length, 2);
+        assert.deepEqual(query.alternatives[0], {
+            compounds: [
+                { type: 'Group', attributes: [], pseudos: [] },
+                { type: 'Mesh', attributes: [{ path: ['name'], operator: '^=', value: 'Tree' }], pseudos: [{ kind: 'visible' }] },
+            ],
+            combinators: ['>'],
+        });
+        assert.deepEqual(query.alternatives[1].combinators, [' ']);
+        assert.equal(query.alternatives[1].compounds[0].uuid, 'abc');
+    });
+
+    it('reads property paths, existence tests and quoted values', () => {
+        const [selector] = parseQuery('[userData.interactive][ name = "a ] b" ]:layer(3)').alternatives;
+
+        assert.deepEqual(selector.compounds[0].attributes, [
+            { path: ['userData', 'interactive'] },
+            { path: ['name'], operator: '=', value: 'a ] b' },
+        ]);
+        assert.deepEqual(selector.compounds[0].pseudos, [{ kind: 'layer', layer: 3 }]);
+    });
+
+    it('reports the position of syntax errors', () => {
+        const cases: Array<[string, number]> = [
+            ['', 0],
+            ['Mesh >', 6],
+            ['Mesh,', 5],
+            ['[name~=x]', 5],
+            ['[name=x', 6],
+            [':layer(40)', 7],
+            [':focus', 6],
+            ['Mesh)', 4],
+        ];
+        for (const [source, position] of cases) {
+            assert.throws(() => parseQuery(source), (error: unknown) => {
+                assert.ok(error instanceof QuerySyntaxError, source);
+                assert.equal(error.position, position, source);
+                return true;
+            });
+        }
+    });
+});
+
+describe('queryObjects', () => {
+    it('matches types and is<Type> flags', () => {
+        const { scene } = buildScene();
+
+        assert.deepEqual(names(queryObjects(scene, 'Mesh')), ['Tree_01', 'Tree_02', 'Ground']);
+        assert.deepEqual(names(queryObjects(scene, 'Light')), ['Lamp', 'Sun']);
+        assert.equal(queryObjects(scene, '*').length, 6);
+    });
+
+    it('never returns the root', () => {
+        const { scene, forest } = buildScene();
+
+        assert.deepEqual(names(queryObjects(forest, 'Group')), []);
+        assert.deepEqual(names(queryObjects(scene, 'Scene')), []);
+    });
+
+    it('compares attributes with globs and operators', () => {
+        const { scene } = buildScene();
+
+        assert.deepEqual(names(queryObjects(scene, '[name=Tree_0?]')), ['Tree_01', 'Tree_02']);
+        assert.deepEqual(names(queryObjects(scene, '[name=T*1]')), ['Tree_01']);
+        assert.deepEqual(names(queryObjects(scene, 'Mesh[name!=Tree*]')), ['Ground']);
+        assert.deepEqual(names(queryObjects(scene, '[name$=_02]')), ['Tree_02']);
+        assert.deepEqual(names(queryObjects(scene, '[name*=un]')), ['Ground', 'Sun']);
+        assert.deepEqual(names(queryObjects(scene, '[userData.team=red]')), ['Forest']);
+        assert.deepEqual(names(queryObjects(scene, '[userData.team]')), ['Forest']);
+    });
+
+    it('treats missing and object values as not equal', () => {
+        const { scene } = buildScene();
+
+        assert.deepEqual(names(queryObjects(scene, '[userData=x]')), []);
+        assert.equal(queryObjects(scene, '[userData.team!=red]').length, 5);
+    });
+
+    it('follows child and descendant combinators', () => {
+        const { scene } = buildScene();
+
+        assert.deepEqual(names(queryObjects(scene, 'Group > Mesh')), ['Tree_01', 'Tree_02']);
+        assert.deepEqual(names(queryObjects(scene, 'Group > PointLight')), []);
+        assert.deepEqual(names(queryObjects(scene, 'Group PointLight')), ['Lamp']);
+        assert.deepEqual(names(queryObjects(scene, '[userData.team=red] Mesh > Light')), ['Lamp']);
+    });
+
+    it('does not match ancestors above the root', () => {
+        const { forest } = buildScene();
+
+        assert.deepEqual(names(queryObjects(forest, 'Group Mesh')), []);
+        assert.deepEqual(names(queryObjects(forest, 'Mesh')), ['Tree_01', 'Tree_02']);
+    });
+
+    it('checks effective visibility and layers', () => {
+        const { scene, forest } = buildScene();
+
+        assert.deepEqual(names(queryObjects(scene, 'Mesh:hidden')), ['Tree_02']);
+        assert.deepEqual(names(queryObjects(scene, ':layer(2)')), ['Tree_02']);
+
+        forest.visible = false;
+        assert.deepEqual(names(queryObjects(scene, ':hidden')), ['Forest', 'Tree_01', 'Lamp', 'Tree_02']);
+        // Visibility is only checked up to the root
+        assert.deepEqual(names(queryObjects(forest, ':visible')), ['Tree_01', 'Lamp']);
+    });
+
+    it('returns every alternative once, in traversal order', () => {
+        const { scene, lamp } = buildScene();
+
+        assert.deepEqual(names(queryObjects(scene, 'DirectionalLight, Mesh, Light')), ['Tree_01', 'Lamp', 'Tree_02', 'Ground', 'Sun']);
+        assert.deepEqual(queryObjects(scene, `#${lamp.uuid}`), [lamp]);
+    });
+});
@@ -0,0 +1,142 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import {
+    ACTION_NAMES,
+    PACKAGE_VERSION,
+    ProtocolError,
+    formatIssues,
+    validateClientMessage,
+    validateCommand,
+    validateResponse,
+    validateServerMessage,
+    type ValidationResult,
+} from '../src/protocol.js';
+
+function issuesOf(result: ValidationResult<unknown>) {
+    return result.ok ? [] : result.issues;
+}
+
+function paths(result: ValidationResult<unknown>): string[] {
+    return issuesOf(result).map((issue) => issue.path);
+}
+
+describe('PACKAGE_VERSION', () => {
+    it('matches package.json', () => {
+        const pkg = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf-8')) as { version: string };
+
+        assert.equal(PACKAGE_VERSION, pkg.version);
+    });
+});
+
+describe('validateCommand', () => {
+    it('accepts a command with its action fields and extra fields', () => {
+        const command = { action: 'moveObject', requestId: 'r1', name: 'Player', position: [1, 2, 3] };
+
+        assert.deepEqual(validateCommand(command), { ok: true, value: command });
+    });
+
+    it('knows every action', () => {
+        assert.ok(ACTION_NAMES.includes('addPrimitive'));
+        assert.ok(!ACTION_NAMES.includes('getSceneState' as never));
+        assert.deepEqual(issuesOf(validateCommand({ action: 'explode' })), [
+            { path: 'action', message: 'Unknown action "explode"' },
+        ]);
+        assert.deepEqual(paths(validateCommand({ name: 'Player' })), ['action']);
+        assert.deepEqual(issuesOf(validateCommand('moveObject')), [
+            { path: '', message: 'Expected an object, got "moveObject"' },
+        ]);
+    });
+
+    it('reports each bad field by path', () => {
+        const result = validateCommand({ action: 'setCameraPosition', position: [0, 0], duration: 'slow' });
+
+        assert.deepEqual(paths(result), ['position', 'duration']);
+        assert.match(formatIssues(issuesOf(result)), /^position: Expected \[x, y, z\], got an array of 2; duration: /);
+    });
+
+    it('accepts primitive aliases and a parent', () => {
+        for (const type of ['box', 'cube', 'sphere', 'cylinder', 'plane']) {
+            assert.equal(validateCommand({ action: 'addPrimitive', type, name: 'P', parent: 'Table' }).ok, true, type);
+        }
+        assert.deepEqual(paths(validateCommand({ action: 'addPrimitive', type: 'torus' })), ['type']);
+        assert.deepEqual(paths(validateCommand({ action: 'addPrimitive', type: 'box', parent: 3 })), ['parent']);
+    });
+
+    it('checks batch steps against their own actions', () => {
+        const result = validateCommand({
+            action: 'batch',
+            steps: [
+                { action: 'addPrimitive', type: 'box' },
+                { action: 'moveObject', name: 'Box', position: 'up' },
+                { action: 'launch' },
+            ],
+        });
+
+        assert.deepEqual(paths(result), ['steps[1].position', 'steps[2].action']);
+    });
+});
+
+describe('validateResponse', () => {
+    it('checks the fields of a successful response', () => {
+        assert.equal(validateResponse('stopCameraPath', { success: true }).ok, true);
+        assert.deepEqual(paths(validateResponse('batch', { success: true })), ['steps']);
+        assert.deepEqual(paths(validateResponse('undo', { success: true, data: 'move' })), ['data']);
+        assert.deepEqual(paths(validateResponse('moveObject', { success: 'yes' })), ['success']);
+    });
+
+    it('accepts selector responses with only the matched objects', () => {
+        const matched = [{ name: 'Tree', path: 'Forest/Tree', type: 'Mesh', uuid: 'u1' }];
+
+        assert.equal(validateResponse('moveObject', { success: true, matched }).ok, true);
+        assert.deepEqual(paths(validateResponse('moveObject', { success: true, matched: [{ name: 'Tree' }] })), [
+            'matched[0].uuid',
+            'matched[0].type',
+            'matched[0].path',
+        ]);
+    });
+
+    it('checks failures against the common and action failure fields only', () => {
+        assert.equal(validateResponse('getFullSceneState', { success: false, error: 'No scene' }).ok, true);
+        assert.equal(validateResponse('batch', { success: false, error: 'Step 2 failed' }).ok, true);
+        assert.deepEqual(paths(validateResponse('moveObject', { success: false, error: 3 })), ['error']);
+    });
+});
+
+describe('client and server messages', () => {
+    it('accepts a hello from a client that predates the handshake', () => {
+        assert.equal(validateClientMessage({ type: 'hello' }).ok, true);
+        assert.equal(validateClientMessage({ type: 'hello', version: PACKAGE_VERSION, modules: { physics: true } }).ok, true);
+        assert.deepEqual(paths(validateClientMessage({ type: 'hello', modules: { physics: 'yes' } })), ['modules.physics']);
+    });
+
+    it('checks scene events inside their batch', () => {
+        const node = { uuid: 'u1', name: 'Box', type: 'Mesh', parent: null, position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1], visible: true };
+
+        assert.equal(validateClientMessage({ type: 'sceneSnapshot', objects: [node] }).ok, true);
+        assert.deepEqual(paths(validateClientMessage({
+            type: 'sceneEvents',
+            events: [
+                { type: 'objectAdded', object: node, index: 0 },
+                { type: 'objectUpdated', uuid: 'u1', changes: { visible: 'no' } },
+                { type: 'objectRenamed', uuid: 'u1' },
+            ],
+        })), ['events[1].changes.visible', 'events[2].type']);
+    });
+
+    it('requires every welcome field', () => {
+        const welcome = { type: 'welcome', protocolVersion: 1, version: PACKAGE_VERSION, clientId: 'c1', compatible: true };
+
+        assert.equal(validateServerMessage(welcome).ok, true);
+        assert.deepEqual(paths(validateServerMessage({ ...welcome, clientId: undefined })), ['clientId']);
+    });
+});
+
+describe('ProtocolError', () => {
+    it('lists the issues in its message', () => {
+        const error = new ProtocolError('Invalid command', [{ path: 'position', message: 'Missing' }, { path: '', message: 'Bad' }]);
+
+        assert.equal(error.message, 'Invalid command: position: Missing; Bad');
+        assert.equal(error.issues.length, 2);
+    });
+});
@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import RAPIER from '@dimforge/rapier3d-compat';
+import * as THREE from 'three';
+import { RapierPhysicsAdapter } from '../client/RapierPhysicsAdapter.js';
+
+const STEP = 1 / 60;
+
+function box(name: string, size: number, y: number): THREE.Mesh {
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(size, size, size));
+    mesh.name = name;
+    mesh.position.set(0, y, 0);
+    return mesh;
+}
+
+/**
+ * A 1m box above a static 10m box whose top is at y = 0
+ */
+function setup(boxY = 5) {
+    const physics = new RapierPhysicsAdapter(RAPIER);
+    const scene = new THREE.Scene();
+    const ground = box('Ground', 10, -5);
+    const crate = box('Crate', 1, boxY);
+    scene.add(ground, crate);
+    physics.createBody(ground, { type: 'static' });
+    physics.createBody(crate, {});
+    return { physics, scene, ground, crate };
+}
+
+function run(physics: RapierPhysicsAdapter, seconds: number): void {
+    for (let t = 0; t < seconds; t += STEP) physics.step(STEP);
+}
+
+describe('RapierPhysicsAdapter', () => {
+    before(async () => {
+        await RAPIER.init();
+    });
+
+    it('drops dynamic bodies onto static ones', () => {
+        const { physics, ground, crate } = setup();
+
+        run(physics, 3);
+
+        assert.ok(Math.abs(crate.position.y - 0.5) < 0.05, `crate rests at ${crate.position.y}`);
+        assert.equal(ground.position.y, -5);
+        physics.dispose();
+    });
+
+    it('writes world transforms back through parents', () => {
+        const physics = new RapierPhysicsAdapter(RAPIER);
+        const parent = new THREE.Group();
+        parent.position.set(0, 10, 0);
+        const crate = box('Crate', 1, 0);
+        parent.add(crate);
+        physics.createBody(crate, { gravityScale: 0 });
+        physics.applyImpulse(crate, [1, 0, 0]);
+
+        run(physics, 1);
+
+        assert.ok(crate.position.x > 0.5, `crate moved to x = ${crate.position.x}`);
+        assert.ok(Math.abs(crate.position.y) < 1e-6);
+        physics.dispose();
+    });
+
+    it('moves kinematic bodies with their objects', () => {
+        const physics = new RapierPhysicsAdapter(RAPIER, [0, 0, 0]);
+        const paddle = box('Paddle', 1, 0);
+        const ball = box('Ball', 1, 0);
+        ball.position.x = 2;
+        physics.createBody(paddle, { type: 'kinematic' });
+        physics.createBody(ball, { colliders: 'ball' });
+
+        for (let i = 0; i < 60; i += 1) {
+            paddle.position.x += 0.05;
+            physics.step(STEP);
+        }
+
+        assert.ok(Math.abs(paddle.position.x - 3) < 1e-6, 'kinematic objects are not overwritten');
+        assert.ok(ball.position.x > 3.5, `ball was pushed to x = ${ball.position.x}`);
+        physics.dispose();
+    });
+
+    it('applies impulses and reports velocity', () => {
+        const { physics, crate } = setup();
+        physics.setGravity([0, 0, 0]);
+        assert.deepEqual(physics.getGravity(), [0, 0, 0]);
+
+        physics.applyImpulse(crate, [0, 0, 2]);
+        physics.step(STEP);
+
+        const velocity = physics.getVelocity(crate);
+        assert.ok(velocity && velocity.linear[2] > 0);
+        assert.equal(physics.applyImpulse(new THREE.Object3D(), [0, 0, 1]), false);
+        assert.equal(physics.getVelocity(new THREE.Object3D()), null);
+        physics.dispose();
+    });
+
+    it('teleports the body and stops it on sync', () => {
+        const { physics, crate } = setup();
+        run(physics, 0.5);
+        assert.ok(physics.getVelocity(crate)!.linear[1] < -1);
+
+        crate.position.set(3, 2, 0);
+        assert.equal(physics.syncBody(crate), true);
+        assert.deepEqual(physics.getVelocity(crate), { linear: [0, 0, 0], angular: [0, 0, 0] });
+
+        physics.step(STEP);
+        assert.ok(Math.abs(crate.position.x - 3) < 1e-6);
+        assert.ok(crate.position.y > 1.99 && crate.position.y <= 2);
+        physics.dispose();
+    });
+
+    it('rebuilds the collider when the scale changed', () => {
+        const { physics, crate } = setup(0.5);
+        run(physics, 0.5);
+
+        crate.scale.setScalar(4);
+        crate.position.y = 2;
+        assert.equal(physics.syncBody(crate), true);
+        run(physics, 1);
+
+        // A 4m box rests with its center 2m above the ground, not 0.5m
+        assert.ok(Math.abs(crate.position.y - 2) < 0.05, `crate rests at ${crate.position.y}`);
+        assert.deepEqual(physics.getBodyOptions(crate), {});
+        physics.dispose();
+    });
+
+    it('keeps a copy of the options each body was created with', () => {
+        const { physics, ground, crate } = setup();
+        const options = physics.getBodyOptions(ground)!;
+        options.type = 'dynamic';
+
+        assert.deepEqual(physics.getBodyOptions(ground), { type: 'static' });
+        assert.equal(physics.syncBody(new THREE.Object3D()), false);
+
+        assert.equal(physics.removeBody(crate), true);
+        assert.equal(physics.removeBody(crate), false);
+        assert.equal(physics.hasBody(crate), false);
+        assert.equal(physics.getBodyOptions(crate), null);
+        physics.dispose();
+    });
+
+    it('refuses mesh colliders for objects without geometry', () => {
+        const physics = new RapierPhysicsAdapter(RAPIER);
+
+        assert.throws(() => physics.createBody(new THREE.Group(), { colliders: 'hull' }), /no mesh geometry/);
+        physics.dispose();
+    });
+
+    it('keeps the existing body when the new one cannot be built', () => {
+        const physics = new RapierPhysicsAdapter(RAPIER);
+        const group = new THREE.Group();
+        physics.createBody(group, { type: 'static' });
+
+        assert.throws(() => physics.createBody(group, { colliders: 'trimesh' }), /no mesh geometry/);
+        assert.equal(physics.hasBody(group), true);
+        assert.deepEqual(physics.getBodyOptions(group), { type: 'static' });
+        assert.equal(physics.world.bodies.len(), 1);
+        physics.dispose();
+    });
+});
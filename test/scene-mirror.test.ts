@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SceneMirror, type SceneEvent, type SceneNodeData } from '../src/scene-mirror.js';
+
+function node(uuid: string, name: string, parent: string | null = null, type = 'Mesh'): SceneNodeData {
+    return { uuid, name, type, parent, position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1], visible: true };
+}
+
+/**
+ * Forest (g) > Tree (t1), Tree (t2); Ground (gr)
+ */
+function mirrorWithScene(): SceneMirror {
+    const mirror = new SceneMirror();
+    mirror.applySnapshot([
+        node('g', 'Forest', null, 'Group'),
+        node('t1', 'Tree', 'g'),
+        node('t2', 'Tree', 'g'),
+        node('gr', 'Ground'),
+    ]);
+    return mirror;
+}
+
+function childIds(mirror: SceneMirror, uuid: string | null): string[] {
+    return mirror.getChildren(uuid).map((child) => child.uuid);
+}
+
+describe('SceneMirror', () => {
+    it('ignores events until the first snapshot', () => {
+        const mirror = new SceneMirror();
+        mirror.applyEvents([{ type: 'objectAdded', object: node('a', 'A'), index: 0 }]);
+
+        assert.equal(mirror.hasData(), false);
+        assert.equal(mirror.size, 0);
+        assert.equal(mirror.lastUpdated(), null);
+    });
+
+    it('builds the tree from a snapshot', () => {
+        const mirror = mirrorWithScene();
+
+        assert.equal(mirror.hasData(), true);
+        assert.equal(mirror.size, 4);
+        assert.deepEqual(childIds(mirror, null), ['g', 'gr']);
+        assert.deepEqual(childIds(mirror, 'g'), ['t1', 't2']);
+        assert.deepEqual(mirror.getSceneState().map((summary) => summary.path), ['Forest', 'Forest/Tree', 'Forest/Tree', 'Ground']);
+    });
+
+    it('inserts added objects at their index', () => {
+        const mirror = mirrorWithScene();
+        mirror.applyEvents([
+            { type: 'objectAdded', object: node('t3', 'Bush', 'g'), index: 1 },
+            { type: 'objectAdded', object: node('t4', 'Rock', 'g'), index: 99 },
+        ]);
+
+        assert.deepEqual(childIds(mirror, 'g'), ['t1', 't3', 't2', 't4']);
+    });
+
+    it('moves an object that is added again under a new parent', () => {
+        const mirror = mirrorWithScene();
+        mirror.applyEvents([{ type: 'objectAdded', object: node('t1', 'Tree', 'gr'), index: 0 }]);
+
+        assert.deepEqual(childIds(mirror, 'g'), ['t2']);
+        assert.deepEqual(childIds(mirror, 'gr'), ['t1']);
+        assert.equal(mirror.getPath(mirror.getNode('t1')!), 'Ground/Tree');
+    });
+
+    it('keeps the descendants of a moved object', () => {
+        const mirror = mirrorWithScene();
+        mirror.applyEvents([{ type: 'objectAdded', object: { ...node('g', 'Forest', 'gr', 'Group'), visible: false }, index: 0 }]);
+
+        assert.equal(mirror.size, 4);
+        assert.deepEqual(childIds(mirror, null), ['gr']);
+        assert.deepEqual(childIds(mirror, 'gr'), ['g']);
+        assert.deepEqual(childIds(mirror, 'g'), ['t1', 't2']);
+        assert.equal(mirror.getNode('g')!.visible, false);
+        assert.deepEqual(mirror.getSceneState().map((summary) => summary.path), ['Ground', 'Ground/Forest', 'Ground/Forest/Tree', 'Ground/Forest/Tree']);
+        assert.deepEqual(mirror.findObjects({ name: 'Tree' }).map((summary) => summary.path), ['Ground/Forest/Tree', 'Ground/Forest/Tree']);
+    });
+
+    it('keeps an object moved out of a parent that is then removed', () => {
+        const mirror = mirrorWithScene();
+        mirror.applyEvents([
+            { type: 'objectAdded', object: node('t1', 'Tree', 'gr'), index: 0 },
+            { type: 'objectRemoved', uuid: 'g' },
+        ]);
+
+        assert.deepEqual(mirror.getSceneState().map((summary) => summary.path), ['Ground', 'Ground/Tree']);
+    });
+
+    it('removes objects with their descendants', () => {
+        const mirror = mirrorWithScene();
+        mirror.applyEvents([{ type: 'objectRemoved', uuid: 'g' }, { type: 'objectRemoved', uuid: 'missing' }]);
+
+        assert.equal(mirror.size, 1);
+        assert.equal(mirror.getNode('t1'), undefined);
+        assert.deepEqual(childIds(mirror, null), ['gr']);
+    });
+
+    it('applies partial updates', () => {
+        const mirror = mirrorWithScene();
+        mirror.applyEvents([
+            { type: 'objectUpdated', uuid: 't2', changes: { name: 'Oak', position: [1, 2, 3] } },
+            { type: 'objectUpdated', uuid: 'missing', changes: { visible: false } },
+        ]);
+
+        const oak = mirror.getNode('t2')!;
+        assert.equal(oak.name, 'Oak');
+        assert.deepEqual(oak.position, [1, 2, 3]);
+        assert.equal(oak.visible, true);
+        assert.deepEqual(mirror.findObjects({ name: 'Oak' }), [
+            { name: 'Oak', uuid: 't2', path: 'Forest/Oak', type: 'Mesh', position: '[1.00, 2.00, 3.00]', children: 0 },
+        ]);
+    });
+
+    it('does not share node objects with the snapshot', () => {
+        const original = node('a', 'A');
+        const mirror = new SceneMirror();
+        mirror.applySnapshot([original]);
+        mirror.applyEvents([{ type: 'objectUpdated', uuid: 'a', changes: { name: 'B' } }]);
+
+        assert.equal(original.name, 'A');
+    });
+
+    it('filters objects by name, substring and type', () => {
+        const mirror = mirrorWithScene();
+
+        assert.equal(mirror.findObjects({ name: 'Tree' }).length, 2);
+        assert.deepEqual(mirror.findObjects({ nameContains: 'o' }).map((summary) => summary.uuid), ['g', 'gr']);
+        assert.deepEqual(mirror.findObjects({ type: 'Group' }).map((summary) => summary.children), [2]);
+        assert.deepEqual(mirror.findObjects({}), []);
+    });
+
+    it('limits the scene state to a depth', () => {
+        const mirror = mirrorWithScene();
+
+        assert.deepEqual(mirror.getSceneState(0).map((summary) => summary.uuid), ['g', 'gr']);
+    });
+
+    it('names unnamed objects by type', () => {
+        const mirror = new SceneMirror();
+        mirror.applySnapshot([node('l', '', null, 'PointLight')]);
+
+        assert.equal(mirror.getSceneState()[0].name, '[PointLight]');
+        assert.equal(mirror.findByPath('PointLight')?.uuid, 'l');
+    });
+
+    it('notifies listeners with each batch, and null on reset', () => {
+        const mirror = new SceneMirror();
+        const received: Array<SceneEvent[] | null> = [];
+        const unsubscribe = mirror.onChange((events) => received.push(events));
+
+        mirror.applySnapshot([node('a', 'A')]);
+        const events: SceneEvent[] = [{ type: 'objectRemoved', uuid: 'a' }];
+        mirror.applyEvents(events);
+        mirror.clear();
+        unsubscribe();
+        mirror.applySnapshot([]);
+
+        assert.deepEqual(received, [null, events, null]);
+        assert.equal(mirror.hasData(), true);
+    });
+});
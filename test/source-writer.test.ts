@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { commitChangesToSource, evaluateNumbers, unifiedDiff, type LiveObjectState } from '../src/source-writer.js';
+
+const SCENE = `<script>
+    import { T } from '@threlte/core';
+    let height = 2;
+</script>
+
+<T.Mesh name="Crate" position={[0, 1, 0]} rotation.y={Math.PI / 2}>
+    <T.BoxGeometry />
+    <T.MeshStandardMaterial color="#f00" roughness={0.5} />
+</T.Mesh>
+<T.Mesh name="Pillar" position={[0, height, 0]} scale={2} visible />
+<T.Group name="Empty" />
+`;
+
+function live(name: string, overrides: Partial<LiveObjectState> = {}): LiveObjectState {
+    return {
+        uuid: name,
+        name,
+        path: `Scene/${name}`,
+        position: [0, 0, 0],
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+        visible: true,
+        ...overrides,
+    };
+}
+
+describe('commitChangesToSource', () => {
+    let root: string;
+    let file: string;
+
+    before(async () => {
+        root = await fs.mkdtemp(join(tmpdir(), 'threlte-mcp-source-'));
+        file = join(root, 'Scene.svelte');
+    });
+
+    after(async () => {
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    async function commit(objects: LiveObjectState[], write = false) {
+        await fs.writeFile(file, SCENE, 'utf-8');
+        return commitChangesToSource(objects, { root, write });
+    }
+
+    it('rewrites literal props and leaves unchanged ones alone', async () => {
+        const result = await commit([
+            live('Crate', { position: [1.23456, 1, 0], rotation: [0, Math.PI / 2, 0] }),
+        ]);
+
+        assert.equal(result.changes.length, 1);
+        assert.deepEqual(result.changes[0].props, ['position']);
+        assert.equal(result.changes[0].line, 6);
+        assert.deepEqual(result.skipped, []);
+        assert.match(result.diff, /^-<T\.Mesh name="Crate" position=\{\[0, 1, 0\]\}/m);
+        assert.match(result.diff, /^\+<T\.Mesh name="Crate" position=\{\[1\.235, 1, 0\]\} rotation\.y=\{Math\.PI \/ 2\}>$/m);
+        assert.deepEqual(result.written, []);
+        assert.equal(await fs.readFile(file, 'utf-8'), SCENE);
+    });
+
+    it('rewrites pierced props, inserts missing ones and updates the child material', async () => {
+        const result = await commit([
+            live('Crate', {
+                position: [0, 1, 0],
+                rotation: [0, 0, 0.5],
+                material: { color: '#00FF00', roughness: 0.5, opacity: 1, transparent: false },
+            }),
+        ], true);
+
+        assert.deepEqual(result.changes[0].props, ['rotation.y', 'rotation.z', 'color']);
+        const written = await fs.readFile(file, 'utf-8');
+        assert.match(written, /<T\.Mesh rotation\.z=\{0\.5\} name="Crate" position=\{\[0, 1, 0\]\} rotation\.y=\{0\}>/);
+        assert.match(written, /<T\.MeshStandardMaterial color="#00ff00" roughness=\{0\.5\} \/>/);
+        assert.equal(result.written.length, 1);
+    });
+
+    it('keeps uniform scales uniform and reports props bound to variables', async () => {
+        const result = await commit([live('Pillar', { position: [0, 5, 0], scale: [3, 3, 3], visible: false })], true);
+
+        assert.deepEqual(result.changes[0].props, ['scale', 'visible']);
+        assert.deepEqual(result.skipped, [{ object: 'Scene/Pillar', reason: 'not literal, left unchanged: position' }]);
+        assert.match(await fs.readFile(file, 'utf-8'), /<T\.Mesh name="Pillar" position=\{\[0, height, 0\]\} scale=\{3\} visible=\{false\} \/>/);
+    });
+
+    it('adds props an element does not have yet', async () => {
+        const result = await commit([live('Empty', { position: [1, 0, 0], visible: false })]);
+
+        assert.deepEqual(result.changes[0].props, ['position', 'visible']);
+        assert.match(result.diff, /^\+<T\.Group position=\{\[1, 0, 0\]\} visible=\{false\} name="Empty" \/>$/m);
+    });
+
+    it('matches elements by source location before name', async () => {
+        const result = await commit([
+            live('Renamed', { source: `${file}:10:1`, scale: [1, 1, 1], position: [0, 2, 0] }),
+            live('Crate', { source: `${file}:99:1` }),
+            live('Unknown'),
+        ]);
+
+        assert.deepEqual(result.changes.map((change) => change.line), [10]);
+        assert.deepEqual(result.changes[0].props, ['scale']);
+        assert.deepEqual(result.skipped.map((skip) => skip.object), ['Scene/Crate', 'Scene/Renamed']);
+        assert.match(result.skipped[0].reason, /^source location .*:99:1 not found under /);
+    });
+
+    it('skips elements that render several objects', async () => {
+        const result = await commit([
+            live('A', { source: `${file}:11:1`, position: [1, 0, 0] }),
+            live('B', { source: `${file}:11:1`, position: [2, 0, 0] }),
+        ]);
+
+        assert.deepEqual(result.changes, []);
+        assert.match(result.skipped[0].reason, /renders 2 objects$/);
+        assert.equal(result.diff, '');
+    });
+
+    it('fails for a missing source directory', async () => {
+        await assert.rejects(commitChangesToSource([], { root: join(root, 'missing') }), /Source directory not found/);
+    });
+});
+
+describe('evaluateNumbers', () => {
+    it('evaluates literals, vectors and arithmetic', () => {
+        assert.equal(evaluateNumbers('1.5'), 1.5);
+        assert.equal(evaluateNumbers('-(1 + 2) * 2'), -6);
+        assert.equal(evaluateNumbers('0x10'), 16);
+        assert.deepEqual(evaluateNumbers('[0, Math.PI / 2, 1e-3]'), [0, Math.PI / 2, 0.001]);
+    });
+
+    it('returns null for anything that is not a constant', () => {
+        for (const expression of ['height', '[0, height, 0]', 'Math.random()', '1 +', '[1, 2', '1 2']) {
+            assert.equal(evaluateNumbers(expression), null, expression);
+        }
+    });
+});
+
+describe('unifiedDiff', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n');
+
+    it('writes a hunk with context around a change', () => {
+        const after = before.replace('line 10', 'line ten');
+
+        assert.equal(unifiedDiff('a.svelte', before, after), [
+            '--- a/a.svelte',
+            '+++ b/a.svelte',
+            '@@ -7,7 +7,7 @@',
+            ' line 7',
+            ' line 8',
+            ' line 9',
+            '-line 10',
+            '+line ten',
+            ' line 11',
+            ' line 12',
+            ' line 13',
+            '',
+        ].join('\n'));
+    });
+
+    it('merges nearby changes and splits distant ones', () => {
+        const nearby = before.replace('line 5', 'five').replace('line 9', 'nine');
+        const distant = before.replace('line 2', 'two').replace('line 19', 'nineteen');
+
+        assert.deepEqual(unifiedDiff('a', before, nearby).match(/^@@.*@@$/gm), ['@@ -2,11 +2,11 @@']);
+        assert.deepEqual(unifiedDiff('a', before, distant).match(/^@@.*@@$/gm), ['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+    });
+
+    it('counts inserted and removed lines', () => {
+        const after = before.replace('line 10\n', '').replace('line 15', 'line 15\nline 15b\nline 15c');
+
+        assert.deepEqual(unifiedDiff('a', before, after).match(/^@@.*@@$/gm), ['@@ -7,12 +7,13 @@']);
+    });
+});
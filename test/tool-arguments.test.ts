@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { validateToolArguments, type JsonSchema } from '../src/tool-arguments.js';
+
+const vector: JsonSchema = { type: 'array', items: { type: 'number' }, minItems: 3, maxItems: 3 };
+
+const moveSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        position: vector,
+        duration: { type: 'number', minimum: 0 },
+        easing: { type: 'string', enum: ['linear', 'easeInOut'] },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        count: { type: 'integer', exclusiveMinimum: 0, exclusiveMaximum: 10 },
+        target: { anyOf: [{ type: 'string' }, vector] },
+        options: {
+            type: 'object',
+            properties: { loop: { type: 'boolean' } },
+            additionalProperties: false,
+        },
+    },
+    required: ['name', 'position'],
+};
+
+describe('validateToolArguments', () => {
+    it('accepts arguments that fit the schema', () => {
+        assert.deepEqual(validateToolArguments(moveSchema, {
+            name: 'Player',
+            position: [1, 2, 3],
+            duration: 0,
+            easing: 'linear',
+            tags: ['a'],
+            count: 9,
+            target: [0, 0, 0],
+            options: { loop: true },
+        }), []);
+    });
+
+    it('reports missing required arguments with what they expect', () => {
+        assert.deepEqual(validateToolArguments(moveSchema, {}), [
+            { path: 'name', message: 'Missing, expected a string' },
+            { path: 'position', message: 'Missing, expected an array of 3 numbers' },
+        ]);
+    });
+
+    it('treats undefined arguments as missing', () => {
+        assert.deepEqual(validateToolArguments(moveSchema, { name: 'a', position: [0, 0, 0], duration: undefined }), []);
+        assert.equal(validateToolArguments(moveSchema, { name: undefined, position: [0, 0, 0] }).length, 1);
+    });
+
+    it('reports wrong types and array items by path', () => {
+        assert.deepEqual(validateToolArguments(moveSchema, { name: 3, position: [1, '2', NaN] }), [
+            { path: 'name', message: 'Expected a string, got 3' },
+            { path: 'position[1]', message: 'Expected a number, got "2"' },
+            { path: 'position[2]', message: 'Expected a number, got NaN' },
+        ]);
+    });
+
+    it('checks array lengths', () => {
+        const issues = validateToolArguments(moveSchema, { name: 'a', position: [1, 2], tags: [] });
+
+        assert.deepEqual(issues, [
+            { path: 'position', message: 'Expected 3 items, got an array of 2' },
+            { path: 'tags', message: 'Expected at least 1 items, got an array of 0' },
+        ]);
+        assert.deepEqual(validateToolArguments({ type: 'array', maxItems: 1 }, [1, 2]), [
+            { path: '', message: 'Expected at most 1 items, got an array of 2' },
+        ]);
+    });
+
+    it('checks enums, integers and ranges', () => {
+        const base = { name: 'a', position: [0, 0, 0] };
+
+        assert.deepEqual(validateToolArguments(moveSchema, { ...base, easing: 'bounce' }), [
+            { path: 'easing', message: 'Expected one of linear, easeInOut, got "bounce"' },
+        ]);
+        assert.deepEqual(validateToolArguments(moveSchema, { ...base, duration: -1 }), [
+            { path: 'duration', message: 'Expected a number >= 0, got -1' },
+        ]);
+        assert.deepEqual(validateToolArguments(moveSchema, { ...base, count: 1.5 }), [
+            { path: 'count', message: 'Expected an integer, got 1.5' },
+        ]);
+        assert.deepEqual(validateToolArguments(moveSchema, { ...base, count: 0 }), [
+            { path: 'count', message: 'Expected a number > 0, got 0' },
+        ]);
+        assert.deepEqual(validateToolArguments(moveSchema, { ...base, count: 10 }), [
+            { path: 'count', message: 'Expected a number < 10, got 10' },
+        ]);
+    });
+
+    it('accepts any option of anyOf', () => {
+        const base = { name: 'a', position: [0, 0, 0] };
+
+        assert.deepEqual(validateToolArguments(moveSchema, { ...base, target: 'Enemy' }), []);
+        assert.deepEqual(validateToolArguments(moveSchema, { ...base, target: [0, 0] }), [
+            { path: 'target', message: 'Expected a string or an array of 3 numbers, got an array of 2' },
+        ]);
+    });
+
+    it('rejects unknown arguments only where additionalProperties is false', () => {
+        const base = { name: 'a', position: [0, 0, 0] };
+
+        assert.deepEqual(validateToolArguments(moveSchema, { ...base, extra: 1 }), []);
+        assert.deepEqual(validateToolArguments(moveSchema, { ...base, options: { loop: 'yes', speed: 2 } }), [
+            { path: 'options.loop', message: 'Expected a boolean, got "yes"' },
+            { path: 'options.speed', message: 'Unknown argument, expected one of loop' },
+        ]);
+        assert.deepEqual(validateToolArguments({ type: 'object', properties: {}, additionalProperties: false }, { a: 1 }), [
+            { path: 'a', message: 'Unknown argument, this takes none' },
+        ]);
+    });
+
+    it('describes values without echoing long strings', () => {
+        assert.deepEqual(validateToolArguments({ type: 'number' }, 'x'.repeat(41)), [
+            { path: '', message: 'Expected a number, got a long string' },
+        ]);
+        assert.deepEqual(validateToolArguments({ type: ['string', 'null'] }, {}), [
+            { path: '', message: 'Expected a string or a null, got object' },
+        ]);
+    });
+});